@@ -0,0 +1,131 @@
+/**
+ * Conversione una tantum dello stato di gioco salvato con il formato precedente
+ * Va eseguito prima di `prisma db push` (lo fa lo script di avvio del container):
+ * stato e orari di GameSession diventano il primo evento, con il suo storico degli stati,
+ * e le vecchie colonne vengono rimosse, così la serata in corso non si perde
+ * Senza dati da convertire non fa nulla, quindi può girare a ogni avvio
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const LEGACY_SESSION_COLUMNS = ['status', 'startedAt', 'pausedAt', 'endedAt'];
+
+// Stesse tabelle che crea `prisma db push` per i model Event ed EventStatusChange
+const CREATE_EVENT_TABLES = [
+  `CREATE TABLE "Event" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'not_started',
+    "startedAt" DATETIME,
+    "pausedAt" DATETIME,
+    "pausedSeconds" INTEGER NOT NULL DEFAULT 0,
+    "endedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE INDEX "Event_createdAt_idx" ON "Event"("createdAt")`,
+  `CREATE TABLE "EventStatusChange" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "eventId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "changedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changedBy" TEXT,
+    CONSTRAINT "EventStatusChange_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+  )`,
+  `CREATE INDEX "EventStatusChange_eventId_idx" ON "EventStatusChange"("eventId")`
+];
+
+interface LegacySession {
+  status: string | null;
+  startedAt: unknown;
+  pausedAt: unknown;
+  endedAt: unknown;
+}
+
+async function columnsOf(tx: Prisma.TransactionClient, table: string): Promise<string[]> {
+  const rows = await tx.$queryRawUnsafe<Array<{ name: string }>>(`PRAGMA table_info("${table}")`);
+  return rows.map(row => row.name);
+}
+
+// Le date lette con query raw possono arrivare come Date, millisecondi o testo
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) return null;
+  const date = new Date(value as string | number | Date);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Stesso nome predefinito delle serate create dal server
+function defaultEventName(date: Date) {
+  return `Serata del ${date.toLocaleDateString('it-IT')}`;
+}
+
+async function main() {
+  await prisma.$transaction(async (tx) => {
+    const sessionColumns = await columnsOf(tx, 'GameSession');
+
+    if (!sessionColumns.includes('status')) {
+      console.log('✅ Stato di gioco già nel formato attuale');
+      return;
+    }
+
+    const [session] = await tx.$queryRawUnsafe<LegacySession[]>(
+      `SELECT "status", "startedAt", "pausedAt", "endedAt" FROM "GameSession" WHERE "id" = 1`
+    );
+
+    if (session?.status) {
+      if ((await columnsOf(tx, 'Event')).length === 0) {
+        for (const statement of CREATE_EVENT_TABLES) {
+          await tx.$executeRawUnsafe(statement);
+        }
+      }
+
+      const now = new Date();
+      const startedAt = session.startedAt ?? null;
+      const date = toDate(startedAt) ?? now;
+
+      await tx.$executeRawUnsafe(
+        `INSERT INTO "Event" ("name", "date", "status", "startedAt", "pausedAt", "endedAt", "createdAt") VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        defaultEventName(date), startedAt ?? now, session.status, startedAt, session.pausedAt ?? null, session.endedAt ?? null, now
+      );
+      const [{ id: eventId }] = await tx.$queryRawUnsafe<Array<{ id: number | bigint }>>('SELECT last_insert_rowid() AS "id"');
+
+      // Storico degli stati ricostruito dagli orari salvati: avvio, poi pausa o fine
+      const changes: Array<{ status: string; changedAt: unknown }> = [];
+      if (session.status === 'not_started' || !startedAt) {
+        changes.push({ status: session.status, changedAt: now });
+      } else {
+        changes.push({ status: 'active', changedAt: startedAt });
+        if (session.status === 'paused') changes.push({ status: 'paused', changedAt: session.pausedAt ?? now });
+        if (session.status === 'ended') changes.push({ status: 'ended', changedAt: session.endedAt ?? now });
+      }
+      for (const change of changes) {
+        await tx.$executeRawUnsafe(
+          `INSERT INTO "EventStatusChange" ("eventId", "status", "changedAt") VALUES (?, ?, ?)`,
+          Number(eventId), change.status, change.changedAt
+        );
+      }
+
+      if (!sessionColumns.includes('currentEventId')) {
+        await tx.$executeRawUnsafe('ALTER TABLE "GameSession" ADD COLUMN "currentEventId" INTEGER');
+      }
+      await tx.$executeRawUnsafe('UPDATE "GameSession" SET "currentEventId" = ? WHERE "id" = 1', Number(eventId));
+
+      console.log(`🔄 Stato di gioco "${session.status}" convertito nel primo evento`);
+    }
+
+    for (const column of LEGACY_SESSION_COLUMNS) {
+      await tx.$executeRawUnsafe(`ALTER TABLE "GameSession" DROP COLUMN "${column}"`);
+    }
+  });
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Conversione stato di gioco fallita:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,121 @@
+/**
+ * Conversione una tantum delle reazioni salvate con i formati precedenti
+ * Va eseguito prima di `prisma db push` (lo fa lo script di avvio del container):
+ * - contatori sul messaggio (reactionsHeart... + reactedTables): una reazione per tavolo
+ * - righe Reaction legate all'id utente: passano al nome del giocatore
+ * Senza dati da convertire non fa nulla, quindi può girare a ogni avvio
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Vecchi tipi di reazione → emoji del set predefinito
+const LEGACY_EMOJIS: Record<string, string> = {
+  heart: '❤️',
+  thumbsup: '👍',
+  fire: '🔥',
+  laugh: '😂'
+};
+
+const LEGACY_MESSAGE_COLUMNS = ['reactionsHeart', 'reactionsThumbsup', 'reactionsFire', 'reactionsLaugh', 'reactedTables'];
+
+// Stessa tabella che crea `prisma db push` per il model Reaction
+const CREATE_REACTION_TABLE = [
+  `CREATE TABLE "Reaction" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "messageId" TEXT NOT NULL,
+    "tableId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Reaction_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Reaction_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "Table" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+  )`,
+  `CREATE INDEX "Reaction_tableId_idx" ON "Reaction"("tableId")`,
+  `CREATE UNIQUE INDEX "Reaction_messageId_tableId_firstName_lastName_emoji_key" ON "Reaction"("messageId", "tableId", "firstName", "lastName", "emoji")`
+];
+
+async function columnsOf(tx: Prisma.TransactionClient, table: string): Promise<string[]> {
+  const rows = await tx.$queryRawUnsafe<Array<{ name: string }>>(`PRAGMA table_info("${table}")`);
+  return rows.map(row => row.name);
+}
+
+async function main() {
+  await prisma.$transaction(async (tx) => {
+    const messageColumns = await columnsOf(tx, 'Message');
+    const reactionColumns = await columnsOf(tx, 'Reaction');
+
+    const hasCounters = messageColumns.includes('reactedTables');
+    const hasUserIds = reactionColumns.includes('userId');
+
+    if (!hasCounters && !hasUserIds) {
+      console.log('✅ Reazioni già nel formato attuale');
+      return;
+    }
+
+    if (hasUserIds) {
+      await tx.$executeRawUnsafe('ALTER TABLE "Reaction" RENAME TO "Reaction_old"');
+    }
+    if (hasUserIds || reactionColumns.length === 0) {
+      for (const statement of CREATE_REACTION_TABLE) {
+        await tx.$executeRawUnsafe(statement);
+      }
+    }
+
+    if (hasUserIds) {
+      // Le reazioni di utenti già rimossi non hanno più un nome: contano una volta per tavolo
+      const copied = await tx.$executeRawUnsafe(`
+        INSERT OR IGNORE INTO "Reaction" ("messageId", "tableId", "firstName", "lastName", "emoji", "createdAt")
+        SELECT r."messageId", r."tableId", COALESCE(u."firstName", ''), COALESCE(u."lastName", ''), r."emoji", r."createdAt"
+        FROM "Reaction_old" r LEFT JOIN "User" u ON u."id" = r."userId"
+      `);
+      await tx.$executeRawUnsafe('DROP TABLE "Reaction_old"');
+      console.log(`🔄 ${copied} reazioni collegate al nome del giocatore`);
+    }
+
+    if (hasCounters) {
+      // reactedTables: {"<tavolo>_<tipo>": true}, una reazione per tavolo e tipo (senza nome del giocatore)
+      const messages = await tx.$queryRawUnsafe<Array<{ id: string; reactedTables: string; timestamp: unknown }>>(
+        `SELECT "id", "reactedTables", "timestamp" FROM "Message" WHERE "reactedTables" != '{}'`
+      );
+
+      let converted = 0;
+      for (const message of messages) {
+        let reacted: Record<string, boolean>;
+        try {
+          reacted = JSON.parse(message.reactedTables);
+        } catch {
+          continue;
+        }
+
+        for (const key of Object.keys(reacted)) {
+          const separator = key.lastIndexOf('_');
+          const emoji = LEGACY_EMOJIS[key.slice(separator + 1)];
+          if (separator <= 0 || !emoji) continue;
+
+          converted += await tx.$executeRawUnsafe(
+            `INSERT OR IGNORE INTO "Reaction" ("messageId", "tableId", "firstName", "lastName", "emoji", "createdAt")
+             SELECT ?, "id", '', '', ?, ? FROM "Table" WHERE "id" = ?`,
+            message.id, emoji, message.timestamp, key.slice(0, separator)
+          );
+        }
+      }
+
+      for (const column of LEGACY_MESSAGE_COLUMNS) {
+        await tx.$executeRawUnsafe(`ALTER TABLE "Message" DROP COLUMN "${column}"`);
+      }
+      console.log(`🔄 ${converted} reazioni convertite dai vecchi contatori`);
+    }
+  });
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Conversione reazioni fallita:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -2,14 +2,31 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { hashPassword, verifyPassword, validatePassword, validateTableCode, sanitizeInput, sanitizeMessageContent } from './utils/auth';
 import { parsePermissions, serializePermissions, DEFAULT_PERMISSIONS, type StaffPermissions } from './utils/permissions';
-import { generateToken, requireAuth, requireAdmin, requireAdminOrStaff, requirePermission } from './middleware/auth';
+import { generateToken, requireAuth, requireAdmin, requireAdminOrStaff, requireDisplay, requirePermission, requirePlayer, findActiveBan, banResponse, streamToken } from './middleware/auth';
+import { openStream, closePlayerStreams, publish, TV_CHANNEL, tvChannel, tvScreenConnections } from './utils/events';
+import { parseReactionEmojis, validateReactionEmojis, summarizeReactions, type ReactionPlayer } from './utils/reactions';
+import { generateMessageId, parseMessagePage, type MessagePage } from './utils/message-cursor';
+import { applyContentFilter, validateBlockedTerm } from './utils/content-filter';
+import { REPORT_ACTIONS, validateReport, parseReportActions, type ReportAction } from './utils/reports';
+import { HIDDEN, NOT_HIDDEN, isHidden } from './utils/moderation';
+import { parseChallengeResult, validateTieBreak } from './utils/challenges';
+import { SCORING_RULES, parseScoringWeights, pointsFor, scoreReasonLabel, validateScoringWeights, SCORE_REVERSALS, type ScoringRuleKey } from './utils/scoring';
+import { elapsedPlaySeconds, playlistItemStartSecond, validatePlaylistOffset, MAX_PLAYLIST_DELAY_MINUTES } from './utils/playlist';
+import { generateDisplayToken, hashDisplayToken, validateDisplayName } from './utils/display-tokens';
+import { TV_SCENES, TV_THEMES, TV_CONTENT_FILTERS, MAIN_TV_SCREEN, MAX_ANNOUNCEMENT_LENGTH, allowedTvScenes, isTvScene, parseTvRotation, validateTvRotation, validateTvScreen } from './utils/tv-scenes';
+import { evaluateChallenge, getChallengeEvaluator, listChallengeEvaluators, parseChallengeParams, publicChallengeParams, submittedTo, validateChallengeParams } from './utils/challenge-evaluators';
 
 // Inizializza Prisma
 export const prisma = new PrismaClient();
 
+// Errore Prisma noto con il codice indicato (es. P2002 vincolo unico, P2025 riga non trovata)
+function isPrismaError(error: unknown, code: string): error is Prisma.PrismaClientKnownRequestError {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code;
+}
+
 // Inizializza Express
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -101,15 +118,91 @@ const adminLimiter = rateLimit({
   legacyHeaders: false
 });
 
-// Rate limiting per messaggi e reazioni (anti-spam)
+// Rate limiting per messaggi (anti-spam) - per tavolo, non per IP:
+// nel locale tutti i telefoni escono dallo stesso NAT
 const messageLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minuto
-  max: 20, // Max 20 messaggi/reazioni al minuto per IP
-  message: 'Troppi messaggi inviati, attendi un minuto',
+  limit: (req) => getTableMessageQuota(req.user!.tableId!), // Quota del tavolo, letta ad ogni richiesta
+  keyGenerator: (req) => `table:${req.user!.tableId}`,
+  message: { error: 'Troppi messaggi inviati dal tuo tavolo, attendi un minuto', code: 'RATE_LIMITED' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Rate limiting per reazioni (anti-spam) - per sessione giocatore
+const reactionLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minuto
+  max: 30, // Max 30 reazioni al minuto per giocatore
+  keyGenerator: (req) => `player:${req.user!.id}`,
+  message: { error: 'Troppe reazioni, attendi un minuto', code: 'RATE_LIMITED' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Rate limiter per le segnalazioni: per giocatore
+const reportLimiter = rateLimit({
+  windowMs: 10 * 60 * 1000, // 10 minuti
+  max: 10, // Max 10 segnalazioni ogni 10 minuti per giocatore
+  keyGenerator: (req) => `player:${req.user!.id}`,
+  message: { error: 'Troppe segnalazioni, riprova più tardi', code: 'RATE_LIMITED' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Rate limiter per i voti delle sfide: per tavolo (il voto è uno per tavolo, qui si frenano i tentativi)
+const voteLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minuto
+  max: 10, // Max 10 tentativi di voto al minuto per tavolo
+  keyGenerator: (req) => `table:${req.user!.tableId}`,
+  message: { error: 'Troppi tentativi di voto, attendi un minuto', code: 'RATE_LIMITED' },
   standardHeaders: true,
   legacyHeaders: false
 });
 
+// Quota messaggi/minuto di un tavolo: override del tavolo o quota predefinita della sessione
+async function getTableMessageQuota(tableId: string): Promise<number> {
+  const [table, session] = await Promise.all([
+    prisma.table.findUnique({ where: { id: tableId }, select: { messageQuota: true } }),
+    prisma.gameSession.findUnique({ where: { id: 1 }, select: { messageQuota: true } })
+  ]);
+
+  return table?.messageQuota ?? session?.messageQuota ?? 20;
+}
+
+// Slow mode: intervallo minimo tra due messaggi dello stesso tavolo (impostato dall'admin a caldo)
+async function slowModeGuard(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const session = await prisma.gameSession.findUnique({ where: { id: 1 }, select: { slowModeSeconds: true } });
+    const slowModeSeconds = session?.slowModeSeconds || 0;
+
+    if (slowModeSeconds <= 0) return next();
+
+    const lastMessage = await prisma.message.findFirst({
+      where: { fromTableId: req.user!.tableId },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true }
+    });
+
+    if (lastMessage) {
+      const elapsed = (Date.now() - lastMessage.timestamp.getTime()) / 1000;
+      if (elapsed < slowModeSeconds) {
+        const retryAfter = Math.ceil(slowModeSeconds - elapsed);
+        res.setHeader('Retry-After', String(retryAfter));
+        return res.status(429).json({
+          error: `Modalità lenta attiva: il tuo tavolo potrà scrivere di nuovo tra ${retryAfter} secondi`,
+          code: 'SLOW_MODE',
+          retryAfter
+        });
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error checking slow mode:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 // Applica rate limiting globale
 app.use('/api/', globalLimiter);
 
@@ -126,6 +219,212 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'ok' });
 });
 
+// ============================================
+// REAL-TIME STREAM (SSE)
+// ============================================
+
+// Campi delle reazioni da includere nelle query sui messaggi
+const reactionSelect = { select: { emoji: true, tableId: true, firstName: true, lastName: true } };
+
+// Campi del messaggio originale di una risposta (citazione, senza dati sul mittente)
+const replyToSelect = { select: { id: true, content: true, fromTableId: true, hiddenAt: true, restoredAt: true } };
+
+type QuotedMessage = { id: string; content: string; fromTableId: string | null; hiddenAt: Date | null; restoredAt: Date | null };
+
+// Formatta un messaggio per i client giocatore
+// viewer: giocatore che legge, per evidenziare le sue reazioni
+// Il nome reale del mittente di un messaggio anonimo non esce mai verso i giocatori
+function formatMessage(m: {
+  id: string;
+  content: string;
+  fromTableId: string | null;
+  toTableId: string;
+  senderName: string;
+  publicSenderName: string | null;
+  timestamp: Date;
+  isAnonymous: boolean;
+  isBroadcast: boolean;
+  replyToId?: string | null;
+  threadId?: string | null;
+  recipientName?: string | null;
+  replyTo?: QuotedMessage | null;
+  reactions?: Array<{ emoji: string } & ReactionPlayer>;
+}, viewer?: ReactionPlayer) {
+  return {
+    id: m.id,
+    content: m.content,
+    fromTable: m.fromTableId,
+    toTable: m.toTableId,
+    senderName: m.isAnonymous ? undefined : m.senderName,
+    publicSenderName: m.publicSenderName,
+    timestamp: m.timestamp.toISOString(),
+    isAnonymous: m.isAnonymous,
+    isBroadcast: m.isBroadcast,
+    replyToId: m.replyToId ?? null,
+    threadId: m.threadId ?? null,
+    addressedTo: m.recipientName ?? null, // La risposta arriva al tavolo del mittente originale
+    replyTo: m.replyTo
+      ? {
+          id: m.replyTo.id,
+          content: isHidden(m.replyTo) ? null : m.replyTo.content,
+          fromTable: m.replyTo.fromTableId
+        }
+      : null,
+    ...summarizeReactions(m.reactions || [], viewer)
+  };
+}
+
+// Pagina di messaggi a cursore (ID ordinabili nel tempo), sempre dal più vecchio al più recente
+// - since: messaggi successivi al cursore, hasMore = ce ne sono altri più recenti
+// - from: come since ma compreso il cursore (il client ricarica i messaggi che ha già)
+// - altrimenti: gli ultimi `limit` (prima di `before`), hasMore = ce ne sono di più vecchi
+async function findMessagePage(where: Prisma.MessageWhereInput, page: MessagePage) {
+  if (page.since || page.from) {
+    const rows = await prisma.message.findMany({
+      where: { ...where, id: page.since ? { gt: page.since } : { gte: page.from } },
+      orderBy: { id: 'asc' },
+      take: page.limit + 1,
+      include: { reactions: reactionSelect, replyTo: replyToSelect }
+    });
+    return { messages: rows.slice(0, page.limit), hasMore: rows.length > page.limit };
+  }
+
+  const rows = await prisma.message.findMany({
+    where: page.before ? { ...where, id: { lt: page.before } } : where,
+    orderBy: { id: 'desc' },
+    take: page.limit + 1,
+    include: { reactions: reactionSelect, replyTo: replyToSelect }
+  });
+  return { messages: rows.slice(0, page.limit).reverse(), hasMore: rows.length > page.limit };
+}
+
+// Formatta una sfida per le risposte API e gli eventi
+function formatChallenge(c: {
+  id: number;
+  title: string;
+  description: string;
+  type: string;
+  active: boolean;
+  badgeName: string;
+  badgeEmoji: string;
+  startedAt: Date;
+  endsAt: Date;
+  winner: string | null;
+  endedAt?: Date | null;
+  result?: string | null;
+  params?: string | null;
+  tieBreak?: string;
+  suddenDeathMinutes?: number | null;
+  extendedAt?: Date | null;
+  judgedMessageId?: string | null;
+}) {
+  return {
+    id: String(c.id),
+    title: c.title,
+    description: c.description,
+    type: c.type,
+    typeLabel: getChallengeEvaluator(c.type)?.label ?? c.type,
+    judging: getChallengeEvaluator(c.type)?.judging ?? null, // staff, vote o null (calcolo automatico)
+    // Sfida a giudizio scaduta: resta attiva finché lo staff non sceglie il vincitore
+    awaitingJudgement: c.active && getChallengeEvaluator(c.type)?.judging === 'staff' && c.endsAt <= new Date(),
+    params: publicChallengeParams(c.type, parseChallengeParams(c.params ?? null)),
+    active: c.active,
+    badgeName: c.badgeName,
+    badgeEmoji: c.badgeEmoji,
+    startedAt: c.startedAt.toISOString(),
+    endsAt: c.endsAt.toISOString(),
+    winner: c.winner,
+    tieBreak: c.tieBreak ?? 'co_winners',
+    suddenDeathMinutes: c.suddenDeathMinutes ?? null,
+    extendedAt: c.extendedAt?.toISOString() ?? null, // Spareggio in corso (o avvenuto)
+    endedAt: c.endedAt?.toISOString() ?? null,
+    judgedMessageId: c.active ? null : c.judgedMessageId ?? null, // Rivelato solo a sfida conclusa
+    result: parseChallengeResult(c.result ?? null)
+  };
+}
+
+// Invia a tutti lo stato corrente del gioco (evento in corso)
+async function publishGameStatus() {
+  publish('game-status', await getGameStatus());
+}
+
+// Invia a tutti lo stato corrente del countdown
+async function publishCountdown() {
+  const countdown = await prisma.countdown.findUnique({ where: { id: 1 } });
+  publish('countdown', {
+    active: countdown?.active || false,
+    endsAt: countdown?.endsAt?.toISOString(),
+    message: countdown?.message,
+    startedAt: countdown?.startedAt?.toISOString()
+  });
+}
+
+// Invia ai client di un tavolo la lista aggiornata degli utenti connessi
+async function publishTableUsers(tableId: string) {
+  const users = await prisma.user.findMany({
+    where: { tableId, eventId: await currentEventId() },
+    select: { firstName: true, lastName: true, joinedAt: true, lastActive: true }
+  });
+
+  publish('table-users', {
+    users: users.map(u => ({
+      firstName: u.firstName,
+      lastName: u.lastName,
+      joinedAt: u.joinedAt.toISOString(),
+      lastActive: u.lastActive.toISOString()
+    })),
+    tableNumber: tableId,
+    userCount: users.length
+  }, tableId);
+}
+
+// Timer di scadenza delle sfide attive (challengeId -> timer)
+const challengeTimers = new Map<number, NodeJS.Timeout>();
+
+// Programma la chiusura di una sfida alla sua scadenza (con calcolo del vincitore)
+function scheduleChallengeExpiry(challengeId: number, endsAt: Date) {
+  const existing = challengeTimers.get(challengeId);
+  if (existing) clearTimeout(existing);
+
+  const delay = Math.max(0, endsAt.getTime() - Date.now());
+  const timer = setTimeout(async () => {
+    challengeTimers.delete(challengeId);
+    try {
+      await finalizeChallenge(challengeId, endsAt);
+    } catch (error) {
+      console.error('Error expiring challenge:', error);
+    }
+  }, delay);
+
+  challengeTimers.set(challengeId, timer);
+}
+
+// Annulla il timer di scadenza di una sfida (es. terminata manualmente)
+function cancelChallengeExpiry(challengeId: number) {
+  const timer = challengeTimers.get(challengeId);
+  if (timer) {
+    clearTimeout(timer);
+    challengeTimers.delete(challengeId);
+  }
+}
+
+// Stream eventi per un tavolo: nuovi messaggi, reazioni, stato gioco, countdown e sfide
+// (PROTETTO - token giocatore in query string, solo per il proprio tavolo)
+app.get('/api/stream/:tableNumber', streamToken('player'), requireAuth, requirePlayer, async (req, res) => {
+  try {
+    const tableId = req.params.tableNumber;
+
+    if (tableId !== req.user!.tableId) {
+      return res.status(403).json({ error: 'Puoi seguire solo il tuo tavolo' });
+    }
+
+    openStream(res, tableId, { firstName: req.user!.firstName, lastName: req.user!.lastName });
+  } catch (error) {
+    console.error('Error opening stream:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ============================================
 // ADMIN SETUP & AUTHENTICATION
 // ============================================
@@ -736,15 +1035,19 @@ app.put('/api/staff/:id/permissions', requireAuth, requireAdmin, async (req, res
 // TABLE CODES MANAGEMENT
 // ============================================
 
-// Validate table code
+// Validate table code - registra il giocatore al tavolo ed emette il token di sessione
 app.post('/api/validate-table-code', async (req, res) => {
   try {
-    const { tableCode } = req.body;
+    const { tableCode, firstName, lastName } = req.body;
 
     if (!tableCode) {
       return res.status(400).json({ error: 'Table code is required' });
     }
 
+    if (!firstName || !lastName) {
+      return res.status(400).json({ error: 'Nome e cognome sono obbligatori' });
+    }
+
     console.log(`Looking for table code: ${tableCode}`);
 
     // Cerca il tavolo con questo codice
@@ -756,9 +1059,28 @@ app.post('/api/validate-table-code', async (req, res) => {
       return res.status(404).json({ error: 'Codice tavolo non valido' });
     }
 
+    const ban = await findActiveBan(table.id, sanitizeInput(firstName), sanitizeInput(lastName));
+    if (ban) {
+      return res.status(403).json(banResponse(ban.until));
+    }
+
+    const user = await touchTableUser(table.id, sanitizeInput(firstName), sanitizeInput(lastName));
+
+    // Token giocatore legato a tavolo e utente: le route player non si fidano più del body
+    const token = generateToken({
+      id: user.id,
+      role: 'player',
+      firstName: user.firstName,
+      lastName: user.lastName,
+      tableId: table.id
+    });
+
+    await publishTableUsers(table.id);
+
     res.json({
       valid: true,
-      tableNumber: table.id
+      tableNumber: table.id,
+      token
     });
   } catch (error) {
     console.error('Error validating table code:', error);
@@ -766,8 +1088,8 @@ app.post('/api/validate-table-code', async (req, res) => {
   }
 });
 
-// Get all table codes (PROTETTO - richiede autenticazione)
-app.get('/api/table-codes', requireAuth, async (req, res) => {
+// Get all table codes (PROTETTO - richiede autenticazione admin o staff)
+app.get('/api/table-codes', requireAuth, requireAdminOrStaff, async (req, res) => {
   try {
     const tables = await prisma.table.findMany({
       select: { id: true, code: true }
@@ -786,26 +1108,208 @@ app.get('/api/table-codes', requireAuth, async (req, res) => {
 });
 
 // ============================================
-// GAME CONTROL
+// EVENTI (SERATE)
 // ============================================
 
-// Get game status
-app.get('/api/game-status', async (req, res) => {
+// Evento in corso: le nuove righe (messaggi, giocatori, sfide, punti) vengono legate a questo
+async function getCurrentEvent() {
+  const settings = await prisma.gameSession.findUnique({ where: { id: 1 }, select: { currentEventId: true } });
+  const event = settings?.currentEventId
+    ? await prisma.event.findUnique({ where: { id: settings.currentEventId } })
+    : null;
+
+  return event ?? createEvent(defaultEventName(new Date()), new Date());
+}
+
+async function currentEventId(): Promise<number> {
+  return (await getCurrentEvent()).id;
+}
+
+// Evento richiesto dall'admin con ?eventId= (eventi passati in sola lettura), altrimenti quello in corso
+// null se l'ID non è valido
+async function requestedEventId(req: express.Request): Promise<number | null> {
+  if (req.query.eventId === undefined || req.query.eventId === '') return currentEventId();
+
+  const eventId = parseInt(String(req.query.eventId));
+  return isNaN(eventId) ? null : eventId;
+}
+
+function defaultEventName(date: Date) {
+  return `Serata del ${date.toLocaleDateString('it-IT')}`;
+}
+
+// Crea un evento e lo rende quello in corso
+async function createEvent(name: string, date: Date) {
+  const event = await prisma.event.create({
+    data: { name, date, statusChanges: { create: { status: 'not_started' } } }
+  });
+
+  await prisma.gameSession.upsert({
+    where: { id: 1 },
+    create: { id: 1, currentEventId: event.id },
+    update: { currentEventId: event.id }
+  });
+
+  console.log(`✓ Nuovo evento: "${event.name}"`);
+  return event;
+}
+
+// Cambia lo stato di un evento registrandolo nello storico
+async function setEventStatus(eventId: number, status: string, changedBy: string | null, data: Prisma.EventUpdateInput = {}) {
+  await prisma.event.update({
+    where: { id: eventId },
+    data: { ...data, status, statusChanges: { create: { status, changedBy } } }
+  });
+}
+
+// Stato del gioco visto dai client: quello dell'evento in corso
+async function getGameStatus() {
+  const [event, settings] = await Promise.all([
+    getCurrentEvent(),
+    prisma.gameSession.findUnique({ where: { id: 1 }, select: { slowModeSeconds: true } })
+  ]);
+
+  return {
+    status: event.status,
+    startedAt: event.startedAt?.toISOString(),
+    pausedAt: event.pausedAt?.toISOString(),
+    slowModeSeconds: settings?.slowModeSeconds || 0,
+    event: { id: String(event.id), name: event.name, date: event.date.toISOString() }
+  };
+}
+
+function formatEvent(event: Prisma.EventGetPayload<{}>, currentId: number) {
+  return {
+    id: String(event.id),
+    name: event.name,
+    date: event.date.toISOString(),
+    status: event.status,
+    startedAt: event.startedAt?.toISOString() ?? null,
+    endedAt: event.endedAt?.toISOString() ?? null,
+    current: event.id === currentId
+  };
+}
+
+// GET /api/admin/events - Tutti gli eventi, dal più recente, con i totali
+app.get('/api/admin/events', requireAuth, requirePermission('view_messages'), async (req, res) => {
   try {
-    let session = await prisma.gameSession.findUnique({ where: { id: 1 } });
+    const current = await currentEventId();
+    const events = await prisma.event.findMany({
+      orderBy: { id: 'desc' },
+      include: { _count: { select: { messages: true, users: true, challenges: true } } }
+    });
 
-    // Crea sessione se non esiste
-    if (!session) {
-      session = await prisma.gameSession.create({
-        data: { id: 1, status: 'not_started' }
-      });
+    res.json({
+      events: events.map(event => ({
+        ...formatEvent(event, current),
+        messageCount: event._count.messages,
+        userCount: event._count.users,
+        challengeCount: event._count.challenges
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/admin/events/:id - Dettaglio di un evento: storico stati, classifica e sfide
+app.get('/api/admin/events/:id', requireAuth, requirePermission('view_messages'), async (req, res) => {
+  try {
+    const eventId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'ID evento non valido' });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: { statusChanges: { orderBy: { id: 'asc' } } }
+    });
+    if (!event) {
+      return res.status(404).json({ error: 'Evento non trovato' });
     }
 
+    const [totals, challenges, messageCount, current] = await Promise.all([
+      prisma.scoreEntry.groupBy({ by: ['tableId'], where: { eventId }, _sum: { points: true } }),
+      prisma.challenge.findMany({ where: { eventId }, orderBy: { startedAt: 'asc' } }),
+      prisma.message.count({ where: { eventId, isBroadcast: false } }),
+      currentEventId()
+    ]);
+
     res.json({
-      status: session.status,
-      startedAt: session.startedAt?.toISOString(),
-      pausedAt: session.pausedAt?.toISOString()
+      event: formatEvent(event, current),
+      statusChanges: event.statusChanges.map(change => ({
+        status: change.status,
+        changedAt: change.changedAt.toISOString(),
+        changedBy: change.changedBy
+      })),
+      leaderboard: totals
+        .map(row => ({ tableId: row.tableId, points: row._sum.points ?? 0 }))
+        .sort((a, b) => b.points - a.points || a.tableId.localeCompare(b.tableId)),
+      challenges: challenges.map(formatChallenge),
+      messageCount
+    });
+  } catch (error) {
+    console.error('Error fetching event:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/events - Chiude la serata in corso e ne apre una nuova (PROTETTO - Solo admin)
+// I dati della serata precedente restano in archivio, consultabili in sola lettura
+app.post('/api/admin/events', requireAuth, requireAdmin, adminLimiter, async (req, res) => {
+  try {
+    const { name, date } = req.body;
+
+    const eventName = typeof name === 'string' && name.trim() ? sanitizeInput(name.trim()) : defaultEventName(new Date());
+    if (eventName.length > 80) {
+      return res.status(400).json({ error: 'Nome evento troppo lungo (max 80 caratteri)' });
+    }
+
+    const eventDate = date ? new Date(date) : new Date();
+    if (isNaN(eventDate.getTime())) {
+      return res.status(400).json({ error: 'Data evento non valida' });
+    }
+
+    // Le sfide ancora aperte si chiudono con la serata (classifica e badge restano nell'archivio)
+    const openChallenges = await prisma.challenge.findMany({ where: { active: true }, select: { id: true } });
+    for (const challenge of openChallenges) {
+      await finalizeChallenge(challenge.id, new Date(), false);
+    }
+
+    const previous = await getCurrentEvent();
+    if (previous.status !== 'ended') {
+      await setEventStatus(previous.id, 'ended', req.user!.firstName, { endedAt: new Date(), pausedAt: null });
+    }
+
+    const event = await createEvent(eventName, eventDate);
+
+    // La scaletta delle sfide riparte da capo con la nuova serata
+    await prisma.playlistItem.updateMany({
+      data: { status: 'pending', delayMinutes: 0, challengeId: null, launchedAt: null }
     });
+
+    // Nessun tavolo resta silenziato o con giocatori espulsi nella nuova serata
+    await prisma.table.updateMany({ data: { mutedUntil: null, shadowMutedUntil: null } });
+    await prisma.playerBan.deleteMany();
+
+    await publishGameStatus();
+    publish('badges', { badges: await getTableBadges() });
+    res.json({ success: true, event: formatEvent(event, event.id) });
+  } catch (error) {
+    console.error('Error creating event:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// GAME CONTROL
+// ============================================
+
+// Get game status
+app.get('/api/game-status', async (req, res) => {
+  try {
+    res.json(await getGameStatus());
   } catch (error) {
     console.error('Error fetching game status:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -815,18 +1319,15 @@ app.get('/api/game-status', async (req, res) => {
 // Start game (PROTETTO - requirePermission manage_game_state)
 app.post('/api/admin/start-game', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
   try {
-    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
+    const event = await getCurrentEvent();
 
-    if (session?.status === 'active') {
+    if (event.status === 'active') {
       return res.status(400).json({ error: 'Game is already active' });
     }
 
-    await prisma.gameSession.upsert({
-      where: { id: 1 },
-      create: { id: 1, status: 'active', startedAt: new Date() },
-      update: { status: 'active', startedAt: new Date(), pausedAt: null }
-    });
+    await setEventStatus(event.id, 'active', req.user!.firstName, { startedAt: new Date(), pausedAt: null, pausedSeconds: 0 });
 
+    await publishGameStatus();
     res.json({ success: true, message: 'Game started successfully' });
   } catch (error) {
     console.error('Error starting game:', error);
@@ -837,17 +1338,15 @@ app.post('/api/admin/start-game', requireAuth, requirePermission('manage_game_st
 // Pause game (PROTETTO - requirePermission manage_game_state)
 app.post('/api/admin/pause-game', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
   try {
-    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
+    const event = await getCurrentEvent();
 
-    if (session?.status !== 'active') {
+    if (event.status !== 'active') {
       return res.status(400).json({ error: 'Game is not active' });
     }
 
-    await prisma.gameSession.update({
-      where: { id: 1 },
-      data: { status: 'paused', pausedAt: new Date() }
-    });
+    await setEventStatus(event.id, 'paused', req.user!.firstName, { pausedAt: new Date() });
 
+    await publishGameStatus();
     res.json({ success: true, message: 'Game paused successfully' });
   } catch (error) {
     console.error('Error pausing game:', error);
@@ -858,17 +1357,17 @@ app.post('/api/admin/pause-game', requireAuth, requirePermission('manage_game_st
 // Resume game (PROTETTO - requirePermission manage_game_state)
 app.post('/api/admin/resume-game', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
   try {
-    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
+    const event = await getCurrentEvent();
 
-    if (session?.status !== 'paused') {
+    if (event.status !== 'paused') {
       return res.status(400).json({ error: 'Game is not paused' });
     }
 
-    await prisma.gameSession.update({
-      where: { id: 1 },
-      data: { status: 'active', pausedAt: null }
-    });
+    // La durata della pausa non conta per la scaletta delle sfide
+    const pausedFor = event.pausedAt ? Math.floor((Date.now() - event.pausedAt.getTime()) / 1000) : 0;
+    await setEventStatus(event.id, 'active', req.user!.firstName, { pausedAt: null, pausedSeconds: { increment: pausedFor } });
 
+    await publishGameStatus();
     res.json({ success: true, message: 'Game resumed successfully' });
   } catch (error) {
     console.error('Error resuming game:', error);
@@ -879,12 +1378,10 @@ app.post('/api/admin/resume-game', requireAuth, requirePermission('manage_game_s
 // End game (PROTETTO - requirePermission manage_game_state)
 app.post('/api/admin/end-game', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
   try {
-    await prisma.gameSession.upsert({
-      where: { id: 1 },
-      create: { id: 1, status: 'ended', endedAt: new Date() },
-      update: { status: 'ended', endedAt: new Date() }
-    });
+    const event = await getCurrentEvent();
+    await setEventStatus(event.id, 'ended', req.user!.firstName, { endedAt: new Date() });
 
+    await publishGameStatus();
     res.json({ success: true, message: 'Game ended successfully' });
   } catch (error) {
     console.error('Error ending game:', error);
@@ -892,25 +1389,58 @@ app.post('/api/admin/end-game', requireAuth, requirePermission('manage_game_stat
   }
 });
 
-// Reset game (PROTETTO - Solo admin - OPERAZIONE DISTRUTTIVA)
-app.post('/api/admin/reset-game', requireAuth, requireAdmin, adminLimiter, async (req, res) => {
+// Slow mode e quota predefinita (PROTETTO - requirePermission manage_game_state)
+// Effetto immediato: i limiter leggono le impostazioni ad ogni richiesta
+app.post('/api/admin/rate-limits', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
   try {
-    // Reset game status
-    await prisma.gameSession.upsert({
+    const { slowModeSeconds, messageQuota } = req.body;
+    const data: { slowModeSeconds?: number; messageQuota?: number } = {};
+
+    if (slowModeSeconds !== undefined) {
+      const seconds = parseInt(slowModeSeconds);
+      if (isNaN(seconds) || seconds < 0 || seconds > 600) {
+        return res.status(400).json({ error: 'Intervallo slow mode non valido (0-600 secondi)' });
+      }
+      data.slowModeSeconds = seconds;
+    }
+
+    if (messageQuota !== undefined) {
+      const quota = parseInt(messageQuota);
+      if (isNaN(quota) || quota < 1 || quota > 200) {
+        return res.status(400).json({ error: 'Quota messaggi non valida (1-200 al minuto)' });
+      }
+      data.messageQuota = quota;
+    }
+
+    const session = await prisma.gameSession.upsert({
       where: { id: 1 },
-      create: { id: 1, status: 'not_started' },
-      update: { status: 'not_started', startedAt: null, pausedAt: null, endedAt: null }
+      create: { id: 1, ...data },
+      update: data
     });
 
-    // Cancella tutti i messaggi
-    await prisma.message.deleteMany();
+    await publishGameStatus();
+    res.json({
+      success: true,
+      slowModeSeconds: session.slowModeSeconds,
+      messageQuota: session.messageQuota
+    });
+  } catch (error) {
+    console.error('Error updating rate limits:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Rimuovi tutti gli utenti dai tavoli
-    await prisma.user.deleteMany();
+// Get rate limit settings (PROTETTO - richiede autenticazione admin o staff)
+app.get('/api/admin/rate-limits', requireAuth, requireAdminOrStaff, async (req, res) => {
+  try {
+    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
 
-    res.json({ success: true, message: 'Game reset successfully' });
+    res.json({
+      slowModeSeconds: session?.slowModeSeconds || 0,
+      messageQuota: session?.messageQuota ?? 20
+    });
   } catch (error) {
-    console.error('Error resetting game:', error);
+    console.error('Error fetching rate limits:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -952,6 +1482,41 @@ app.post('/api/admin/create-table-code', requireAuth, requirePermission('manage_
   }
 });
 
+// Set table message quota (PROTETTO - requirePermission manage_tables)
+app.post('/api/admin/table-quota', requireAuth, requirePermission('manage_tables'), adminLimiter, async (req, res) => {
+  try {
+    const { tableNumber, messageQuota } = req.body;
+
+    if (!tableNumber) {
+      return res.status(400).json({ error: 'Tavolo obbligatorio' });
+    }
+
+    // null o vuoto = torna alla quota predefinita
+    let quota: number | null = null;
+    if (messageQuota !== null && messageQuota !== undefined && messageQuota !== '') {
+      quota = parseInt(messageQuota);
+      if (isNaN(quota) || quota < 1 || quota > 200) {
+        return res.status(400).json({ error: 'Quota messaggi non valida (1-200 al minuto)' });
+      }
+    }
+
+    const table = await prisma.table.findUnique({ where: { id: String(tableNumber) } });
+    if (!table) {
+      return res.status(404).json({ error: 'Tavolo non trovato' });
+    }
+
+    await prisma.table.update({
+      where: { id: table.id },
+      data: { messageQuota: quota }
+    });
+
+    res.json({ success: true, tableNumber: table.id, messageQuota: quota });
+  } catch (error) {
+    console.error('Error updating table quota:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete table (PROTETTO - requirePermission manage_tables)
 app.delete('/api/admin/delete-table/:tableNumber', requireAuth, requirePermission('manage_tables'), adminLimiter, async (req, res) => {
   try {
@@ -969,13 +1534,28 @@ app.delete('/api/admin/delete-table/:tableNumber', requireAuth, requirePermissio
 });
 
 // Get all messages (PROTETTO - requirePermission view_messages)
+// Paginazione: ?since=<id> per i nuovi, ?before=<id> per i più vecchi, ?limit= (default 50)
 app.get('/api/admin/all-messages', requireAuth, requirePermission('view_messages'), async (req, res) => {
   try {
-    const messages = await prisma.message.findMany({
-      orderBy: { timestamp: 'desc' }
-    });
+    // ?eventId= per consultare i messaggi di una serata passata (default: quella in corso)
+    const eventId = await requestedEventId(req);
+    if (eventId === null) {
+      return res.status(400).json({ error: 'ID evento non valido' });
+    }
+
+    // ?status=approved&hidden=false per mostrare solo i messaggi consegnati e visibili (es. TV)
+    const where: Prisma.MessageWhereInput = typeof req.query.status === 'string' ? { status: req.query.status, eventId } : { eventId };
+    if (req.query.hidden === 'false') {
+      where.NOT = HIDDEN;
+    }
+
+    const [{ messages, hasMore }, totalMessages] = await Promise.all([
+      findMessagePage(where, parseMessagePage(req.query)),
+      prisma.message.count({ where: { ...where, isBroadcast: false } })
+    ]);
 
-    const formattedMessages = messages.map(m => ({
+    // Per l'admin i più recenti prima
+    const formattedMessages = messages.reverse().map(m => ({
       id: m.id,
       content: m.content,
       fromTable: m.fromTableId,
@@ -985,15 +1565,23 @@ app.get('/api/admin/all-messages', requireAuth, requirePermission('view_messages
       timestamp: m.timestamp.toISOString(),
       isAnonymous: m.isAnonymous,
       isBroadcast: m.isBroadcast,
-      reactions: {
-        heart: m.reactionsHeart,
-        thumbsup: m.reactionsThumbsup,
-        fire: m.reactionsFire,
-        laugh: m.reactionsLaugh
-      }
+      status: m.status,
+      moderatedBy: m.moderatedBy,
+      flagged: m.flagged,
+      flaggedTerms: m.flaggedTerms ? JSON.parse(m.flaggedTerms) : [],
+      hidden: isHidden(m),
+      hiddenAt: m.hiddenAt?.toISOString() ?? null,
+      hiddenBy: m.hiddenBy,
+      hiddenReason: m.hiddenReason,
+      restoredAt: m.restoredAt?.toISOString() ?? null,
+      restoredBy: m.restoredBy,
+      replyToId: m.replyToId,
+      threadId: m.threadId,
+      recipientName: m.recipientName,
+      reactions: summarizeReactions(m.reactions).reactions
     }));
 
-    res.json({ messages: formattedMessages });
+    res.json({ messages: formattedMessages, hasMore, totalMessages });
   } catch (error) {
     console.error('Error fetching all messages:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -1003,18 +1591,25 @@ app.get('/api/admin/all-messages', requireAuth, requirePermission('view_messages
 // Get active tables (PROTETTO - requirePermission view_users)
 app.get('/api/admin/active-tables', requireAuth, requirePermission('view_users'), async (req, res) => {
   try {
+    const eventId = await currentEventId();
     const tables = await prisma.table.findMany({
       include: {
         users: {
-          select: { firstName: true, lastName: true, joinedAt: true, lastActive: true }
+          where: { eventId },
+          select: { id: true, firstName: true, lastName: true, joinedAt: true, lastActive: true }
         }
       }
     });
 
+    const now = new Date();
     const activeTables = tables.map(t => ({
       tableNumber: t.id,
       code: t.code,
+      messageQuota: t.messageQuota,
+      mutedUntil: t.mutedUntil && t.mutedUntil > now ? t.mutedUntil.toISOString() : null,
+      shadowMutedUntil: t.shadowMutedUntil && t.shadowMutedUntil > now ? t.shadowMutedUntil.toISOString() : null,
       users: t.users.map(u => ({
+        id: u.id,
         firstName: u.firstName,
         lastName: u.lastName,
         joinedAt: u.joinedAt.toISOString(),
@@ -1034,41 +1629,45 @@ app.get('/api/admin/active-tables', requireAuth, requirePermission('view_users')
 // USER MANAGEMENT
 // ============================================
 
-// Add user to table
-app.post('/api/add-user-to-table', async (req, res) => {
-  try {
-    const { tableNumber, firstName, lastName } = req.body;
+// Registra l'utente sul tavolo (o ne aggiorna l'attività se già presente)
+async function touchTableUser(tableId: string, firstName: string, lastName: string) {
+  const eventId = await currentEventId();
 
-    if (!tableNumber || !firstName || !lastName) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
+  // Pulizia automatica utenti inattivi (>10 minuti) della serata in corso: quelli delle serate passate restano in archivio
+  const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+  await prisma.user.deleteMany({
+    where: { eventId, lastActive: { lt: tenMinutesAgo } }
+  });
 
-    // Pulizia automatica utenti inattivi (>10 minuti)
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-    await prisma.user.deleteMany({
-      where: { lastActive: { lt: tenMinutesAgo } }
-    });
+  // Cerca utente esistente
+  const existingUser = await prisma.user.findFirst({
+    where: { tableId, firstName, lastName, eventId }
+  });
 
-    // Cerca utente esistente
-    const existingUser = await prisma.user.findFirst({
-      where: { tableId: tableNumber, firstName, lastName }
+  if (existingUser) {
+    // Aggiorna timestamp
+    console.log(`User ${firstName} ${lastName} updated activity on table ${tableId}`);
+    return prisma.user.update({
+      where: { id: existingUser.id },
+      data: { lastActive: new Date() }
     });
+  }
 
-    if (existingUser) {
-      // Aggiorna timestamp
-      await prisma.user.update({
-        where: { id: existingUser.id },
-        data: { lastActive: new Date() }
-      });
-      console.log(`User ${firstName} ${lastName} updated activity on table ${tableNumber}`);
-    } else {
-      // Crea nuovo utente
-      await prisma.user.create({
-        data: { firstName, lastName, tableId: tableNumber }
-      });
-      console.log(`User ${firstName} ${lastName} added to table ${tableNumber}`);
-    }
+  // Crea nuovo utente
+  console.log(`User ${firstName} ${lastName} added to table ${tableId}`);
+  return prisma.user.create({
+    data: { firstName, lastName, tableId, eventId }
+  });
+}
+
+// Add user to table (PROTETTO - tavolo e nome derivati dal token giocatore)
+app.post('/api/add-user-to-table', requireAuth, requirePlayer, async (req, res) => {
+  try {
+    const { tableId, firstName, lastName } = req.user!;
+
+    await touchTableUser(tableId!, firstName, lastName);
 
+    await publishTableUsers(tableId!);
     res.json({ success: true });
   } catch (error) {
     console.error('Error adding user to table:', error);
@@ -1076,17 +1675,13 @@ app.post('/api/add-user-to-table', async (req, res) => {
   }
 });
 
-// User heartbeat
-app.post('/api/user-heartbeat', async (req, res) => {
+// User heartbeat (PROTETTO - token giocatore)
+app.post('/api/user-heartbeat', requireAuth, requirePlayer, async (req, res) => {
   try {
-    const { tableNumber, firstName, lastName } = req.body;
-
-    if (!tableNumber || !firstName || !lastName) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
+    const { tableId, firstName, lastName } = req.user!;
 
     const user = await prisma.user.findFirst({
-      where: { tableId: tableNumber, firstName, lastName }
+      where: { tableId, firstName, lastName, eventId: await currentEventId() }
     });
 
     if (user) {
@@ -1094,9 +1689,9 @@ app.post('/api/user-heartbeat', async (req, res) => {
         where: { id: user.id },
         data: { lastActive: new Date() }
       });
-      console.log(`Heartbeat received from ${firstName} ${lastName} on table ${tableNumber}`);
+      console.log(`Heartbeat received from ${firstName} ${lastName} on table ${tableId}`);
     } else {
-      console.log(`Heartbeat from unknown user: ${firstName} ${lastName} on table ${tableNumber}`);
+      console.log(`Heartbeat from unknown user: ${firstName} ${lastName} on table ${tableId}`);
     }
 
     res.json({ success: true });
@@ -1106,20 +1701,17 @@ app.post('/api/user-heartbeat', async (req, res) => {
   }
 });
 
-// Remove user from table
-app.post('/api/remove-user-from-table', async (req, res) => {
+// Remove user from table (PROTETTO - un giocatore può rimuovere solo se stesso)
+app.post('/api/remove-user-from-table', requireAuth, requirePlayer, async (req, res) => {
   try {
-    const { tableNumber, firstName, lastName } = req.body;
-
-    if (!tableNumber || !firstName || !lastName) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
+    const { tableId, firstName, lastName } = req.user!;
 
     await prisma.user.deleteMany({
-      where: { tableId: tableNumber, firstName, lastName }
+      where: { tableId, firstName, lastName, eventId: await currentEventId() }
     });
 
-    console.log(`User ${firstName} ${lastName} removed from table ${tableNumber}`);
+    console.log(`User ${firstName} ${lastName} removed from table ${tableId}`);
+    await publishTableUsers(tableId!);
     res.json({ success: true });
   } catch (error) {
     console.error('Error removing user from table:', error);
@@ -1137,7 +1729,7 @@ app.get('/api/table-users/:tableNumber', async (req, res) => {
     }
 
     const users = await prisma.user.findMany({
-      where: { tableId },
+      where: { tableId, eventId: await currentEventId() },
       select: { firstName: true, lastName: true, joinedAt: true, lastActive: true }
     });
 
@@ -1161,13 +1753,14 @@ app.get('/api/table-users/:tableNumber', async (req, res) => {
 // MESSAGES
 // ============================================
 
-// Send message (con rate limiting anti-spam)
-app.post('/api/send-message', messageLimiter, async (req, res) => {
+// Send message (PROTETTO - mittente derivato dal token giocatore, con rate limiting anti-spam)
+app.post('/api/send-message', requireAuth, requirePlayer, slowModeGuard, messageLimiter, async (req, res) => {
   try {
-    const { content, fromTable, toTable, senderName, isAnonymous } = req.body;
+    const { content, isAnonymous, replyToId, challengeId, showOnWall } = req.body;
+    const senderName = req.user!.firstName;
 
-    // Validazione campi obbligatori
-    if (!content || !fromTable || !toTable) {
+    // Validazione campi obbligatori (una risposta non indica il tavolo: è quello del mittente originale)
+    if (!content || (!req.body.toTable && !replyToId)) {
       return res.status(400).json({ error: 'Campi obbligatori mancanti' });
     }
 
@@ -1184,8 +1777,42 @@ app.post('/api/send-message', messageLimiter, async (req, res) => {
       return res.status(400).json({ error: 'Messaggio troppo corto (min 2 caratteri)' });
     }
 
-    const fromTableId = String(fromTable);
-    const toTableId = String(toTable);
+    // Sulla bacheca del TV compare il tavolo del mittente: non si concilia con l'anonimato
+    if (showOnWall && isAnonymous) {
+      return res.status(400).json({ error: 'I messaggi anonimi non possono andare sul maxischermo' });
+    }
+
+    const fromTableId = req.user!.tableId!;
+
+    // Risposta: si può rispondere solo a un messaggio ricevuto dal proprio tavolo
+    let original: (QuotedMessage & { toTableId: string; senderName: string; threadId: string | null; status: string; isBroadcast: boolean }) | null = null;
+    if (replyToId !== undefined && replyToId !== null) {
+      if (typeof replyToId !== 'string') {
+        return res.status(400).json({ error: 'Messaggio a cui rispondere non valido' });
+      }
+
+      original = await prisma.message.findUnique({
+        where: { id: replyToId },
+        select: { id: true, content: true, fromTableId: true, hiddenAt: true, restoredAt: true, toTableId: true, senderName: true, threadId: true, status: true, isBroadcast: true }
+      });
+
+      if (!original || original.status !== 'approved' || isHidden(original) || original.toTableId !== fromTableId) {
+        return res.status(404).json({ error: 'Messaggio a cui rispondere non trovato' });
+      }
+
+      if (original.isBroadcast || !original.fromTableId) {
+        return res.status(400).json({ error: 'Non puoi rispondere ai messaggi dello staff' });
+      }
+    }
+
+    const toTableId = original ? original.fromTableId! : String(req.body.toTable);
+
+    // Tavolo silenziato dallo staff
+    const fromTable = await prisma.table.findUnique({ where: { id: fromTableId }, select: { mutedUntil: true, shadowMutedUntil: true } });
+    // L'orario di fine lo formatta il client, nel fuso del dispositivo
+    if (fromTable?.mutedUntil && fromTable.mutedUntil > new Date()) {
+      return res.status(403).json({ error: 'Il tuo tavolo è stato silenziato dallo staff', code: 'MUTED', mutedUntil: fromTable.mutedUntil.toISOString() });
+    }
 
     // Non puoi mandare a te stesso
     if (fromTableId === toTableId) {
@@ -1198,12 +1825,22 @@ app.post('/api/send-message', messageLimiter, async (req, res) => {
       return res.status(404).json({ error: 'Tavolo destinatario non esiste' });
     }
 
+    // Filtro parole vietate (mask / block / flag) sul testo originale, prima dell'escape HTML
+    const blockedTerms = await prisma.blockedTerm.findMany();
+    const filtered = applyContentFilter(content, blockedTerms);
+    if (filtered.blocked) {
+      return res.status(400).json({ error: 'Il messaggio contiene termini non consentiti', code: 'BLOCKED_TERM' });
+    }
+
     // ✅ Sanitizza contenuto con sanitizeMessageContent per protezione XSS completa
-    const sanitizedContent = sanitizeMessageContent(content);
+    const sanitizedContent = sanitizeMessageContent(filtered.content);
 
-    // Verifica stato gioco
-    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
-    const gameStatus = session?.status || 'not_started';
+    // Verifica stato gioco (evento in corso)
+    const [event, session] = await Promise.all([
+      getCurrentEvent(),
+      prisma.gameSession.findUnique({ where: { id: 1 }, select: { preModeration: true } })
+    ]);
+    const gameStatus = event.status;
 
     if (gameStatus !== 'active') {
       let errorMessage = 'Il gioco non è attivo';
@@ -1213,30 +1850,71 @@ app.post('/api/send-message', messageLimiter, async (req, res) => {
       return res.status(403).json({ error: errorMessage });
     }
 
-    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Iscrizione a una sfida a giudizio o a votazione: un messaggio per tavolo, finché la sfida è aperta
+    let submittedChallengeId: number | null = null;
+    if (challengeId !== undefined && challengeId !== null && challengeId !== '') {
+      const challenge = await findOpenJudgingChallenge(parseInt(challengeId));
+      if (!challenge) {
+        return res.status(400).json({ error: 'La sfida non accetta più partecipazioni' });
+      }
 
-    await prisma.message.create({
-      data: {
+      const existing = await prisma.message.findFirst({
+        where: { challengeId: challenge.id, fromTableId, status: { not: 'rejected' }, ...NOT_HIDDEN },
+        select: { id: true }
+      });
+      if (existing) {
+        return res.status(409).json({ error: 'Il tuo tavolo partecipa già a questa sfida' });
+      }
+      submittedChallengeId = challenge.id;
+    }
+
+    const messageId = generateMessageId();
+    // Silenziato in ombra: il messaggio viene salvato (visibile in admin) ma mai consegnato
+    const isShadowMuted = Boolean(fromTable?.shadowMutedUntil && fromTable.shadowMutedUntil > new Date());
+    // In pre-moderazione il messaggio resta in coda finché lo staff non lo approva
+    const status = isShadowMuted ? 'shadowed' : session?.preModeration ? 'pending' : 'approved';
+
+    const message = await prisma.message.create({
+      data: {
         id: messageId,
         content: sanitizedContent,
         fromTableId,
         toTableId,
         senderName: senderName || 'Anonimo',
+        senderLastName: req.user!.lastName,
         publicSenderName: isAnonymous ? null : senderName,
-        isAnonymous: Boolean(isAnonymous)
-      }
+        isAnonymous: Boolean(isAnonymous),
+        status,
+        flagged: filtered.flagged,
+        flaggedTerms: filtered.flagged ? JSON.stringify(filtered.flaggedTerms) : null,
+        replyToId: original?.id ?? null,
+        threadId: original ? original.threadId ?? original.id : null,
+        recipientName: original?.senderName ?? null,
+        challengeId: submittedChallengeId,
+        eventId: event.id,
+        wallStatus: showOnWall ? 'pending' : null
+      },
+      include: { replyTo: replyToSelect }
     });
 
-    console.log(`Message sent: ${fromTableId} → ${toTableId} (${isAnonymous ? 'anonymous' : senderName})`);
-    res.json({ success: true, messageId });
+    if (status === 'approved') {
+      publish('message', formatMessage(message), toTableId);
+      await recordScore(fromTableId, 'message_sent', { messageId: message.id });
+      if (submittedChallengeId) publish('challenge-votes', { challengeId: String(submittedChallengeId) });
+    }
+
+    console.log(`Message ${status}${filtered.flagged ? ' (flagged)' : ''}: ${fromTableId} → ${toTableId} (${isAnonymous ? 'anonymous' : senderName})`);
+    // Il mittente silenziato in ombra non deve accorgersene
+    res.json({ success: true, messageId, status: isShadowMuted ? 'approved' : status });
   } catch (error) {
     console.error('Error sending message:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get messages for a table
-app.get('/api/messages/:tableNumber', async (req, res) => {
+// Get messages for a table (PROTETTO - solo i messaggi del proprio tavolo)
+// Paginazione: ?since=<id> per i nuovi, ?before=<id> per i più vecchi, ?limit= (default 50)
+app.get('/api/messages/:tableNumber', requireAuth, requirePlayer, async (req, res) => {
   try {
     const tableId = req.params.tableNumber;
 
@@ -1244,469 +1922,2449 @@ app.get('/api/messages/:tableNumber', async (req, res) => {
       return res.status(400).json({ error: 'Invalid table ID' });
     }
 
-    const messages = await prisma.message.findMany({
-      where: { toTableId: tableId },
-      orderBy: { timestamp: 'asc' }
+    if (tableId !== req.user!.tableId) {
+      return res.status(403).json({ error: 'Puoi leggere solo i messaggi del tuo tavolo' });
+    }
+
+    const { messages, hasMore } = await findMessagePage(
+      { toTableId: tableId, status: 'approved', ...NOT_HIDDEN, eventId: await currentEventId() },
+      parseMessagePage(req.query)
+    );
+
+    const formattedMessages = messages.map(m => formatMessage(m, req.user!));
+
+    res.json({ messages: formattedMessages, hasMore });
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// MODERAZIONE MESSAGGI
+// ============================================
+
+// Ogni quanto si controlla la coda per l'auto-approvazione
+const AUTO_APPROVE_CHECK_INTERVAL = 10 * 1000;
+
+// Formatta un messaggio in coda (per staff e per il mittente)
+function formatPendingMessage(m: {
+  id: string;
+  content: string;
+  fromTableId: string | null;
+  toTableId: string;
+  senderName: string;
+  timestamp: Date;
+  isAnonymous: boolean;
+  status: string;
+}) {
+  return {
+    id: m.id,
+    content: m.content,
+    fromTable: m.fromTableId,
+    toTable: m.toTableId,
+    senderName: m.senderName,
+    timestamp: m.timestamp.toISOString(),
+    isAnonymous: m.isAnonymous,
+    status: m.status
+  };
+}
+
+// Approva un messaggio in coda e lo consegna al destinatario
+// Riceve un nuovo ID: così i client che sincronizzano con ?since= lo vedono come nuovo
+async function approveMessage(messageId: string, moderatedBy: string) {
+  try {
+    const message = await prisma.message.update({
+      where: { id: messageId, status: 'pending' },
+      data: { id: generateMessageId(), status: 'approved', moderatedAt: new Date(), moderatedBy },
+      include: { replyTo: replyToSelect }
     });
 
-    const formattedMessages = messages.map(m => ({
-      id: m.id,
-      content: m.content,
-      fromTable: m.fromTableId,
-      toTable: m.toTableId,
-      senderName: m.senderName,
-      publicSenderName: m.publicSenderName,
-      timestamp: m.timestamp.toISOString(),
-      isAnonymous: m.isAnonymous,
-      isBroadcast: m.isBroadcast,
-      reactions: {
-        heart: m.reactionsHeart,
-        thumbsup: m.reactionsThumbsup,
-        fire: m.reactionsFire,
-        laugh: m.reactionsLaugh
+    publish('message', formatMessage(message), message.toTableId);
+    if (message.fromTableId) {
+      publish('message-moderated', { id: messageId, status: 'approved', toTable: message.toTableId }, message.fromTableId);
+    }
+    await recordScore(message.fromTableId, 'message_sent', { messageId: message.id });
+    if (message.challengeId) publish('challenge-votes', { challengeId: String(message.challengeId) });
+    return message;
+  } catch (error) {
+    // Già approvato/rifiutato da un altro moderatore
+    if (isPrismaError(error, 'P2025')) return null;
+    throw error;
+  }
+}
+
+// Rifiuta un messaggio in coda: non verrà mai consegnato
+async function rejectMessage(messageId: string, moderatedBy: string) {
+  const result = await prisma.message.updateMany({
+    where: { id: messageId, status: 'pending' },
+    data: { status: 'rejected', moderatedAt: new Date(), moderatedBy }
+  });
+
+  if (result.count === 0) return null;
+
+  const message = await prisma.message.findUnique({ where: { id: messageId } });
+  if (message?.fromTableId) {
+    publish('message-moderated', { id: messageId, status: 'rejected', toTable: message.toTableId }, message.fromTableId);
+    await recordScore(message.fromTableId, 'message_rejected', { messageId });
+  }
+  return message;
+}
+
+// Approva automaticamente i messaggi rimasti in coda oltre il timeout configurato
+async function autoApprovePendingMessages() {
+  try {
+    const session = await prisma.gameSession.findUnique({ where: { id: 1 } });
+    if (!session || session.autoApproveSeconds <= 0) return;
+
+    const cutoff = new Date(Date.now() - session.autoApproveSeconds * 1000);
+    const expired = await prisma.message.findMany({
+      where: { status: 'pending', timestamp: { lte: cutoff }, eventId: await currentEventId() },
+      orderBy: { id: 'asc' },
+      select: { id: true }
+    });
+
+    for (const message of expired) {
+      await approveMessage(message.id, 'auto');
+    }
+
+    if (expired.length > 0) {
+      console.log(`✓ Auto-approvati ${expired.length} messaggi in coda`);
+    }
+  } catch (error) {
+    console.error('Error auto-approving messages:', error);
+  }
+}
+
+// Messaggi in attesa di approvazione inviati dal giocatore (PROTETTO - token giocatore)
+app.get('/api/pending-messages', requireAuth, requirePlayer, async (req, res) => {
+  try {
+    const messages = await prisma.message.findMany({
+      where: {
+        fromTableId: req.user!.tableId,
+        senderName: req.user!.firstName,
+        senderLastName: req.user!.lastName,
+        status: 'pending',
+        eventId: await currentEventId()
       },
-      reactedTables: JSON.parse(m.reactedTables)
-    }));
+      orderBy: { id: 'asc' }
+    });
+
+    res.json({ messages: messages.map(formatPendingMessage) });
+  } catch (error) {
+    console.error('Error fetching pending messages:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Coda di moderazione (PROTETTO - requirePermission moderate_messages)
+app.get('/api/admin/moderation-queue', requireAuth, requirePermission('moderate_messages'), async (req, res) => {
+  try {
+    const [messages, session] = await Promise.all([
+      prisma.message.findMany({
+        where: { status: 'pending', eventId: await currentEventId() },
+        orderBy: { id: 'asc' }
+      }),
+      prisma.gameSession.findUnique({ where: { id: 1 } })
+    ]);
+
+    res.json({
+      messages: messages.map(formatPendingMessage),
+      preModeration: session?.preModeration || false,
+      autoApproveSeconds: session?.autoApproveSeconds ?? 120
+    });
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Impostazioni pre-moderazione (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/moderation-settings', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const { preModeration, autoApproveSeconds } = req.body;
+    const data: { preModeration?: boolean; autoApproveSeconds?: number } = {};
+
+    if (preModeration !== undefined) {
+      data.preModeration = Boolean(preModeration);
+    }
+
+    if (autoApproveSeconds !== undefined) {
+      const seconds = parseInt(autoApproveSeconds);
+      if (isNaN(seconds) || seconds < 0 || seconds > 3600) {
+        return res.status(400).json({ error: 'Timeout auto-approvazione non valido (0-3600 secondi)' });
+      }
+      data.autoApproveSeconds = seconds;
+    }
+
+    const session = await prisma.gameSession.upsert({
+      where: { id: 1 },
+      create: { id: 1, ...data },
+      update: data
+    });
+
+    // Pre-moderazione disattivata: i messaggi rimasti in coda vengono consegnati subito
+    let approvedCount = 0;
+    if (!session.preModeration) {
+      const pending = await prisma.message.findMany({
+        where: { status: 'pending', eventId: await currentEventId() },
+        orderBy: { id: 'asc' },
+        select: { id: true }
+      });
+
+      for (const message of pending) {
+        if (await approveMessage(message.id, req.user!.firstName)) approvedCount++;
+      }
+    }
+
+    console.log(`Pre-moderazione ${session.preModeration ? 'attiva' : 'disattivata'} (auto-approvazione: ${session.autoApproveSeconds}s)${approvedCount > 0 ? `, approvati ${approvedCount} messaggi in coda` : ''}`);
+    res.json({
+      success: true,
+      preModeration: session.preModeration,
+      autoApproveSeconds: session.autoApproveSeconds,
+      approvedCount
+    });
+  } catch (error) {
+    console.error('Error updating moderation settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approva un messaggio (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/messages/:id/approve', requireAuth, requirePermission('moderate_messages'), async (req, res) => {
+  try {
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const message = await approveMessage(messageId, req.user!.firstName);
+    if (!message) {
+      return res.status(404).json({ error: 'Messaggio non in coda (già moderato?)' });
+    }
+
+    res.json({ success: true, messageId: message.id });
+  } catch (error) {
+    console.error('Error approving message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rifiuta un messaggio (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/messages/:id/reject', requireAuth, requirePermission('moderate_messages'), async (req, res) => {
+  try {
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const message = await rejectMessage(messageId, req.user!.firstName);
+    if (!message) {
+      return res.status(404).json({ error: 'Messaggio non in coda (già moderato?)' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error rejecting message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Nasconde un messaggio ai giocatori (resta visibile in admin)
+async function hideMessage(messageId: string, hiddenBy: string, reason: string) {
+  const result = await prisma.message.updateMany({
+    where: { id: messageId, ...NOT_HIDDEN },
+    data: { hiddenAt: new Date(), hiddenBy, hiddenReason: reason, restoredAt: null, restoredBy: null }
+  });
+
+  const message = await prisma.message.findUnique({ where: { id: messageId } });
+  if (message && result.count > 0) {
+    publish('message-hidden', { id: messageId }, message.toTableId);
+    // Penalità solo per i messaggi consegnati: in attesa e shadow non hanno mai fatto punti
+    if (message.status === 'approved') await recordScore(message.fromTableId, 'message_hidden', { messageId });
+    if (message.wallStatus === 'approved') await publishTvWall();
+  }
+  return message;
+}
+
+// Ripristina un messaggio nascosto e lo riconsegna al tavolo destinatario
+// Chi l'aveva nascosto, quando e perché resta nello storico (hidden*)
+async function restoreMessage(messageId: string, restoredBy: string) {
+  const result = await prisma.message.updateMany({
+    where: { id: messageId, ...HIDDEN },
+    data: { restoredAt: new Date(), restoredBy }
+  });
+
+  if (result.count === 0) return null;
+  await revertScore(messageId, 'message_hidden', 'penalty_reverted');
+
+  const message = await prisma.message.findUnique({ where: { id: messageId }, include: { reactions: reactionSelect, replyTo: replyToSelect } });
+  if (message && message.status === 'approved') {
+    publish('message', formatMessage(message), message.toTableId);
+    if (message.wallStatus === 'approved') await publishTvWall();
+  }
+  return message;
+}
+
+// Nasconde un messaggio con motivo (PROTETTO - requirePermission moderate_messages)
+// Soft delete: resta in admin con autore e orario, e si può ripristinare
+app.delete('/api/admin/messages/:id', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const reason = typeof req.body?.reason === 'string' ? sanitizeInput(req.body.reason.trim()).substring(0, 200) : '';
+
+    if (!reason) {
+      return res.status(400).json({ error: 'Indica il motivo della rimozione' });
+    }
+
+    const existing = await prisma.message.findUnique({ where: { id: messageId }, select: { hiddenAt: true, restoredAt: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Messaggio non trovato' });
+    }
+
+    if (isHidden(existing)) {
+      return res.status(409).json({ error: 'Messaggio già nascosto' });
+    }
+
+    const message = await hideMessage(messageId, req.user!.firstName, reason);
+
+    console.log(`Messaggio ${messageId} nascosto da ${req.user!.firstName}: ${reason}`);
+    res.json({ success: true, hiddenAt: message?.hiddenAt?.toISOString() });
+  } catch (error) {
+    console.error('Error hiding message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Ripristina un messaggio nascosto (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/messages/:id/restore', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const message = await restoreMessage(messageId, req.user!.firstName);
+    if (!message) {
+      return res.status(404).json({ error: 'Messaggio non trovato o non nascosto' });
+    }
+
+    console.log(`Messaggio ${messageId} ripristinato da ${req.user!.firstName}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error restoring message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// FILTRO PAROLE VIETATE
+// ============================================
+
+// Lista termini vietati (PROTETTO - requirePermission moderate_messages)
+app.get('/api/admin/blocked-terms', requireAuth, requirePermission('moderate_messages'), async (req, res) => {
+  try {
+    const terms = await prisma.blockedTerm.findMany({ orderBy: { term: 'asc' } });
+
+    res.json({
+      terms: terms.map(t => ({ id: t.id, term: t.term, action: t.action, createdAt: t.createdAt.toISOString() }))
+    });
+  } catch (error) {
+    console.error('Error fetching blocked terms:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Aggiunge un termine o ne cambia l'azione (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/blocked-terms', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const validation = validateBlockedTerm(req.body.term, req.body.action ?? 'mask');
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const term = await prisma.blockedTerm.upsert({
+      where: { term: validation.term! },
+      create: { term: validation.term!, action: validation.action! },
+      update: { action: validation.action! }
+    });
+
+    console.log(`Termine vietato "${term.term}" (${term.action})`);
+    res.json({ success: true, term: { id: term.id, term: term.term, action: term.action, createdAt: term.createdAt.toISOString() } });
+  } catch (error) {
+    console.error('Error saving blocked term:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rimuove un termine (PROTETTO - requirePermission moderate_messages)
+app.delete('/api/admin/blocked-terms/:id', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const id = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'ID termine non valido' });
+    }
+
+    const result = await prisma.blockedTerm.deleteMany({ where: { id } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Termine non trovato' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting blocked term:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// SANZIONI (SILENZIAMENTO ED ESPULSIONE)
+// ============================================
+
+// Limite massimo di una sanzione
+const MAX_SANCTION_MINUTES = 240;
+
+// Silenzia un tavolo per alcuni minuti (shadow = i messaggi sembrano inviati ma non arrivano)
+// minutes = 0 revoca il silenziamento
+async function muteTable(tableId: string, minutes: number, shadow = false) {
+  const until = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+  await prisma.table.update({
+    where: { id: tableId },
+    data: shadow ? { shadowMutedUntil: until } : { mutedUntil: until }
+  });
+  return until;
+}
+
+// Silenzia un tavolo (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/tables/:id/mute', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const tableId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const minutes = parseInt(req.body.minutes);
+    const shadow = Boolean(req.body.shadow);
+
+    if (isNaN(minutes) || minutes < 0 || minutes > MAX_SANCTION_MINUTES) {
+      return res.status(400).json({ error: `Durata non valida (0-${MAX_SANCTION_MINUTES} minuti)` });
+    }
+
+    const table = await prisma.table.findUnique({ where: { id: tableId } });
+    if (!table) {
+      return res.status(404).json({ error: 'Tavolo non trovato' });
+    }
+
+    const until = await muteTable(tableId, minutes, shadow);
+
+    console.log(`Tavolo ${tableId} ${until ? `silenziato${shadow ? ' in ombra' : ''} per ${minutes} minuti` : `non più silenziato${shadow ? ' in ombra' : ''}`} (${req.user!.firstName})`);
+    res.json({ success: true, until: until?.toISOString() ?? null });
+  } catch (error) {
+    console.error('Error muting table:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Espelle un giocatore e gli impedisce di rientrare per N minuti (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/users/:id/kick', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const userId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    const minutes = parseInt(req.body.minutes);
+    const reason = typeof req.body.reason === 'string' ? sanitizeInput(req.body.reason.trim()).substring(0, 200) : '';
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'ID utente non valido' });
+    }
+
+    if (isNaN(minutes) || minutes < 1 || minutes > MAX_SANCTION_MINUTES) {
+      return res.status(400).json({ error: `Durata non valida (1-${MAX_SANCTION_MINUTES} minuti)` });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return res.status(404).json({ error: 'Utente non trovato' });
+    }
+
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    await prisma.playerBan.create({
+      data: {
+        tableId: user.tableId,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        until,
+        reason: reason || null,
+        bannedBy: req.user!.firstName
+      }
+    });
+    await prisma.user.delete({ where: { id: user.id } });
+
+    // Il client del giocatore espulso esce appena riceve l'evento
+    publish('player-kicked', { firstName: user.firstName, lastName: user.lastName, until: until.toISOString() }, user.tableId);
+    closePlayerStreams(user.tableId, user.firstName, user.lastName);
+    await publishTableUsers(user.tableId);
+
+    console.log(`User ${user.firstName} ${user.lastName} espulso dal tavolo ${user.tableId} per ${minutes} minuti (${req.user!.firstName})`);
+    res.json({ success: true, until: until.toISOString() });
+  } catch (error) {
+    console.error('Error kicking user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Espulsioni attive (PROTETTO - requirePermission view_users)
+app.get('/api/admin/player-bans', requireAuth, requirePermission('view_users'), async (req, res) => {
+  try {
+    const bans = await prisma.playerBan.findMany({
+      where: { until: { gt: new Date() } },
+      orderBy: { until: 'asc' }
+    });
+
+    res.json({
+      bans: bans.map(b => ({
+        id: b.id,
+        tableId: b.tableId,
+        firstName: b.firstName,
+        lastName: b.lastName,
+        until: b.until.toISOString(),
+        reason: b.reason,
+        bannedBy: b.bannedBy
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching player bans:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoca un'espulsione (PROTETTO - requirePermission moderate_messages)
+app.delete('/api/admin/player-bans/:id', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const banId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(banId)) {
+      return res.status(400).json({ error: 'ID espulsione non valido' });
+    }
+
+    const result = await prisma.playerBan.deleteMany({ where: { id: banId } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Espulsione non trovata' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error lifting player ban:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// SEGNALAZIONI MESSAGGI
+// ============================================
+
+// Durata predefinita del silenziamento di un tavolo segnalato
+const DEFAULT_MUTE_MINUTES = 10;
+
+// Testo predefinito dell'avviso inviato al tavolo segnalato
+const DEFAULT_WARNING_TEXT = '⚠️ Un vostro messaggio è stato segnalato. Vi chiediamo di mantenere un linguaggio rispettoso, grazie!';
+
+// Avviso privato dello staff a un tavolo (come un broadcast, ma a un solo tavolo)
+async function sendStaffWarning(tableId: string, content: string) {
+  const message = await prisma.message.create({
+    data: {
+      id: generateMessageId(),
+      content,
+      fromTableId: null,
+      toTableId: tableId,
+      senderName: 'Amministrazione',
+      publicSenderName: '📢 Amministrazione',
+      isAnonymous: false,
+      isBroadcast: true,
+      isWarning: true,
+      eventId: await currentEventId()
+    }
+  });
+  publish('message', formatMessage(message), tableId);
+}
+
+// Segnala un messaggio ricevuto (PROTETTO - requirePlayer)
+app.post('/api/report-message', requireAuth, requirePlayer, reportLimiter, async (req, res) => {
+  try {
+    const { messageId } = req.body;
+    const validation = validateReport(req.body.reason, req.body.note);
+
+    if (!messageId || typeof messageId !== 'string') {
+      return res.status(400).json({ error: 'Messaggio mancante' });
+    }
+
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const message = await prisma.message.findUnique({ where: { id: messageId } });
+    if (!message || message.status !== 'approved' || isHidden(message)) {
+      return res.status(404).json({ error: 'Messaggio non trovato' });
+    }
+
+    if (message.toTableId !== req.user!.tableId) {
+      return res.status(403).json({ error: 'Puoi segnalare solo i messaggi ricevuti dal tuo tavolo' });
+    }
+
+    if (message.isBroadcast) {
+      return res.status(400).json({ error: 'Non puoi segnalare i messaggi dello staff' });
+    }
+
+    try {
+      await prisma.messageReport.create({
+        data: {
+          messageId,
+          reporterTableId: req.user!.tableId!,
+          reporterName: req.user!.firstName,
+          reason: validation.reason!,
+          note: validation.note ? sanitizeInput(validation.note) : null
+        }
+      });
+    } catch (error) {
+      if (isPrismaError(error, 'P2002')) {
+        return res.status(409).json({ error: 'Il tuo tavolo ha già segnalato questo messaggio' });
+      }
+      throw error;
+    }
+
+    console.log(`Messaggio ${messageId} segnalato dal tavolo ${req.user!.tableId} (${validation.reason})`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error reporting message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Inbox segnalazioni con mittente reale (PROTETTO - requirePermission moderate_messages)
+app.get('/api/admin/reports', requireAuth, requirePermission('moderate_messages'), async (req, res) => {
+  try {
+    const status = req.query.status === 'resolved' ? 'resolved' : 'open';
+
+    const reports = await prisma.messageReport.findMany({
+      where: { status },
+      orderBy: { createdAt: status === 'open' ? 'asc' : 'desc' },
+      take: 200,
+      include: { message: true }
+    });
+
+    const [openCount, mutedTables] = await Promise.all([
+      prisma.messageReport.count({ where: { status: 'open' } }),
+      prisma.table.findMany({ where: { mutedUntil: { gt: new Date() } }, select: { id: true, mutedUntil: true } })
+    ]);
+    const mutedUntilByTable = new Map(mutedTables.map(t => [t.id, t.mutedUntil!.toISOString()]));
+
+    res.json({
+      openCount,
+      reports: reports.map(r => ({
+        id: r.id,
+        reason: r.reason,
+        note: r.note,
+        reporterTable: r.reporterTableId,
+        reporterName: r.reporterName,
+        status: r.status,
+        actions: parseReportActions(r.actions),
+        resolvedBy: r.resolvedBy,
+        resolvedAt: r.resolvedAt?.toISOString() ?? null,
+        createdAt: r.createdAt.toISOString(),
+        message: {
+          id: r.message.id,
+          content: r.message.content,
+          fromTable: r.message.fromTableId,
+          toTable: r.message.toTableId,
+          senderName: r.message.senderName,
+          isAnonymous: r.message.isAnonymous,
+          timestamp: r.message.timestamp.toISOString(),
+          hidden: isHidden(r.message),
+          senderMutedUntil: r.message.fromTableId ? mutedUntilByTable.get(r.message.fromTableId) ?? null : null
+        }
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Azione dello staff su una segnalazione: hide, warn, mute, resolve (PROTETTO - requirePermission moderate_messages)
+app.post('/api/admin/reports/:id/:action', requireAuth, requirePermission('moderate_messages'), adminLimiter, async (req, res) => {
+  try {
+    const reportId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    const action = (Array.isArray(req.params.action) ? req.params.action[0] : req.params.action) as ReportAction;
+
+    if (isNaN(reportId)) {
+      return res.status(400).json({ error: 'ID segnalazione non valido' });
+    }
+
+    if (!REPORT_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: 'Azione non valida (hide, warn, mute, resolve)' });
+    }
+
+    const report = await prisma.messageReport.findUnique({ where: { id: reportId }, include: { message: true } });
+    if (!report) {
+      return res.status(404).json({ error: 'Segnalazione non trovata' });
+    }
+
+    const staffName = req.user!.firstName;
+    const senderTableId = report.message.fromTableId;
+    let mutedUntil: Date | null = null;
+
+    if ((action === 'warn' || action === 'mute') && !senderTableId) {
+      return res.status(400).json({ error: 'Il tavolo mittente non esiste più' });
+    }
+
+    if (action === 'hide') {
+      await hideMessage(report.messageId, staffName, `Segnalazione: ${report.reason}`);
+    } else if (action === 'warn') {
+      const text = typeof req.body.message === 'string' && req.body.message.trim()
+        ? sanitizeMessageContent(req.body.message)
+        : DEFAULT_WARNING_TEXT;
+      await sendStaffWarning(senderTableId!, text);
+    } else if (action === 'mute') {
+      const minutes = req.body.minutes !== undefined ? parseInt(req.body.minutes) : DEFAULT_MUTE_MINUTES;
+      if (isNaN(minutes) || minutes < 1 || minutes > 240) {
+        return res.status(400).json({ error: 'Durata non valida (1-240 minuti)' });
+      }
+      mutedUntil = await muteTable(senderTableId!, minutes);
+    }
+
+    const actions = parseReportActions(report.actions);
+    if (action !== 'resolve' && !actions.includes(action)) {
+      actions.push(action);
+    }
+
+    await prisma.messageReport.update({
+      where: { id: reportId },
+      data: action === 'resolve'
+        ? { actions: JSON.stringify(actions), status: 'resolved', resolvedBy: staffName, resolvedAt: new Date() }
+        : { actions: JSON.stringify(actions) }
+    });
+
+    console.log(`Segnalazione #${reportId}: ${action} (${staffName})`);
+    res.json({ success: true, actions, mutedUntil: mutedUntil?.toISOString() ?? null });
+  } catch (error) {
+    console.error('Error handling report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get active table numbers (for compose dropdown)
+app.get('/api/active-table-numbers', async (req, res) => {
+  try {
+    const tables = await prisma.table.findMany({
+      select: { id: true }
+    });
+
+    res.json({ tableNumbers: tables.map(t => t.id) });
+  } catch (error) {
+    console.error('Error fetching active table numbers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Broadcast message (PROTETTO - requirePermission send_broadcast)
+app.post('/api/admin/broadcast-message', requireAuth, requirePermission('send_broadcast'), adminLimiter, async (req, res) => {
+  try {
+    const { content } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Contenuto messaggio obbligatorio' });
+    }
+
+    if (content.trim().length < 2) {
+      return res.status(400).json({ error: 'Messaggio troppo corto' });
+    }
+
+    if (content.length > 500) {
+      return res.status(400).json({ error: 'Messaggio troppo lungo (max 500 caratteri)' });
+    }
+
+    // ✅ Usa sanitizeMessageContent per protezione XSS completa
+    const sanitizedContent = sanitizeMessageContent(content);
+
+    const tables = await prisma.table.findMany();
+    let messagesSent = 0;
+
+    const eventId = await currentEventId();
+    for (const table of tables) {
+      const messageId = generateMessageId();
+
+      const message = await prisma.message.create({
+        data: {
+          id: messageId,
+          content: sanitizedContent,
+          fromTableId: null,
+          toTableId: table.id,
+          senderName: 'Amministrazione',
+          publicSenderName: '📢 Amministrazione',
+          isAnonymous: false,
+          isBroadcast: true,
+          eventId
+        }
+      });
+      publish('message', formatMessage(message), table.id);
+      messagesSent++;
+    }
+
+    console.log(`Broadcast message sent to ${messagesSent} tables`);
+    res.json({
+      success: true,
+      message: `Messaggio inviato a ${messagesSent} tavoli`,
+      tableCount: messagesSent
+    });
+  } catch (error) {
+    console.error('Error broadcasting message:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Emoji di reazione consentite nella sessione corrente
+async function getReactionEmojis(): Promise<string[]> {
+  const session = await prisma.gameSession.findUnique({ where: { id: 1 }, select: { reactionEmojis: true } });
+  return parseReactionEmojis(session?.reactionEmojis || '[]');
+}
+
+// Conteggio aggiornato delle reazioni di un messaggio
+async function getMessageReactions(messageId: string) {
+  const reactions = await prisma.reaction.findMany({ where: { messageId }, ...reactionSelect });
+  return summarizeReactions(reactions).reactions;
+}
+
+// Get allowed reaction emojis (pubblico - serve ai giocatori per mostrare i pulsanti)
+app.get('/api/reaction-emojis', async (req, res) => {
+  try {
+    res.json({ emojis: await getReactionEmojis() });
+  } catch (error) {
+    console.error('Error fetching reaction emojis:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set allowed reaction emojis (PROTETTO - requirePermission manage_game_state)
+// Le reazioni già date con emoji rimosse restano nei conteggi
+app.post('/api/admin/reaction-emojis', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
+  try {
+    const validation = validateReactionEmojis(req.body.emojis);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const reactionEmojis = JSON.stringify(validation.emojis);
+    await prisma.gameSession.upsert({
+      where: { id: 1 },
+      create: { id: 1, reactionEmojis },
+      update: { reactionEmojis }
+    });
+
+    publish('reaction-emojis', { emojis: validation.emojis });
+    res.json({ success: true, emojis: validation.emojis });
+  } catch (error) {
+    console.error('Error updating reaction emojis:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add reaction (PROTETTO - tavolo derivato dal token giocatore, con rate limiting anti-spam)
+// Toggle atomico: la riga viene tolta se esiste, altrimenti creata (vincolo unico messaggio/giocatore/emoji)
+// Il giocatore è identificato da tavolo e nome del token: ricaricare la pagina non azzera le sue reazioni
+app.post('/api/add-reaction', requireAuth, requirePlayer, reactionLimiter, async (req, res) => {
+  try {
+    const { messageId, emoji } = req.body;
+    const { tableId, firstName, lastName } = req.user!;
+
+    if (!messageId || !emoji) {
+      return res.status(400).json({ error: 'Campi obbligatori mancanti' });
+    }
+
+    const allowedEmojis = await getReactionEmojis();
+    if (!allowedEmojis.includes(emoji)) {
+      return res.status(400).json({ error: 'Reazione non valida' });
+    }
+
+    const message = await prisma.message.findUnique({ where: { id: messageId } });
+    if (!message || message.status !== 'approved' || isHidden(message)) {
+      return res.status(404).json({ error: 'Messaggio non trovato' });
+    }
+
+    // Si può reagire solo ai messaggi ricevuti dal proprio tavolo
+    if (message.toTableId !== tableId) {
+      return res.status(403).json({ error: 'Puoi reagire solo ai messaggi del tuo tavolo' });
+    }
+
+    const player = { tableId: tableId!, firstName, lastName };
+    const reactionKey = JSON.stringify([firstName, lastName, emoji]);
+
+    const removed = await prisma.reaction.deleteMany({
+      where: { messageId, ...player, emoji }
+    });
+
+    if (removed.count === 0) {
+      try {
+        await prisma.reaction.create({
+          data: { messageId, ...player, emoji }
+        });
+        await recordScore(message.fromTableId, 'reaction_received', { messageId, reactionKey });
+      } catch (error) {
+        // Doppio tap concorrente: la reazione esiste già, nulla da fare
+        if (!isPrismaError(error, 'P2002')) throw error;
+      }
+    } else {
+      await revertScore(messageId, 'reaction_received', 'reaction_removed', reactionKey);
+    }
+
+    const reactions = await getMessageReactions(messageId);
+    const mine = await prisma.reaction.findMany({
+      where: { messageId, ...player },
+      select: { emoji: true }
+    });
+
+    publish('reaction', { messageId, reactions }, message.toTableId);
+
+    res.json({
+      success: true,
+      reactions,
+      myReactions: mine.map(r => r.emoji)
+    });
+  } catch (error) {
+    console.error('Error adding reaction:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// COUNTDOWN
+// ============================================
+
+app.get('/api/countdown', async (req, res) => {
+  try {
+    let countdown = await prisma.countdown.findUnique({ where: { id: 1 } });
+
+    if (!countdown) {
+      countdown = await prisma.countdown.create({
+        data: { id: 1, active: false }
+      });
+    }
+
+    res.json({
+      active: countdown.active,
+      endsAt: countdown.endsAt?.toISOString(),
+      message: countdown.message,
+      startedAt: countdown.startedAt?.toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching countdown:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/admin/set-countdown', requireAuth, requirePermission('manage_countdown'), async (req, res) => {
+  try {
+    const { minutes, message } = req.body;
+
+    if (!minutes || minutes < 1 || minutes > 60) {
+      return res.status(400).json({ error: 'Minuti non validi (1-60)' });
+    }
+
+    const endsAt = new Date(Date.now() + minutes * 60 * 1000);
+
+    await prisma.countdown.upsert({
+      where: { id: 1 },
+      create: {
+        id: 1,
+        active: true,
+        endsAt,
+        message: message || 'Tempo rimanente',
+        startedAt: new Date()
+      },
+      update: {
+        active: true,
+        endsAt,
+        message: message || 'Tempo rimanente',
+        startedAt: new Date()
+      }
+    });
+
+    await publishCountdown();
+    res.json({ success: true, message: 'Countdown avviato' });
+  } catch (error) {
+    console.error('Error setting countdown:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/admin/stop-countdown', requireAuth, requirePermission('manage_countdown'), async (req, res) => {
+  try {
+    await prisma.countdown.upsert({
+      where: { id: 1 },
+      create: { id: 1, active: false },
+      update: { active: false }
+    });
+
+    await publishCountdown();
+    res.json({ success: true, message: 'Countdown fermato' });
+  } catch (error) {
+    console.error('Error stopping countdown:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// TABLE STATS (Leaderboard)
+// ============================================
+
+// Pesi correnti della classifica
+async function getScoringWeights() {
+  const session = await prisma.gameSession.findUnique({ where: { id: 1 }, select: { scoringWeights: true } });
+  return parseScoringWeights(session?.scoringWeights ?? null);
+}
+
+// Scrive una voce nel registro punti del tavolo con i pesi correnti (peso 0 = nessuna voce)
+// Un errore qui non deve far fallire l'azione che ha generato i punti
+async function recordScore(tableId: string | null, key: ScoringRuleKey, refs: { messageId?: string; challengeId?: number; reactionKey?: string } = {}) {
+  if (!tableId) return;
+
+  try {
+    const points = pointsFor(await getScoringWeights(), key);
+    if (points === 0) return;
+
+    await prisma.scoreEntry.create({ data: { tableId, reason: key, points, eventId: await currentEventId(), ...refs } });
+  } catch (error) {
+    console.error('Error recording score:', error);
+  }
+}
+
+// Annulla l'ultima voce di un messaggio non ancora annullata (reazione tolta, penalità revocata al ripristino)
+// reactionKey: solo la voce di quella reazione, non quelle degli altri giocatori
+// Se la voce non c'è (peso 0 quando è stata data) non si annulla nulla
+async function revertScore(messageId: string, key: ScoringRuleKey, reversal: keyof typeof SCORE_REVERSALS, reactionKey?: string) {
+  try {
+    const entry = await prisma.scoreEntry.findFirst({
+      where: { messageId, reason: key, reversedBy: { is: null }, ...(reactionKey ? { reactionKey } : {}) },
+      orderBy: { id: 'desc' }
+    });
+    if (!entry) return;
+
+    // reversesEntryId è unico: due annullamenti concorrenti della stessa voce non passano entrambi
+    await prisma.scoreEntry.create({
+      data: { tableId: entry.tableId, reason: reversal, points: -entry.points, messageId, reversesEntryId: entry.id, eventId: entry.eventId }
+    });
+  } catch (error) {
+    console.error('Error reverting score:', error);
+  }
+}
+
+// Classifica di una serata calcolata dal registro punti (messageCount resta come dato di contorno)
+async function getLeaderboard(eventId: number, limit: number) {
+  const totals = await prisma.scoreEntry.groupBy({
+    by: ['tableId'],
+    where: { eventId },
+    _sum: { points: true }
+  });
+
+  const messageCounts = await prisma.message.groupBy({
+    by: ['fromTableId'],
+    where: { fromTableId: { not: null }, isBroadcast: false, status: 'approved', eventId },
+    _count: { _all: true }
+  });
+  const countByTable = new Map(messageCounts.map(row => [row.fromTableId, row._count._all]));
+
+  return totals
+      .map(row => ({
+        tableId: row.tableId,
+        points: row._sum.points ?? 0,
+        messageCount: countByTable.get(row.tableId) ?? 0
+      }))
+      .sort((a, b) => b.points - a.points || b.messageCount - a.messageCount || a.tableId.localeCompare(b.tableId))
+      .slice(0, limit);
+}
+
+// Get table stats (PROTETTO - requirePermission view_leaderboard)
+// ?eventId= per la classifica di una serata passata (default: quella in corso)
+app.get('/api/admin/table-stats', requireAuth, requirePermission('view_leaderboard'), async (req, res) => {
+  try {
+    const eventId = await requestedEventId(req);
+    if (eventId === null) {
+      return res.status(400).json({ error: 'ID evento non valido' });
+    }
+
+    res.json({ leaderboard: await getLeaderboard(eventId, 10) });
+  } catch (error) {
+    console.error('Error fetching table stats:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/admin/score-ledger?tableId=X&eventId=Y - Registro punti di un tavolo nella serata, dal più recente
+app.get('/api/admin/score-ledger', requireAuth, requirePermission('view_leaderboard'), async (req, res) => {
+  try {
+    const tableId = typeof req.query.tableId === 'string' ? req.query.tableId.toUpperCase() : '';
+    if (!tableId) {
+      return res.status(400).json({ error: 'Tavolo obbligatorio' });
+    }
+
+    const eventId = await requestedEventId(req);
+    if (eventId === null) {
+      return res.status(400).json({ error: 'ID evento non valido' });
+    }
+
+    const entries = await prisma.scoreEntry.findMany({
+      where: { tableId, eventId },
+      orderBy: { id: 'desc' },
+      take: 200
+    });
+
+    const byReason = await prisma.scoreEntry.groupBy({
+      by: ['reason'],
+      where: { tableId, eventId },
+      _sum: { points: true },
+      _count: { _all: true }
+    });
+
+    res.json({
+      tableId,
+      total: byReason.reduce((sum, row) => sum + (row._sum.points ?? 0), 0),
+      breakdown: byReason.map(row => ({
+        reason: row.reason,
+        label: scoreReasonLabel(row.reason),
+        count: row._count._all,
+        points: row._sum.points ?? 0
+      })),
+      entries: entries.map(entry => ({
+        id: entry.id,
+        reason: entry.reason,
+        label: scoreReasonLabel(entry.reason),
+        points: entry.points,
+        messageId: entry.messageId,
+        challengeId: entry.challengeId ? String(entry.challengeId) : null,
+        createdAt: entry.createdAt.toISOString()
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching score ledger:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/admin/scoring - Pesi della classifica con la descrizione delle voci
+app.get('/api/admin/scoring', requireAuth, requirePermission('view_leaderboard'), async (req, res) => {
+  try {
+    res.json({ rules: SCORING_RULES, weights: await getScoringWeights() });
+  } catch (error) {
+    console.error('Error fetching scoring weights:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/scoring - Modifica i pesi (valgono per gli eventi successivi)
+app.post('/api/admin/scoring', requireAuth, requirePermission('manage_game_state'), adminLimiter, async (req, res) => {
+  try {
+    const validation = validateScoringWeights(req.body.weights, await getScoringWeights());
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    await prisma.gameSession.upsert({
+      where: { id: 1 },
+      create: { id: 1, scoringWeights: JSON.stringify(validation.weights) },
+      update: { scoringWeights: JSON.stringify(validation.weights) }
+    });
+
+    res.json({ success: true, weights: validation.weights });
+  } catch (error) {
+    console.error('Error updating scoring weights:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get reaction stats (PROTETTO - requirePermission view_leaderboard)
+app.get('/api/admin/reaction-stats', requireAuth, requirePermission('view_leaderboard'), async (req, res) => {
+  try {
+    const grouped = await prisma.reaction.groupBy({
+      by: ['emoji'],
+      where: { message: { eventId: await currentEventId() } },
+      _count: { _all: true }
+    });
+
+    const byEmoji = grouped
+        .map(g => ({ emoji: g.emoji, count: g._count._all }))
+        .sort((a, b) => b.count - a.count);
+
+    res.json({
+      total: byEmoji.reduce((sum, e) => sum + e.count, 0),
+      byEmoji
+    });
+  } catch (error) {
+    console.error('Error fetching reaction stats:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// CHALLENGES (SFIDE)
+// ============================================
+
+// Chiude una sfida attiva: calcola la classifica, salva lo snapshot e notifica i client
+// Restituisce null se la sfida era già stata chiusa (es. scadenza e chiusura manuale insieme)
+// o se è stata prolungata per lo spareggio (solo alla scadenza, mai con la chiusura manuale).
+// Alla scadenza una sfida a giudizio resta aperta finché lo staff non sceglie il vincitore.
+async function finalizeChallenge(challengeId: number, endedAt: Date, atExpiry = true) {
+  const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+  if (!challenge || !challenge.active) return null;
+
+  if (atExpiry && getChallengeEvaluator(challenge.type)?.judging === 'staff' && !challenge.judgedMessageId) {
+    cancelChallengeExpiry(challengeId);
+    return null;
+  }
+
+  const until = endedAt < challenge.endsAt ? endedAt : challenge.endsAt;
+  const result = await evaluateChallenge(challenge, until);
+  const winners = result.winners;
+  const winner = winners[0] ?? null;
+
+  if (atExpiry && winners.length > 1 && challenge.tieBreak === 'sudden_death'
+      && challenge.suddenDeathMinutes && !challenge.extendedAt) {
+    return extendChallenge(challengeId, challenge.suddenDeathMinutes, winners);
+  }
+
+  const updated = await prisma.challenge.updateMany({
+    where: { id: challengeId, active: true },
+    data: { active: false, winner, endedAt: until, result: JSON.stringify(result) }
+  });
+  if (updated.count === 0) return null;
+
+  cancelChallengeExpiry(challengeId);
+
+  // Badge a tutti i tavoli vincitori (anche a pari merito)
+  if (winners.length > 0) {
+    await prisma.badgeAward.createMany({
+      data: winners.map(tableId => ({ tableId, challengeId, awardedAt: until }))
+    });
+
+    for (const tableId of winners) {
+      await recordScore(tableId, 'challenge_won', { challengeId });
+      await recordScore(tableId, 'badge_awarded', { challengeId });
+    }
+  }
+
+  const endedChallenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+  if (endedChallenge) publish('challenge-end', formatChallenge(endedChallenge));
+  if (winners.length > 0) publish('badges', { badges: await getTableBadges() });
+
+  console.log(`✓ Sfida "${challenge.title}" terminata. Vincitore: ${winners.join(', ') || 'Nessuno'}`);
+  return endedChallenge;
+}
+
+// Spareggio: la sfida resta attiva per altri N minuti (da adesso)
+async function extendChallenge(challengeId: number, minutes: number, tiedTables: string[]) {
+  const now = new Date();
+  const endsAt = new Date(now.getTime() + minutes * 60 * 1000);
+
+  const updated = await prisma.challenge.updateMany({
+    where: { id: challengeId, active: true, extendedAt: null },
+    data: { endsAt, extendedAt: now }
+  });
+  if (updated.count === 0) return null;
+
+  scheduleChallengeExpiry(challengeId, endsAt);
+  const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+  if (challenge) publish('challenge-extended', { ...formatChallenge(challenge), tiedTables });
+
+  console.log(`✓ Sfida ${challengeId}: pareggio tra ${tiedTables.join(', ')}, spareggio di ${minutes} min`);
+  return null;
+}
+
+// Badge vinti da ciascun tavolo nella serata in corso, in ordine di assegnazione
+async function getTableBadges() {
+  const awards = await prisma.badgeAward.findMany({
+    where: { challenge: { eventId: await currentEventId() } },
+    include: { challenge: { select: { title: true, badgeName: true, badgeEmoji: true } } },
+    orderBy: { awardedAt: 'asc' }
+  });
+
+  const badges: Record<string, Array<{ challengeId: string; challengeTitle: string; name: string; emoji: string; awardedAt: string }>> = {};
+  for (const award of awards) {
+    (badges[award.tableId] ??= []).push({
+      challengeId: String(award.challengeId),
+      challengeTitle: award.challenge.title,
+      name: award.challenge.badgeName,
+      emoji: award.challenge.badgeEmoji,
+      awardedAt: award.awardedAt.toISOString()
+    });
+  }
+  return badges;
+}
+
+// GET /api/badges - Badge vinti per tavolo (pubblico - giocatori e TV)
+app.get('/api/badges', async (req, res) => {
+  try {
+    res.json({ badges: await getTableBadges() });
+  } catch (error) {
+    console.error('Error fetching badges:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+interface ChallengeInput {
+  title: string;
+  description: string;
+  type: string;
+  params: string;
+  tieBreak: string;
+  suddenDeathMinutes: number | null;
+  badgeName: string;
+  badgeEmoji: string;
+  durationMinutes: number;
+}
+
+// Valida i campi di una sfida inviati dall'admin (creazione immediata o scaletta)
+function validateChallengeInput(body: Record<string, unknown>): { valid: boolean; error?: string; input?: ChallengeInput } {
+  const { title, description, type, durationMinutes, badgeName, badgeEmoji, params, tieBreak, suddenDeathMinutes } = body;
+
+  if (typeof title !== 'string' || typeof badgeName !== 'string' || !title || !badgeName) {
+    return { valid: false, error: 'Titolo e nome badge sono obbligatori' };
+  }
+
+  if ((description != null && typeof description !== 'string') || (badgeEmoji != null && typeof badgeEmoji !== 'string')) {
+    return { valid: false, error: 'Descrizione o emoji badge non validi' };
+  }
+
+  const duration = typeof durationMinutes === 'number' || typeof durationMinutes === 'string' ? parseInt(String(durationMinutes)) : NaN;
+  if (isNaN(duration) || duration < 1 || duration > 60) {
+    return { valid: false, error: 'Durata non valida (1-60 minuti)' };
+  }
+
+  const evaluator = getChallengeEvaluator(typeof type === 'string' && type ? type : 'most_messages');
+  if (!evaluator) {
+    return { valid: false, error: 'Tipo sfida non valido' };
+  }
+
+  const paramsValidation = validateChallengeParams(evaluator, params);
+  if (!paramsValidation.valid) {
+    return { valid: false, error: paramsValidation.error };
+  }
+
+  const tieBreakValidation = validateTieBreak(tieBreak, suddenDeathMinutes);
+  if (!tieBreakValidation.valid) {
+    return { valid: false, error: tieBreakValidation.error };
+  }
+
+  return {
+    valid: true,
+    input: {
+      title: sanitizeInput(title),
+      description: sanitizeInput(description || ''),
+      type: evaluator.type,
+      params: JSON.stringify(paramsValidation.params),
+      tieBreak: tieBreakValidation.tieBreak!,
+      suddenDeathMinutes: tieBreakValidation.suddenDeathMinutes ?? null,
+      badgeName: sanitizeInput(badgeName),
+      badgeEmoji: badgeEmoji || '🏆',
+      durationMinutes: duration
+    }
+  };
+}
+
+// Avvia una sfida: la salva, programma la chiusura e la annuncia ai client
+async function startChallenge(data: ChallengeInput) {
+  const { durationMinutes, ...fields } = data;
+  const now = new Date();
+  const endsAt = new Date(now.getTime() + durationMinutes * 60 * 1000);
+
+  const challenge = await prisma.challenge.create({
+    data: { ...fields, startedAt: now, endsAt, eventId: await currentEventId() }
+  });
+
+  console.log(`✓ Sfida creata: "${challenge.title}" (${durationMinutes} min)`);
+
+  scheduleChallengeExpiry(challenge.id, challenge.endsAt);
+  publish('challenge-start', formatChallenge(challenge));
+  return challenge;
+}
+
+// GET /api/challenges?status=active|ended - Sfide della serata in corso (concluse con classifica, dalla più recente)
+// Le sfide delle serate passate si consultano dall'archivio eventi
+app.get('/api/challenges', async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && status !== 'active' && status !== 'ended') {
+      return res.status(400).json({ error: 'Stato non valido (active, ended)' });
+    }
+
+    const challenges = await prisma.challenge.findMany({
+      where: {
+        eventId: await currentEventId(),
+        ...(status === 'active' ? { active: true } : status === 'ended' ? { active: false } : {})
+      },
+      orderBy: { startedAt: 'desc' },
+      take: 100
+    });
+
+    res.json({ challenges: challenges.map(formatChallenge) });
+  } catch (error) {
+    console.error('Error fetching challenges:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/challenges/active - Sfide attive (accessibile da tutti gli autenticati e giocatori)
+// La chiusura alla scadenza la fa il timer della sfida, non questa lettura
+app.get('/api/challenges/active', async (req, res) => {
+  try {
+    const challenges = await prisma.challenge.findMany({
+      where: { active: true },
+      orderBy: { startedAt: 'desc' }
+    });
+
+    res.json({
+      challenges: challenges.map(formatChallenge)
+    });
+  } catch (error) {
+    console.error('Error fetching active challenges:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/challenges/latest-result - Ultima sfida conclusa con classifica (per festeggiare su TV)
+app.get('/api/challenges/latest-result', async (req, res) => {
+  try {
+    const challenge = await prisma.challenge.findFirst({
+      where: { active: false, endedAt: { not: null }, eventId: await currentEventId() },
+      orderBy: { endedAt: 'desc' }
+    });
+
+    res.json({ challenge: challenge ? formatChallenge(challenge) : null });
+  } catch (error) {
+    console.error('Error fetching latest challenge result:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/admin/challenge-types - Tipi di sfida registrati con i loro parametri
+app.get('/api/admin/challenge-types', requireAuth, requirePermission('manage_challenges'), (req, res) => {
+  res.json({ types: listChallengeEvaluators() });
+});
+
+// GET /api/challenges/:id/results - Classifica finale di una sfida (?limit=N per i primi N)
+app.get('/api/challenges/:id/results', async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!challenge) {
+      return res.status(404).json({ error: 'Sfida non trovata' });
+    }
+
+    const result = parseChallengeResult(challenge.result);
+    if (challenge.active || !result) {
+      return res.status(409).json({ error: 'Sfida ancora in corso' });
+    }
+
+    const limit = parseInt(req.query.limit as string);
+    const ranking = isNaN(limit) || limit < 1 ? result.ranking : result.ranking.slice(0, limit);
+
+    res.json({
+      challenge: formatChallenge(challenge),
+      ...result,
+      ranking,
+      totalTables: result.ranking.length
+    });
+  } catch (error) {
+    console.error('Error fetching challenge results:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sfida a giudizio o a votazione che accetta ancora partecipazioni e voti
+async function findOpenJudgingChallenge(challengeId: number) {
+  if (isNaN(challengeId)) return null;
+
+  const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+  if (!challenge || !challenge.active || challenge.endsAt <= new Date()) return null;
+  return getChallengeEvaluator(challenge.type)?.judging ? challenge : null;
+}
+
+// Partecipazioni visibili di una sfida con i voti ricevuti, dalla più vecchia
+async function getChallengeSubmissions(challenge: { id: number; startedAt: Date; endsAt: Date }) {
+  const messages = await prisma.message.findMany({
+    where: submittedTo({ challengeId: challenge.id, startedAt: challenge.startedAt, until: challenge.endsAt, params: {} }),
+    orderBy: { timestamp: 'asc' }
+  });
+
+  const votes = await prisma.challengeVote.groupBy({
+    by: ['messageId'],
+    where: { challengeId: challenge.id },
+    _count: { _all: true }
+  });
+  const votesByMessage = new Map(votes.map(row => [row.messageId, row._count._all]));
+
+  return messages.map(m => ({
+    id: m.id,
+    content: m.content,
+    fromTable: m.fromTableId,
+    toTable: m.toTableId,
+    publicSenderName: m.isAnonymous ? null : m.publicSenderName,
+    isAnonymous: m.isAnonymous,
+    timestamp: m.timestamp.toISOString(),
+    votes: votesByMessage.get(m.id) ?? 0
+  }));
+}
+
+// GET /api/challenges/:id/submissions - Partecipazioni di una sfida a giudizio o a votazione
+// (giocatori e staff; per un giocatore include il voto del suo tavolo — la TV li riceve da /api/tv/snapshot)
+app.get('/api/challenges/:id/submissions', requireAuth, async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!challenge || !getChallengeEvaluator(challenge.type)?.judging) {
+      return res.status(404).json({ error: 'Sfida non trovata' });
+    }
+
+    const tableId = req.user!.tableId;
+    const myVote = tableId
+      ? await prisma.challengeVote.findUnique({
+          where: { challengeId_voterTableId: { challengeId, voterTableId: tableId } },
+          select: { messageId: true }
+        })
+      : null;
+
+    res.json({
+      challenge: formatChallenge(challenge),
+      submissions: await getChallengeSubmissions(challenge),
+      myVote: myVote?.messageId ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching challenge submissions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/challenges/:id/vote - Voto del tavolo per la partecipazione migliore (uno per tavolo)
+app.post('/api/challenges/:id/vote', requireAuth, requirePlayer, voteLimiter, async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    const { messageId } = req.body;
+    const tableId = req.user!.tableId!;
+
+    if (!messageId || typeof messageId !== 'string') {
+      return res.status(400).json({ error: 'Partecipazione obbligatoria' });
+    }
+
+    const challenge = await findOpenJudgingChallenge(challengeId);
+    if (!challenge || getChallengeEvaluator(challenge.type)?.judging !== 'vote') {
+      return res.status(400).json({ error: 'La votazione non è aperta' });
+    }
+
+    const submission = await prisma.message.findFirst({
+      where: { ...submittedTo({ challengeId, startedAt: challenge.startedAt, until: challenge.endsAt, params: {} }), id: messageId },
+      select: { fromTableId: true }
+    });
+    if (!submission) {
+      return res.status(404).json({ error: 'Partecipazione non trovata' });
+    }
+
+    if (submission.fromTableId === tableId) {
+      return res.status(400).json({ error: 'Non puoi votare la partecipazione del tuo tavolo' });
+    }
+
+    try {
+      await prisma.challengeVote.create({ data: { challengeId, voterTableId: tableId, messageId } });
+    } catch (error) {
+      if (isPrismaError(error, 'P2002')) {
+        return res.status(409).json({ error: 'Il tuo tavolo ha già votato' });
+      }
+      throw error;
+    }
+
+    publish('challenge-votes', { challengeId: String(challengeId) });
+    res.json({ success: true, myVote: messageId });
+  } catch (error) {
+    console.error('Error voting challenge submission:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/challenges/:id/judge - Lo staff sceglie la partecipazione vincitrice e chiude la sfida
+app.post('/api/admin/challenges/:id/judge', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    const { messageId } = req.body;
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    if (!messageId || typeof messageId !== 'string') {
+      return res.status(400).json({ error: 'Partecipazione obbligatoria' });
+    }
+
+    const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!challenge || getChallengeEvaluator(challenge.type)?.judging !== 'staff') {
+      return res.status(404).json({ error: 'Sfida a giudizio non trovata' });
+    }
+
+    if (!challenge.active) {
+      return res.status(400).json({ error: 'Sfida già terminata' });
+    }
+
+    const submission = await prisma.message.findFirst({
+      where: { ...submittedTo({ challengeId, startedAt: challenge.startedAt, until: challenge.endsAt, params: {} }), id: messageId },
+      select: { id: true }
+    });
+    if (!submission) {
+      return res.status(404).json({ error: 'Partecipazione non trovata' });
+    }
+
+    await prisma.challenge.updateMany({
+      where: { id: challengeId, active: true },
+      data: { judgedMessageId: messageId }
+    });
+
+    const endedChallenge = await finalizeChallenge(challengeId, new Date(), false);
+    if (!endedChallenge) {
+      return res.status(400).json({ error: 'Sfida già terminata' });
+    }
+
+    res.json({ success: true, winner: endedChallenge.winner, result: parseChallengeResult(endedChallenge.result) });
+  } catch (error) {
+    console.error('Error judging challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/create-challenge - Crea nuova sfida (admin/staff con permesso)
+app.post('/api/admin/create-challenge', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+  try {
+    const validation = validateChallengeInput(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const challenge = await startChallenge(validation.input!);
+
+    res.json({
+      id: String(challenge.id),
+      title: challenge.title,
+      description: challenge.description,
+      type: challenge.type,
+      active: challenge.active,
+      badgeName: challenge.badgeName,
+      badgeEmoji: challenge.badgeEmoji,
+      startedAt: challenge.startedAt.toISOString(),
+      endsAt: challenge.endsAt.toISOString()
+    });
+  } catch (error) {
+    console.error('Error creating challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/challenges/:id/rerun - Rilancia una sfida conclusa con le stesse impostazioni
+app.post('/api/admin/challenges/:id/rerun', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    const original = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!original) {
+      return res.status(404).json({ error: 'Sfida non trovata' });
+    }
+
+    if (original.active) {
+      return res.status(400).json({ error: 'La sfida è ancora in corso' });
+    }
+
+    // Durata originale, senza l'eventuale spareggio
+    const originalEnd = original.extendedAt ?? original.endsAt;
+    const durationMinutes = Math.min(60, Math.max(1, Math.round((originalEnd.getTime() - original.startedAt.getTime()) / 60000)));
+
+    const challenge = await startChallenge({
+      title: original.title,
+      description: original.description,
+      type: original.type,
+      params: original.params ?? '{}',
+      tieBreak: original.tieBreak,
+      suddenDeathMinutes: original.suddenDeathMinutes,
+      badgeName: original.badgeName,
+      badgeEmoji: original.badgeEmoji,
+      durationMinutes
+    });
+
+    res.json({ success: true, challenge: formatChallenge(challenge) });
+  } catch (error) {
+    console.error('Error re-running challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/challenges/:id/celebrate - Ripropone sui TV il festeggiamento di una sfida conclusa
+app.post('/api/admin/challenges/:id/celebrate', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!challenge) {
+      return res.status(404).json({ error: 'Sfida non trovata' });
+    }
+
+    if (challenge.active || !challenge.endedAt) {
+      return res.status(400).json({ error: 'La sfida è ancora in corso' });
+    }
+
+    publish('tv-celebration', formatChallenge(challenge), TV_CHANNEL);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error replaying celebration:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/end-challenge/:id - Termina sfida manualmente (admin/staff con permesso)
+app.post('/api/admin/end-challenge/:id', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+  try {
+    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+
+    if (isNaN(challengeId)) {
+      return res.status(400).json({ error: 'ID sfida non valido' });
+    }
+
+    const challenge = await prisma.challenge.findUnique({
+      where: { id: challengeId }
+    });
+
+    if (!challenge) {
+      return res.status(404).json({ error: 'Sfida non trovata' });
+    }
+
+    if (!challenge.active) {
+      return res.status(400).json({ error: 'Sfida già terminata' });
+    }
+
+    const endedChallenge = await finalizeChallenge(challengeId, new Date(), false);
+    if (!endedChallenge) {
+      return res.status(400).json({ error: 'Sfida già terminata' });
+    }
+
+    res.json({ success: true, winner: endedChallenge.winner, result: parseChallengeResult(endedChallenge.result) });
+  } catch (error) {
+    console.error('Error ending challenge:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// SCALETTA SFIDE
+// ============================================
+
+const PLAYLIST_CHECK_INTERVAL = 15 * 1000;
+
+function formatPlaylistItem(item: Prisma.PlaylistItemGetPayload<{}>) {
+  return {
+    id: String(item.id),
+    offsetMinutes: item.offsetMinutes,
+    delayMinutes: item.delayMinutes,
+    startsAtSecond: playlistItemStartSecond(item),
+    status: item.status,
+    title: item.title,
+    description: item.description,
+    type: item.type,
+    typeLabel: getChallengeEvaluator(item.type)?.label ?? item.type,
+    params: parseChallengeParams(item.params), // Solo staff: include anche i parametri segreti
+    tieBreak: item.tieBreak,
+    suddenDeathMinutes: item.suddenDeathMinutes,
+    badgeName: item.badgeName,
+    badgeEmoji: item.badgeEmoji,
+    durationMinutes: item.durationMinutes,
+    challengeId: item.challengeId ? String(item.challengeId) : null,
+    launchedAt: item.launchedAt?.toISOString() ?? null
+  };
+}
+
+// Avvia gli elementi della scaletta arrivati al loro orario (solo a gioco attivo: in pausa aspetta)
+async function runPlaylist() {
+  try {
+    const event = await getCurrentEvent();
+    if (event.status !== 'active') return;
+
+    const elapsed = elapsedPlaySeconds(event);
+    if (elapsed === null) return;
+
+    const due = (await prisma.playlistItem.findMany({ where: { status: 'pending' } }))
+      .filter(item => playlistItemStartSecond(item) <= elapsed)
+      .sort((a, b) => playlistItemStartSecond(a) - playlistItemStartSecond(b) || a.id - b.id);
+
+    for (const item of due) {
+      // Prenota l'elemento prima di avviarlo, così non parte due volte
+      const claimed = await prisma.playlistItem.updateMany({
+        where: { id: item.id, status: 'pending' },
+        data: { status: 'launched', launchedAt: new Date() }
+      });
+      if (claimed.count === 0) continue;
+
+      try {
+        const challenge = await startChallenge({
+          title: item.title,
+          description: item.description,
+          type: item.type,
+          params: item.params,
+          tieBreak: item.tieBreak,
+          suddenDeathMinutes: item.suddenDeathMinutes,
+          badgeName: item.badgeName,
+          badgeEmoji: item.badgeEmoji,
+          durationMinutes: item.durationMinutes
+        });
+        await prisma.playlistItem.update({ where: { id: item.id }, data: { challengeId: challenge.id } });
+      } catch (error) {
+        // Avvio fallito: la prenotazione torna in coda e si riprova al prossimo controllo
+        console.error(`Error launching playlist item ${item.id}:`, error);
+        await prisma.playlistItem.updateMany({
+          where: { id: item.id, status: 'launched', challengeId: null },
+          data: { status: 'pending', launchedAt: null }
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error running challenge playlist:', error);
+  }
+}
+
+// GET /api/admin/playlist - Scaletta con il tempo di gioco trascorso
+app.get('/api/admin/playlist', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+  try {
+    const event = await getCurrentEvent();
+    const items = await prisma.playlistItem.findMany();
+    items.sort((a, b) => playlistItemStartSecond(a) - playlistItemStartSecond(b) || a.id - b.id);
+
+    const next = items.find(item => item.status === 'pending');
+
+    res.json({
+      gameStatus: event.status,
+      elapsedSeconds: elapsedPlaySeconds(event),
+      nextItemId: next ? String(next.id) : null,
+      items: items.map(formatPlaylistItem)
+    });
+  } catch (error) {
+    console.error('Error fetching playlist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/playlist - Aggiunge una sfida alla scaletta
+app.post('/api/admin/playlist', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const offsetValidation = validatePlaylistOffset(req.body.offsetMinutes);
+    if (!offsetValidation.valid) {
+      return res.status(400).json({ error: offsetValidation.error });
+    }
+
+    const validation = validateChallengeInput(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const item = await prisma.playlistItem.create({
+      data: { ...validation.input!, offsetMinutes: offsetValidation.offsetMinutes! }
+    });
+
+    console.log(`✓ Scaletta: "${item.title}" a +${item.offsetMinutes} min`);
+    res.json(formatPlaylistItem(item));
+  } catch (error) {
+    console.error('Error adding playlist item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/playlist/:id/skip - Salta un elemento non ancora avviato
+app.post('/api/admin/playlist/:id/skip', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const itemId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ error: 'ID non valido' });
+    }
+
+    const result = await prisma.playlistItem.updateMany({
+      where: { id: itemId, status: 'pending' },
+      data: { status: 'skipped' }
+    });
+
+    if (result.count === 0) {
+      return res.status(409).json({ error: 'Elemento non trovato o già avviato' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error skipping playlist item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/playlist/:id/delay - Ritarda un elemento non ancora avviato ({ minutes })
+app.post('/api/admin/playlist/:id/delay', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const itemId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ error: 'ID non valido' });
+    }
+
+    const minutes = parseInt(req.body.minutes);
+    if (isNaN(minutes) || minutes < 1 || minutes > MAX_PLAYLIST_DELAY_MINUTES) {
+      return res.status(400).json({ error: `Ritardo non valido (1-${MAX_PLAYLIST_DELAY_MINUTES} minuti)` });
+    }
+
+    const item = await prisma.playlistItem.findUnique({ where: { id: itemId } });
+    if (!item || item.status !== 'pending') {
+      return res.status(409).json({ error: 'Elemento non trovato o già avviato' });
+    }
+
+    // Se l'orario è già passato (es. in pausa), il ritardo parte da adesso
+    const event = await getCurrentEvent();
+    const elapsedMinutes = Math.floor((elapsedPlaySeconds(event) ?? 0) / 60);
+    const baseDelay = Math.max(item.delayMinutes, elapsedMinutes - item.offsetMinutes);
+
+    const updated = await prisma.playlistItem.update({
+      where: { id: itemId },
+      data: { delayMinutes: baseDelay + minutes }
+    });
+
+    res.json(formatPlaylistItem(updated));
+  } catch (error) {
+    console.error('Error delaying playlist item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/admin/playlist/:id - Rimuove un elemento dalla scaletta (la sfida già avviata resta)
+app.delete('/api/admin/playlist/:id', requireAuth, requirePermission('manage_challenges'), adminLimiter, async (req, res) => {
+  try {
+    const itemId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ error: 'ID non valido' });
+    }
+
+    const result = await prisma.playlistItem.deleteMany({ where: { id: itemId } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Elemento non trovato' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting playlist item:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ============================================
+// TV DISPLAY
+// ============================================
+
+const TV_LEADERBOARD_SIZE = 10;
+const TV_BROADCAST_COUNT = 3;
+const TV_WALL_SIZE = 24;
+const TV_VOTE_TOP_COUNT = 3;
+
+// Schermo TV dal nome nel link: "main" (il semplice ?tv) viene creato al primo accesso
+async function findTvScreen(key: string) {
+  if (key === MAIN_TV_SCREEN) {
+    return prisma.tvScreen.upsert({ where: { key }, create: { key, name: 'Schermo principale' }, update: {} });
+  }
+  return prisma.tvScreen.findUnique({ where: { key } });
+}
+
+// Schermo chiesto dal TV con ?screen= (default "main")
+function requestedTvScreen(req: express.Request): string {
+  const screen = Array.isArray(req.query.screen) ? req.query.screen[0] : req.query.screen;
+  return typeof screen === 'string' && screen.trim() ? screen.trim().toLowerCase() : MAIN_TV_SCREEN;
+}
+
+function tvScreenParam(req: express.Request): string {
+  return String(Array.isArray(req.params.key) ? req.params.key[0] : req.params.key).toLowerCase();
+}
+
+function formatTvState(screen: Prisma.TvScreenGetPayload<{}>) {
+  return {
+    key: screen.key,
+    name: screen.name,
+    theme: screen.theme,
+    content: screen.content,
+    scene: screen.scene,
+    announcement: screen.announcement,
+    rotation: parseTvRotation(screen.rotation),
+    rotationActive: screen.rotationActive,
+    rotationStartedAt: screen.rotationStartedAt?.toISOString() ?? null,
+    updatedBy: screen.updatedBy
+  };
+}
+
+// Invia ai TV dello schermo la scena aggiornata: cambiano scena subito, senza ricaricare
+function publishTvState(screen: Prisma.TvScreenGetPayload<{}>) {
+  publish('tv-scene', formatTvState(screen), tvChannel(screen.key));
+}
+
+// Messaggio della bacheca: il tavolo del mittente è sempre visibile (mai anonimo)
+function formatWallMessage(m: Prisma.MessageGetPayload<{}>) {
+  return {
+    id: m.id,
+    content: m.content,
+    fromTable: m.fromTableId,
+    toTable: m.toTableId,
+    senderName: m.publicSenderName,
+    timestamp: m.timestamp.toISOString(),
+    pinned: m.wallPinnedAt !== null
+  };
+}
+
+// Messaggi approvati per la bacheca della serata: il fissato in cima, poi i più recenti
+async function getWallMessages(eventId: number) {
+  const messages = await prisma.message.findMany({
+    where: { eventId, status: 'approved', ...NOT_HIDDEN, wallStatus: 'approved' },
+    orderBy: { wallModeratedAt: 'desc' },
+    take: TV_WALL_SIZE
+  });
+
+  const pinned = await prisma.message.findFirst({
+    where: { eventId, status: 'approved', ...NOT_HIDDEN, wallStatus: 'approved', wallPinnedAt: { not: null } }
+  });
+
+  return [...(pinned ? [pinned] : []), ...messages.filter(m => m.id !== pinned?.id)].map(formatWallMessage);
+}
+
+// Invia ai TV la bacheca aggiornata
+async function publishTvWall() {
+  publish('tv-wall', { messages: await getWallMessages(await currentEventId()) }, TV_CHANNEL);
+}
+
+function formatDisplayToken(display: Prisma.DisplayTokenGetPayload<{}>) {
+  return {
+    id: String(display.id),
+    name: display.name,
+    createdBy: display.createdBy,
+    createdAt: display.createdAt.toISOString(),
+    lastUsedAt: display.lastUsedAt?.toISOString() ?? null,
+    revokedAt: display.revokedAt?.toISOString() ?? null
+  };
+}
 
-    res.json({ messages: formattedMessages });
+// GET /api/admin/display-tokens - Token display generati (PROTETTO - Solo admin)
+app.get('/api/admin/display-tokens', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const displays = await prisma.displayToken.findMany({ orderBy: { id: 'desc' } });
+    res.json({ displays: displays.map(formatDisplayToken) });
   } catch (error) {
-    console.error('Error fetching messages:', error);
+    console.error('Error fetching display tokens:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get active table numbers (for compose dropdown)
-app.get('/api/active-table-numbers', async (req, res) => {
+// POST /api/admin/display-tokens - Genera un token display (PROTETTO - Solo admin)
+// Il token in chiaro viene restituito solo qui: nel database resta l'hash
+app.post('/api/admin/display-tokens', requireAuth, requireAdmin, adminLimiter, async (req, res) => {
   try {
-    const tables = await prisma.table.findMany({
-      select: { id: true }
+    const validation = validateDisplayName(req.body.name);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const token = generateDisplayToken();
+    const display = await prisma.displayToken.create({
+      data: { name: sanitizeInput(validation.name!), tokenHash: hashDisplayToken(token), createdBy: req.user!.firstName }
     });
 
-    res.json({ tableNumbers: tables.map(t => t.id) });
+    console.log(`✓ Token display creato: "${display.name}"`);
+    res.json({ success: true, token, display: formatDisplayToken(display) });
   } catch (error) {
-    console.error('Error fetching active table numbers:', error);
+    console.error('Error creating display token:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Broadcast message (PROTETTO - requirePermission send_broadcast)
-app.post('/api/admin/broadcast-message', requireAuth, requirePermission('send_broadcast'), adminLimiter, async (req, res) => {
+// DELETE /api/admin/display-tokens/:id - Revoca un token display (PROTETTO - Solo admin)
+app.delete('/api/admin/display-tokens/:id', requireAuth, requireAdmin, adminLimiter, async (req, res) => {
   try {
-    const { content } = req.body;
-
-    if (!content || typeof content !== 'string') {
-      return res.status(400).json({ error: 'Contenuto messaggio obbligatorio' });
+    const displayId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+    if (isNaN(displayId)) {
+      return res.status(400).json({ error: 'ID non valido' });
     }
 
-    if (content.trim().length < 2) {
-      return res.status(400).json({ error: 'Messaggio troppo corto' });
+    const result = await prisma.displayToken.updateMany({
+      where: { id: displayId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Token non trovato o già revocato' });
     }
 
-    if (content.length > 500) {
-      return res.status(400).json({ error: 'Messaggio troppo lungo (max 500 caratteri)' });
-    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking display token:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // ✅ Usa sanitizeMessageContent per protezione XSS completa
-    const sanitizedContent = sanitizeMessageContent(content);
+// GET /api/admin/tv - Schermi registrati con scena corrente e TV collegati (PROTETTO - requirePermission manage_tv)
+app.get('/api/admin/tv', requireAuth, requirePermission('manage_tv'), async (req, res) => {
+  try {
+    await findTvScreen(MAIN_TV_SCREEN);
+    const screens = await prisma.tvScreen.findMany({ orderBy: { id: 'asc' } });
+    const connections = tvScreenConnections();
 
-    const tables = await prisma.table.findMany();
-    let messagesSent = 0;
+    res.json({
+      scenes: TV_SCENES,
+      themes: TV_THEMES,
+      contents: TV_CONTENT_FILTERS,
+      screens: screens.map(screen => ({ ...formatTvState(screen), online: connections[screen.key] ?? 0 }))
+    });
+  } catch (error) {
+    console.error('Error fetching TV screens:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    for (const table of tables) {
-      const messageId = `msg_${Date.now()}_${table.id}_${Math.random().toString(36).substr(2, 9)}`;
+// POST /api/admin/tv/screens - Registra uno schermo con nome (?tv=<key>)
+app.post('/api/admin/tv/screens', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
+  try {
+    const validation = validateTvScreen(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
 
-      await prisma.message.create({
+    try {
+      const screen = await prisma.tvScreen.create({
         data: {
-          id: messageId,
-          content: sanitizedContent,
-          fromTableId: null,
-          toTableId: table.id,
-          senderName: 'Amministrazione',
-          publicSenderName: '📢 Amministrazione',
-          isAnonymous: false,
-          isBroadcast: true
+          key: validation.key!,
+          name: sanitizeInput(validation.name!),
+          theme: validation.theme,
+          content: validation.content,
+          scene: allowedTvScenes(validation.content ?? 'all')[0],
+          updatedBy: req.user!.firstName
         }
       });
-      messagesSent++;
-    }
 
-    console.log(`Broadcast message sent to ${messagesSent} tables`);
-    res.json({
-      success: true,
-      message: `Messaggio inviato a ${messagesSent} tavoli`,
-      tableCount: messagesSent
-    });
+      console.log(`✓ Schermo TV registrato: "${screen.name}" (?tv=${screen.key})`);
+      res.json({ success: true, screen: formatTvState(screen) });
+    } catch (error) {
+      if (isPrismaError(error, 'P2002')) {
+        return res.status(409).json({ error: 'Esiste già uno schermo con questo nome nel link' });
+      }
+      throw error;
+    }
   } catch (error) {
-    console.error('Error broadcasting message:', error);
+    console.error('Error creating TV screen:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Add reaction (con rate limiting anti-spam)
-app.post('/api/add-reaction', messageLimiter, async (req, res) => {
+// PUT /api/admin/tv/screens/:key - Modifica nome, tema e contenuti di uno schermo
+// Se il nuovo filtro esclude la scena corrente, lo schermo passa alla prima scena consentita
+app.put('/api/admin/tv/screens/:key', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    const { messageId, reaction, tableNumber } = req.body;
-
-    if (!messageId || !reaction || !tableNumber) {
-      return res.status(400).json({ error: 'Campi obbligatori mancanti' });
-    }
-
-    const validReactions = ['heart', 'thumbsup', 'fire', 'laugh'];
-    if (!validReactions.includes(reaction)) {
-      return res.status(400).json({ error: 'Reazione non valida' });
+    const validation = validateTvScreen({ name: req.body.name, theme: req.body.theme, content: req.body.content }, true);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
     }
 
-    const message = await prisma.message.findUnique({ where: { id: messageId } });
-    if (!message) {
-      return res.status(404).json({ error: 'Messaggio non trovato' });
+    const existing = await findTvScreen(tvScreenParam(req));
+    if (!existing) {
+      return res.status(404).json({ error: 'Schermo non trovato' });
     }
 
-    const reactedTables = JSON.parse(message.reactedTables);
-    const reactionKey = `${tableNumber}_${reaction}`;
-
-    // Determina i nuovi valori delle reazioni
-    type ReactionField = 'reactionsHeart' | 'reactionsThumbsup' | 'reactionsFire' | 'reactionsLaugh';
-    const reactionFieldMap: Record<string, ReactionField> = {
-      heart: 'reactionsHeart',
-      thumbsup: 'reactionsThumbsup',
-      fire: 'reactionsFire',
-      laugh: 'reactionsLaugh'
-    };
-    const field = reactionFieldMap[reaction];
-
-    let newValue: number;
-    if (reactedTables[reactionKey]) {
-      // Toggle off
-      newValue = Math.max(0, message[field] - 1);
-      delete reactedTables[reactionKey];
-    } else {
-      // Toggle on
-      newValue = message[field] + 1;
-      reactedTables[reactionKey] = true;
-    }
+    const allowed = allowedTvScenes(validation.content ?? existing.content);
+    const sceneAllowed = isTvScene(existing.scene) && allowed.includes(existing.scene);
+    const rotationAllowed = parseTvRotation(existing.rotation).every(step => allowed.includes(step.scene));
 
-    await prisma.message.update({
-      where: { id: messageId },
+    const screen = await prisma.tvScreen.update({
+      where: { id: existing.id },
       data: {
-        [field]: newValue,
-        reactedTables: JSON.stringify(reactedTables)
+        ...(validation.name ? { name: sanitizeInput(validation.name) } : {}),
+        ...(validation.theme ? { theme: validation.theme } : {}),
+        ...(validation.content ? { content: validation.content } : {}),
+        ...(!sceneAllowed ? { scene: allowed[0] } : {}),
+        ...(!rotationAllowed ? { rotation: '[]', rotationActive: false, rotationStartedAt: null } : {}),
+        updatedBy: req.user!.firstName
       }
     });
 
-    res.json({
-      success: true,
-      reactions: {
-        heart: field === 'reactionsHeart' ? newValue : message.reactionsHeart,
-        thumbsup: field === 'reactionsThumbsup' ? newValue : message.reactionsThumbsup,
-        fire: field === 'reactionsFire' ? newValue : message.reactionsFire,
-        laugh: field === 'reactionsLaugh' ? newValue : message.reactionsLaugh
-      }
-    });
+    publishTvState(screen);
+    res.json({ success: true, screen: formatTvState(screen) });
   } catch (error) {
-    console.error('Error adding reaction:', error);
+    console.error('Error updating TV screen:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// ============================================
-// COUNTDOWN
-// ============================================
-
-app.get('/api/countdown', async (req, res) => {
+// DELETE /api/admin/tv/screens/:key - Elimina uno schermo (non quello principale)
+app.delete('/api/admin/tv/screens/:key', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    let countdown = await prisma.countdown.findUnique({ where: { id: 1 } });
+    const key = tvScreenParam(req);
+    if (key === MAIN_TV_SCREEN) {
+      return res.status(400).json({ error: 'Lo schermo principale non si può eliminare' });
+    }
 
-    if (!countdown) {
-      countdown = await prisma.countdown.create({
-        data: { id: 1, active: false }
-      });
+    const result = await prisma.tvScreen.deleteMany({ where: { key } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Schermo non trovato' });
     }
 
-    res.json({
-      active: countdown.active,
-      endsAt: countdown.endsAt?.toISOString(),
-      message: countdown.message,
-      startedAt: countdown.startedAt?.toISOString()
-    });
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error fetching countdown:', error);
+    console.error('Error deleting TV screen:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/admin/set-countdown', requireAuth, requirePermission('manage_countdown'), async (req, res) => {
+// POST /api/admin/tv/screens/:key/scene - Mostra una scena fissa sullo schermo (ferma la rotazione)
+app.post('/api/admin/tv/screens/:key/scene', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    const { minutes, message } = req.body;
+    const { scene, announcement } = req.body;
 
-    if (!minutes || minutes < 1 || minutes > 60) {
-      return res.status(400).json({ error: 'Minuti non validi (1-60)' });
+    if (!isTvScene(scene)) {
+      return res.status(400).json({ error: 'Scena non valida' });
     }
 
-    const endsAt = new Date(Date.now() + minutes * 60 * 1000);
+    if (announcement !== undefined && announcement !== null && typeof announcement !== 'string') {
+      return res.status(400).json({ error: 'Annuncio non valido' });
+    }
 
-    await prisma.countdown.upsert({
-      where: { id: 1 },
-      create: {
-        id: 1,
-        active: true,
-        endsAt,
-        message: message || 'Tempo rimanente',
-        startedAt: new Date()
-      },
-      update: {
-        active: true,
-        endsAt,
-        message: message || 'Tempo rimanente',
-        startedAt: new Date()
+    const text = typeof announcement === 'string' ? sanitizeInput(announcement.trim()) : undefined;
+    if (text && text.length > MAX_ANNOUNCEMENT_LENGTH) {
+      return res.status(400).json({ error: `Annuncio troppo lungo (max ${MAX_ANNOUNCEMENT_LENGTH} caratteri)` });
+    }
+
+    const existing = await findTvScreen(tvScreenParam(req));
+    if (!existing) {
+      return res.status(404).json({ error: 'Schermo non trovato' });
+    }
+
+    if (!allowedTvScenes(existing.content).includes(scene)) {
+      return res.status(400).json({ error: 'Scena non consentita dai contenuti dello schermo' });
+    }
+
+    // Sugli schermi "solo broadcast" la scena annuncio mostra l'ultimo broadcast anche senza testo
+    if (scene === 'announcement' && existing.content !== 'broadcasts' && !(text ?? existing.announcement)) {
+      return res.status(400).json({ error: 'Scrivi il testo dell\'annuncio' });
+    }
+
+    const screen = await prisma.tvScreen.update({
+      where: { id: existing.id },
+      data: {
+        scene,
+        rotationActive: false,
+        updatedBy: req.user!.firstName,
+        ...(text !== undefined ? { announcement: text || null } : {})
       }
     });
 
-    res.json({ success: true, message: 'Countdown avviato' });
+    publishTvState(screen);
+    res.json({ success: true, state: formatTvState(screen) });
   } catch (error) {
-    console.error('Error setting countdown:', error);
+    console.error('Error updating TV scene:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/admin/stop-countdown', requireAuth, requirePermission('manage_countdown'), async (req, res) => {
+// POST /api/admin/tv/screens/:key/rotation - Salva la rotazione dello schermo e la avvia o la ferma
+app.post('/api/admin/tv/screens/:key/rotation', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    await prisma.countdown.upsert({
-      where: { id: 1 },
-      create: { id: 1, active: false },
-      update: { active: false }
+    const existing = await findTvScreen(tvScreenParam(req));
+    if (!existing) {
+      return res.status(404).json({ error: 'Schermo non trovato' });
+    }
+
+    const validation = validateTvRotation(req.body.rotation, allowedTvScenes(existing.content));
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const active = Boolean(req.body.active);
+    const screen = await prisma.tvScreen.update({
+      where: { id: existing.id },
+      data: {
+        rotation: JSON.stringify(validation.rotation),
+        rotationActive: active,
+        rotationStartedAt: active ? new Date() : null,
+        updatedBy: req.user!.firstName
+      }
     });
 
-    res.json({ success: true, message: 'Countdown fermato' });
+    publishTvState(screen);
+    res.json({ success: true, state: formatTvState(screen) });
   } catch (error) {
-    console.error('Error stopping countdown:', error);
+    console.error('Error updating TV rotation:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// ============================================
-// TABLE STATS (Leaderboard)
-// ============================================
+// GET /api/admin/wall - Richieste per la bacheca del TV e messaggi approvati (PROTETTO - requirePermission manage_tv)
+// In attesa compaiono solo i messaggi già consegnati (superata l'eventuale pre-moderazione)
+app.get('/api/admin/wall', requireAuth, requirePermission('manage_tv'), async (req, res) => {
+  try {
+    const eventId = await currentEventId();
+    const [pending, approved] = await Promise.all([
+      prisma.message.findMany({
+        where: { eventId, status: 'approved', ...NOT_HIDDEN, wallStatus: 'pending' },
+        orderBy: { id: 'asc' }
+      }),
+      getWallMessages(eventId)
+    ]);
+
+    res.json({ pending: pending.map(formatWallMessage), approved });
+  } catch (error) {
+    console.error('Error fetching wall:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-app.get('/api/admin/table-stats', requireAuth, requirePermission('view_leaderboard'), async (req, res) => {
+// POST /api/admin/wall/:id/approve - Mostra il messaggio sulla bacheca del TV
+app.post('/api/admin/wall/:id/approve', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    const messages = await prisma.message.findMany({
-      where: {
-        fromTableId: { not: null },
-        isBroadcast: false
-      },
-      select: { fromTableId: true }
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const result = await prisma.message.updateMany({
+      where: { id: messageId, status: 'approved', ...NOT_HIDDEN, wallStatus: 'pending' },
+      data: { wallStatus: 'approved', wallModeratedAt: new Date(), wallModeratedBy: req.user!.firstName }
     });
-
-    // Conta messaggi per tavolo
-    const stats: Record<string, number> = {};
-    for (const msg of messages) {
-      if (msg.fromTableId) {
-        stats[msg.fromTableId] = (stats[msg.fromTableId] || 0) + 1;
-      }
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Messaggio non in attesa per la bacheca (già moderato?)' });
     }
 
-    // Converti in array e ordina
-    const leaderboard = Object.entries(stats)
-        .map(([tableId, count]) => ({ tableId, messageCount: count }))
-        .sort((a, b) => b.messageCount - a.messageCount)
-        .slice(0, 10);
-
-    res.json({ leaderboard });
+    await publishTvWall();
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error fetching table stats:', error);
+    console.error('Error approving wall message:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// ============================================
-// CHALLENGES (SFIDE)
-// ============================================
-
-// GET /api/challenges/active - Sfide attive (accessibile da tutti gli autenticati e giocatori)
-app.get('/api/challenges/active', async (req, res) => {
+// POST /api/admin/wall/:id/reject - Scarta la richiesta o toglie il messaggio dalla bacheca
+app.post('/api/admin/wall/:id/reject', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    // Auto-disattiva sfide scadute
-    await prisma.challenge.updateMany({
-      where: {
-        active: true,
-        endsAt: { lt: new Date() }
-      },
-      data: { active: false }
-    });
-
-    const challenges = await prisma.challenge.findMany({
-      where: { active: true },
-      orderBy: { startedAt: 'desc' }
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const result = await prisma.message.updateMany({
+      where: { id: messageId, wallStatus: { in: ['pending', 'approved'] } },
+      data: { wallStatus: 'rejected', wallPinnedAt: null, wallModeratedAt: new Date(), wallModeratedBy: req.user!.firstName }
     });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Messaggio non presente sulla bacheca' });
+    }
 
-    res.json({
-      challenges: challenges.map(c => ({
-        id: String(c.id),
-        title: c.title,
-        description: c.description,
-        type: c.type,
-        active: c.active,
-        badgeName: c.badgeName,
-        badgeEmoji: c.badgeEmoji,
-        startedAt: c.startedAt.toISOString(),
-        endsAt: c.endsAt.toISOString(),
-        winner: c.winner
-      }))
-    });
+    await publishTvWall();
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error fetching active challenges:', error);
+    console.error('Error rejecting wall message:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /api/admin/create-challenge - Crea nuova sfida (admin/staff con permesso)
-app.post('/api/admin/create-challenge', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+// POST /api/admin/wall/:id/pin - Fissa (pinned: true) o sblocca un messaggio in cima alla bacheca
+app.post('/api/admin/wall/:id/pin', requireAuth, requirePermission('manage_tv'), adminLimiter, async (req, res) => {
   try {
-    const { title, description, type, durationMinutes, badgeName, badgeEmoji } = req.body;
-
-    if (!title || !badgeName) {
-      return res.status(400).json({ error: 'Titolo e nome badge sono obbligatori' });
-    }
-
-    const duration = parseInt(durationMinutes);
-    if (isNaN(duration) || duration < 1 || duration > 60) {
-      return res.status(400).json({ error: 'Durata non valida (1-60 minuti)' });
-    }
+    const messageId = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const pinned = Boolean(req.body.pinned);
 
-    const validTypes = ['most_messages', 'most_reactions', 'speed'];
-    if (type && !validTypes.includes(type)) {
-      return res.status(400).json({ error: 'Tipo sfida non valido' });
+    const message = await prisma.message.findUnique({ where: { id: messageId }, select: { wallStatus: true, eventId: true } });
+    if (!message || message.wallStatus !== 'approved') {
+      return res.status(404).json({ error: 'Messaggio non presente sulla bacheca' });
     }
 
-    const now = new Date();
-    const endsAt = new Date(now.getTime() + duration * 60 * 1000);
-
-    const challenge = await prisma.challenge.create({
-      data: {
-        title: sanitizeInput(title),
-        description: sanitizeInput(description || ''),
-        type: type || 'most_messages',
-        badgeName: sanitizeInput(badgeName),
-        badgeEmoji: badgeEmoji || '🏆',
-        startedAt: now,
-        endsAt
-      }
+    // Un solo messaggio fissato per serata
+    await prisma.message.updateMany({
+      where: { eventId: message.eventId, wallPinnedAt: { not: null } },
+      data: { wallPinnedAt: null }
     });
+    if (pinned) {
+      await prisma.message.update({ where: { id: messageId }, data: { wallPinnedAt: new Date() } });
+    }
 
-    console.log(`✓ Sfida creata: "${challenge.title}" (${duration} min)`);
-
-    res.json({
-      id: String(challenge.id),
-      title: challenge.title,
-      description: challenge.description,
-      type: challenge.type,
-      active: challenge.active,
-      badgeName: challenge.badgeName,
-      badgeEmoji: challenge.badgeEmoji,
-      startedAt: challenge.startedAt.toISOString(),
-      endsAt: challenge.endsAt.toISOString()
-    });
+    await publishTvWall();
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error creating challenge:', error);
+    console.error('Error pinning wall message:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /api/admin/end-challenge/:id - Termina sfida manualmente (admin/staff con permesso)
-app.post('/api/admin/end-challenge/:id', requireAuth, requirePermission('manage_challenges'), async (req, res) => {
+// GET /api/tv/stream?screen= - Stream SSE di uno schermo: cambi scena ed eventi globali (token display in query string)
+app.get('/api/tv/stream', streamToken('display'), requireDisplay, async (req, res) => {
   try {
-    const challengeId = parseInt(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
-
-    if (isNaN(challengeId)) {
-      return res.status(400).json({ error: 'ID sfida non valido' });
+    const screen = await findTvScreen(requestedTvScreen(req));
+    if (!screen) {
+      return res.status(404).json({ error: 'Schermo non registrato' });
     }
 
-    const challenge = await prisma.challenge.findUnique({
-      where: { id: challengeId }
-    });
+    openStream(res, tvChannel(screen.key));
+  } catch (error) {
+    console.error('Error opening TV stream:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    if (!challenge) {
-      return res.status(404).json({ error: 'Sfida non trovata' });
+// GET /api/tv/snapshot?screen= - Tutto quello che mostra lo schermo in una sola richiesta (token display o staff)
+app.get('/api/tv/snapshot', requireDisplay, async (req, res) => {
+  try {
+    const screen = await findTvScreen(requestedTvScreen(req));
+    if (!screen) {
+      return res.status(404).json({ error: 'Schermo non registrato' });
     }
 
-    if (!challenge.active) {
-      return res.status(400).json({ error: 'Sfida già terminata' });
+    const eventId = await currentEventId();
+    const visible = { eventId, status: 'approved', ...NOT_HIDDEN };
+
+    const [leaderboard, broadcasts, wall, totalMessages, totalUsers, tableCount, reactions, challenges, latestResult, badges, countdown] = await Promise.all([
+      getLeaderboard(eventId, TV_LEADERBOARD_SIZE),
+      // Un broadcast è salvato una volta per tavolo: stesso contenuto = stesso annuncio
+      // (gli avvisi dello staff a un singolo tavolo restano privati)
+      prisma.message.findMany({
+        where: { ...visible, isBroadcast: true, isWarning: false },
+        orderBy: { id: 'desc' },
+        distinct: ['content'],
+        take: TV_BROADCAST_COUNT
+      }),
+      getWallMessages(eventId),
+      prisma.message.count({ where: { ...visible, isBroadcast: false } }),
+      prisma.user.count({ where: { eventId } }),
+      prisma.table.count(),
+      prisma.reaction.groupBy({
+        by: ['emoji'],
+        where: { message: { eventId } },
+        _count: { _all: true }
+      }),
+      prisma.challenge.findMany({ where: { active: true, eventId }, orderBy: { startedAt: 'desc' } }),
+      prisma.challenge.findFirst({
+        where: { active: false, endedAt: { not: null }, eventId },
+        orderBy: { endedAt: 'desc' }
+      }),
+      getTableBadges(),
+      prisma.countdown.findUnique({ where: { id: 1 } })
+    ]);
+
+    // Voti in diretta delle sfide a votazione (i più votati in cima)
+    const challengeVotes: Record<string, Awaited<ReturnType<typeof getChallengeSubmissions>>> = {};
+    for (const challenge of challenges) {
+      if (getChallengeEvaluator(challenge.type)?.judging !== 'vote') continue;
+      const submissions = await getChallengeSubmissions(challenge);
+      challengeVotes[challenge.id] = submissions.sort((a, b) => b.votes - a.votes).slice(0, TV_VOTE_TOP_COUNT);
     }
 
-    // Determina il vincitore basandosi sui messaggi inviati durante la sfida
-    let winner: string | null = null;
-
-    if (challenge.type === 'most_messages') {
-      const messages = await prisma.message.findMany({
-        where: {
-          timestamp: {
-            gte: challenge.startedAt,
-            lte: new Date()
-          },
-          fromTableId: { not: null }
-        }
-      });
-
-      const counts: Record<string, number> = {};
-      for (const msg of messages) {
-        if (msg.fromTableId) {
-          counts[msg.fromTableId] = (counts[msg.fromTableId] || 0) + 1;
-        }
-      }
-
-      const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
-      if (sorted.length > 0) {
-        winner = sorted[0][0];
-      }
-    } else if (challenge.type === 'most_reactions') {
-      const messages = await prisma.message.findMany({
-        where: {
-          timestamp: {
-            gte: challenge.startedAt,
-            lte: new Date()
-          },
-          fromTableId: { not: null }
-        }
-      });
-
-      const reactionCounts: Record<string, number> = {};
-      for (const msg of messages) {
-        if (msg.fromTableId) {
-          const total = msg.reactionsHeart + msg.reactionsThumbsup + msg.reactionsFire + msg.reactionsLaugh;
-          reactionCounts[msg.fromTableId] = (reactionCounts[msg.fromTableId] || 0) + total;
-        }
-      }
-
-      const sorted = Object.entries(reactionCounts).sort((a, b) => b[1] - a[1]);
-      if (sorted.length > 0) {
-        winner = sorted[0][0];
-      }
-    } else if (challenge.type === 'speed') {
-      // Per sfide di velocità: il primo tavolo che ha inviato un messaggio dopo l'inizio
-      const firstMessage = await prisma.message.findFirst({
-        where: {
-          timestamp: { gte: challenge.startedAt },
-          fromTableId: { not: null }
-        },
-        orderBy: { timestamp: 'asc' }
-      });
+    const topReaction = [...reactions].sort((a, b) => b._count._all - a._count._all)[0];
 
-      if (firstMessage && firstMessage.fromTableId) {
-        winner = firstMessage.fromTableId;
+    res.json({
+      leaderboard,
+      broadcasts: broadcasts.map(m => ({ id: m.id, content: m.content, timestamp: m.timestamp.toISOString() })),
+      wall,
+      stats: {
+        totalMessages,
+        totalUsers,
+        totalReactions: reactions.reduce((sum, row) => sum + row._count._all, 0),
+        topReaction: topReaction?.emoji ?? null,
+        activeTables: tableCount
+      },
+      challenges: challenges.map(formatChallenge),
+      challengeVotes,
+      latestResult: latestResult ? formatChallenge(latestResult) : null,
+      badges,
+      tv: formatTvState(screen),
+      countdown: {
+        active: countdown?.active || false,
+        endsAt: countdown?.endsAt?.toISOString(),
+        message: countdown?.message
       }
-    }
-
-    // Termina la sfida
-    await prisma.challenge.update({
-      where: { id: challengeId },
-      data: { active: false, winner }
     });
-
-    console.log(`✓ Sfida "${challenge.title}" terminata. Vincitore: ${winner || 'Nessuno'}`);
-
-    res.json({ success: true, winner });
   } catch (error) {
-    console.error('Error ending challenge:', error);
+    console.error('Error fetching TV snapshot:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -1719,16 +4377,35 @@ async function main() {
   // Inizializza i singleton se non esistono
   await prisma.gameSession.upsert({
     where: { id: 1 },
-    create: { id: 1, status: 'not_started' },
+    create: { id: 1 },
     update: {}
   });
 
+  // Crea la prima serata se non esiste e vi collega i dati precedenti agli eventi
+  const eventId = await currentEventId();
+  await prisma.message.updateMany({ where: { eventId: null }, data: { eventId } });
+  await prisma.user.updateMany({ where: { eventId: null }, data: { eventId } });
+  await prisma.challenge.updateMany({ where: { eventId: null }, data: { eventId } });
+  await prisma.scoreEntry.updateMany({ where: { eventId: null }, data: { eventId } });
+
   await prisma.countdown.upsert({
     where: { id: 1 },
     create: { id: 1, active: false },
     update: {}
   });
 
+  // Riprogramma la scadenza delle sfide ancora attive (es. dopo un riavvio)
+  const activeChallenges = await prisma.challenge.findMany({ where: { active: true } });
+  for (const challenge of activeChallenges) {
+    scheduleChallengeExpiry(challenge.id, challenge.endsAt);
+  }
+
+  // Controllo periodico della coda di moderazione (auto-approvazione)
+  setInterval(autoApprovePendingMessages, AUTO_APPROVE_CHECK_INTERVAL).unref();
+
+  // Controllo periodico della scaletta delle sfide
+  setInterval(runPlaylist, PLAYLIST_CHECK_INTERVAL).unref();
+
   app.listen(PORT, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════════╗
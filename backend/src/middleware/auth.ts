@@ -2,6 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { prisma } from '../index';
+import { hashDisplayToken, isDisplayToken } from '../utils/display-tokens';
+
+// Aggiornamento massimo di lastUsedAt dei token display (il TV interroga ogni pochi secondi)
+const DISPLAY_TOUCH_INTERVAL = 60 * 1000;
 
 // JWT Secret — generato dinamicamente se non configurato in .env
 const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(64).toString('hex');
@@ -14,10 +18,11 @@ if (!process.env.JWT_SECRET) {
 // Interfaccia per il payload JWT
 export interface JWTPayload {
     id: number;
-    role: 'admin' | 'staff';
+    role: 'admin' | 'staff' | 'player';
     firstName: string;
     lastName: string;
     tableCode?: string;
+    tableId?: string; // Tavolo del giocatore (solo ruolo player)
     permissions?: any;
 }
 
@@ -26,12 +31,13 @@ declare global {
     namespace Express {
         interface Request {
             user?: JWTPayload;
+            display?: { id: number; name: string }; // TV autenticato con token display
         }
     }
 }
 
 /**
- * Genera un JWT token per admin o staff
+ * Genera un JWT token per admin, staff o giocatore
  */
 export function generateToken(payload: JWTPayload): string {
     return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
@@ -44,23 +50,57 @@ export function verifyToken(token: string): JWTPayload {
     return jwt.verify(token, JWT_SECRET) as JWTPayload;
 }
 
+/**
+ * Estrae il token dall'header Authorization
+ */
+function extractToken(req: Request): string | null {
+    const authHeader = req.headers.authorization;
+
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+        return authHeader.substring(7); // Rimuove "Bearer "
+    }
+
+    return null;
+}
+
+/**
+ * Middleware: token in query string (?token=) per gli stream SSE, dove EventSource non può inviare header
+ * Solo sulle rotte stream: lo stream dei tavoli è riservato ai giocatori (requirePlayer),
+ * quello dei TV accetta in query solo token display. Un JWT admin/staff non deve finire negli URL
+ */
+export function streamToken(kind: 'player' | 'display') {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const token = req.query.token;
+
+        if (!req.headers.authorization && typeof token === 'string' && token) {
+            if (kind === 'display' && !isDisplayToken(token)) {
+                return res.status(401).json({
+                    error: 'Token display richiesto',
+                    code: 'DISPLAY_TOKEN_INVALID'
+                });
+            }
+            req.headers.authorization = `Bearer ${token}`;
+        }
+
+        next();
+    };
+}
+
 /**
  * Middleware: Richiede autenticazione JWT valida
  * Estrae il token da Authorization header e verifica validità
  */
 export async function requireAuth(req: Request, res: Response, next: NextFunction) {
     try {
-        const authHeader = req.headers.authorization;
+        const token = extractToken(req);
 
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        if (!token) {
             return res.status(401).json({
                 error: 'Autenticazione richiesta',
                 code: 'AUTH_REQUIRED'
             });
         }
 
-        const token = authHeader.substring(7); // Rimuove "Bearer "
-
         try {
             const decoded = verifyToken(token);
 
@@ -87,6 +127,18 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
                         code: 'ACCOUNT_DISABLED'
                     });
                 }
+            } else if (decoded.role === 'player') {
+                // Il tavolo potrebbe essere stato eliminato dopo il login
+                const table = decoded.tableId
+                    ? await prisma.table.findUnique({ where: { id: decoded.tableId } })
+                    : null;
+
+                if (!table) {
+                    return res.status(401).json({
+                        error: 'Tavolo non più esistente, effettua nuovamente il login',
+                        code: 'TABLE_NOT_FOUND'
+                    });
+                }
             }
 
             // Aggiungi user al request
@@ -154,6 +206,57 @@ export function requireAdminOrStaff(req: Request, res: Response, next: NextFunct
     next();
 }
 
+/**
+ * Espulsione ancora attiva per il giocatore (null se può entrare)
+ */
+export async function findActiveBan(tableId: string, firstName: string, lastName: string) {
+    return prisma.playerBan.findFirst({
+        where: { tableId, firstName, lastName, until: { gt: new Date() } },
+        orderBy: { until: 'desc' }
+    });
+}
+
+/**
+ * Risposta 403 per un giocatore espulso
+ * L'orario di fine lo formatta il client, nel fuso del dispositivo
+ */
+export function banResponse(until: Date) {
+    return { error: 'Sei stato allontanato dal tavolo dallo staff', code: 'BANNED', until: until.toISOString() };
+}
+
+/**
+ * Middleware: Richiede ruolo giocatore (token emesso con il codice tavolo)
+ * Un giocatore espulso viene respinto su tutte le rotte finché l'espulsione è attiva
+ * (il token resta valido fino alla scadenza)
+ */
+export async function requirePlayer(req: Request, res: Response, next: NextFunction) {
+    if (!req.user) {
+        return res.status(401).json({
+            error: 'Autenticazione richiesta',
+            code: 'AUTH_REQUIRED'
+        });
+    }
+
+    if (req.user.role !== 'player' || !req.user.tableId) {
+        return res.status(403).json({
+            error: 'Accesso riservato ai giocatori',
+            code: 'PLAYER_REQUIRED'
+        });
+    }
+
+    try {
+        const ban = await findActiveBan(req.user.tableId, req.user.firstName, req.user.lastName);
+        if (ban) {
+            return res.status(403).json(banResponse(ban.until));
+        }
+    } catch (error) {
+        console.error('Error in requirePlayer middleware:', error);
+        return res.status(500).json({ error: 'Errore interno del server' });
+    }
+
+    next();
+}
+
 /**
  * Middleware: Richiede permesso specifico staff
  * Se l'utente è admin, passa sempre
@@ -193,3 +296,38 @@ export function requirePermission(permission: string) {
         });
     };
 }
+
+/**
+ * Middleware: Richiede un token display (TV) oppure un admin/staff autenticato
+ * Il token display dà accesso solo alle rotte del TV in sola lettura
+ */
+export async function requireDisplay(req: Request, res: Response, next: NextFunction) {
+    const token = extractToken(req);
+
+    if (!token || !isDisplayToken(token)) {
+        return requireAuth(req, res, () => requireAdminOrStaff(req, res, next));
+    }
+
+    try {
+        const display = await prisma.displayToken.findUnique({
+            where: { tokenHash: hashDisplayToken(token) }
+        });
+
+        if (!display || display.revokedAt) {
+            return res.status(401).json({
+                error: 'Token display non valido o revocato',
+                code: 'DISPLAY_TOKEN_INVALID'
+            });
+        }
+
+        if (!display.lastUsedAt || Date.now() - display.lastUsedAt.getTime() > DISPLAY_TOUCH_INTERVAL) {
+            await prisma.displayToken.update({ where: { id: display.id }, data: { lastUsedAt: new Date() } });
+        }
+
+        req.display = { id: display.id, name: display.name };
+        next();
+    } catch (error) {
+        console.error('Error in requireDisplay middleware:', error);
+        return res.status(500).json({ error: 'Errore interno del server' });
+    }
+}
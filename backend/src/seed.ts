@@ -34,7 +34,7 @@ async function main() {
   await prisma.gameSession.upsert({
     where: { id: 1 },
     update: {},
-    create: { id: 1, status: 'not_started' }
+    create: { id: 1 }
   });
   console.log('  ✅ Game session initialized');
 
@@ -0,0 +1,447 @@
+/**
+ * Registro dei tipi di sfida
+ *
+ * Ogni tipo dichiara come si calcola il punteggio di un tavolo e quali parametri
+ * accetta: il form dell'AdminPanel si costruisce da questa descrizione, quindi per
+ * aggiungere un tipo basta registrarlo qui.
+ *
+ * I tipi con "judging" non contano i messaggi: i tavoli iscrivono un messaggio alla
+ * sfida e il vincitore lo sceglie lo staff (staff) o lo votano i tavoli (vote).
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { buildRanking, rankingWinners, type ChallengeResult, type TableScores, type TieBreakRule } from './challenges';
+import { containsTerm, normalizeTerm } from './content-filter';
+import { NOT_HIDDEN } from './moderation';
+
+export interface ChallengeParamDefinition {
+    key: string;
+    label: string;
+    type: 'number' | 'text';
+    required?: boolean;
+    default?: number | string;
+    min?: number;
+    max?: number;
+    maxLength?: number;
+    placeholder?: string;
+    secret?: boolean; // Non inviato ai giocatori (es. la parola segreta)
+}
+
+export type ChallengeParams = Record<string, number | string>;
+
+export interface ChallengeEvaluationContext {
+    challengeId: number;
+    startedAt: Date;
+    until: Date;
+    params: ChallengeParams;
+}
+
+export interface ChallengeEvaluator {
+    type: string;
+    label: string;
+    description: string;
+    metric: string;          // Cosa misura il punteggio
+    unit: string;            // Unità mostrata accanto al punteggio ("s" per i secondi)
+    order: 'asc' | 'desc';   // 'asc' quando vince il punteggio più basso
+    judging?: 'staff' | 'vote'; // Vincitore scelto dallo staff o votato dai tavoli tra i messaggi iscritti
+    params: ChallengeParamDefinition[];
+    score(context: ChallengeEvaluationContext): Promise<TableScores>;
+}
+
+const evaluators = new Map<string, ChallengeEvaluator>();
+
+export function registerChallengeEvaluator(evaluator: ChallengeEvaluator) {
+    evaluators.set(evaluator.type, evaluator);
+}
+
+export function getChallengeEvaluator(type: string): ChallengeEvaluator | undefined {
+    return evaluators.get(type);
+}
+
+/**
+ * Descrizione dei tipi registrati (senza la funzione di calcolo) per il form admin
+ */
+export function listChallengeEvaluators() {
+    return Array.from(evaluators.values()).map(({ score, ...descriptor }) => descriptor);
+}
+
+/**
+ * Valida i parametri inviati dall'admin applicando i default dichiarati
+ */
+export function validateChallengeParams(evaluator: ChallengeEvaluator, raw: unknown): { valid: boolean; error?: string; params?: ChallengeParams } {
+    const input = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const params: ChallengeParams = {};
+
+    for (const definition of evaluator.params) {
+        const value = input[definition.key];
+        const isEmpty = value === undefined || value === null || value === '';
+
+        if (isEmpty) {
+            if (definition.required) {
+                return { valid: false, error: `${definition.label} obbligatorio` };
+            }
+            if (definition.default !== undefined) params[definition.key] = definition.default;
+            continue;
+        }
+
+        if (definition.type === 'number') {
+            const number = Number(value);
+            if (!Number.isInteger(number)
+                || (definition.min !== undefined && number < definition.min)
+                || (definition.max !== undefined && number > definition.max)) {
+                return { valid: false, error: `${definition.label} non valido (${definition.min ?? ''}-${definition.max ?? ''})` };
+            }
+            params[definition.key] = number;
+        } else {
+            const text = String(value).trim();
+            if (definition.maxLength && text.length > definition.maxLength) {
+                return { valid: false, error: `${definition.label} troppo lungo (max ${definition.maxLength} caratteri)` };
+            }
+            if (definition.required && !text) {
+                return { valid: false, error: `${definition.label} obbligatorio` };
+            }
+            params[definition.key] = text;
+        }
+    }
+
+    return { valid: true, params };
+}
+
+/**
+ * Parametri visibili ai giocatori (senza quelli segreti)
+ */
+export function publicChallengeParams(type: string, params: ChallengeParams): ChallengeParams {
+    const evaluator = evaluators.get(type);
+    if (!evaluator) return {};
+
+    const visible: ChallengeParams = {};
+    for (const definition of evaluator.params) {
+        if (!definition.secret && params[definition.key] !== undefined) {
+            visible[definition.key] = params[definition.key];
+        }
+    }
+    return visible;
+}
+
+export function parseChallengeParams(paramsJson: string | null): ChallengeParams {
+    if (!paramsJson) return {};
+
+    try {
+        const parsed = JSON.parse(paramsJson);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+        console.error('Error parsing challenge params:', error);
+        return {};
+    }
+}
+
+/**
+ * Classifica di una sfida nell'intervallo [startedAt, until]
+ */
+export async function evaluateChallenge(
+    challenge: { id: number; type: string; startedAt: Date; params: string | null; tieBreak: string; extendedAt: Date | null },
+    until: Date
+): Promise<ChallengeResult> {
+    const evaluator = evaluators.get(challenge.type) ?? evaluators.get('most_messages')!;
+    const tieBreak = challenge.tieBreak as TieBreakRule;
+    const scores = await evaluator.score({
+        challengeId: challenge.id,
+        startedAt: challenge.startedAt,
+        until,
+        params: parseChallengeParams(challenge.params)
+    });
+    const ranking = buildRanking(scores, evaluator.order, tieBreak);
+
+    return {
+        metric: evaluator.metric,
+        unit: evaluator.unit,
+        tieBreak,
+        suddenDeath: challenge.extendedAt !== null,
+        winners: rankingWinners(ranking),
+        ranking,
+        evaluatedAt: new Date().toISOString()
+    };
+}
+
+// Messaggi inviati dai tavoli durante la sfida, approvati e non nascosti
+function sentDuring({ startedAt, until }: ChallengeEvaluationContext): Prisma.MessageWhereInput {
+    return {
+        timestamp: { gte: startedAt, lte: until },
+        fromTableId: { not: null },
+        status: 'approved',
+        ...NOT_HIDDEN
+    };
+}
+
+// Messaggi iscritti alla sfida (a giudizio o a votazione) e ancora visibili
+export function submittedTo(context: ChallengeEvaluationContext): Prisma.MessageWhereInput {
+    return { ...sentDuring(context), challengeId: context.challengeId };
+}
+
+function secondsSince(startedAt: Date, date: Date): number {
+    return Math.round((date.getTime() - startedAt.getTime()) / 100) / 10;
+}
+
+// Aggiunge un punto al tavolo: il punteggio è raggiunto con l'ultimo evento che lo fa crescere
+function addPoint(scores: TableScores, tableId: string, at: Date, points = 1) {
+    const current = scores[tableId];
+    if (current) {
+        current.score += points;
+        if (at > current.reachedAt) current.reachedAt = at;
+    } else {
+        scores[tableId] = { score: points, reachedAt: at };
+    }
+}
+
+// ==================== TIPI DI SFIDA ====================
+
+registerChallengeEvaluator({
+    type: 'most_messages',
+    label: 'Più Messaggi Inviati',
+    description: 'Vince il tavolo che invia più messaggi',
+    metric: 'messages',
+    unit: 'messaggi',
+    order: 'desc',
+    params: [],
+    async score(context) {
+        const counts = await prisma.message.groupBy({
+            by: ['fromTableId'],
+            where: sentDuring(context),
+            _count: { _all: true },
+            _max: { timestamp: true }
+        });
+
+        const scores: TableScores = {};
+        for (const row of counts) {
+            if (row.fromTableId && row._max.timestamp) {
+                scores[row.fromTableId] = { score: row._count._all, reachedAt: row._max.timestamp };
+            }
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'most_reactions',
+    label: 'Più Reazioni Ricevute',
+    description: 'Vince il tavolo i cui messaggi ricevono più reazioni',
+    metric: 'reactions',
+    unit: 'reazioni',
+    order: 'desc',
+    params: [],
+    async score(context) {
+        const reactions = await prisma.reaction.findMany({
+            where: { createdAt: { lte: context.until }, message: sentDuring(context) },
+            select: { createdAt: true, message: { select: { fromTableId: true } } }
+        });
+
+        const scores: TableScores = {};
+        for (const reaction of reactions) {
+            const fromTableId = reaction.message.fromTableId;
+            if (fromTableId) addPoint(scores, fromTableId, reaction.createdAt);
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'speed',
+    label: 'Velocità',
+    description: 'Vince il primo tavolo a raggiungere il numero di messaggi indicato',
+    metric: 'seconds',
+    unit: 's',
+    order: 'asc',
+    params: [
+        { key: 'targetMessages', label: 'Messaggi da inviare', type: 'number', default: 1, min: 1, max: 50 }
+    ],
+    async score(context) {
+        const target = Number(context.params.targetMessages) || 1;
+        const messages = await prisma.message.findMany({
+            where: sentDuring(context),
+            select: { fromTableId: true, timestamp: true },
+            orderBy: { timestamp: 'asc' }
+        });
+
+        // Secondi impiegati da ciascun tavolo per arrivare all'obiettivo
+        const counts: Record<string, number> = {};
+        const scores: TableScores = {};
+        for (const message of messages) {
+            const tableId = message.fromTableId!;
+            counts[tableId] = (counts[tableId] || 0) + 1;
+            if (counts[tableId] === target) {
+                scores[tableId] = { score: secondsSince(context.startedAt, message.timestamp), reachedAt: message.timestamp };
+            }
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'distinct_tables',
+    label: 'Più Tavoli Contattati',
+    description: 'Vince il tavolo che scrive al maggior numero di tavoli diversi',
+    metric: 'tables',
+    unit: 'tavoli',
+    order: 'desc',
+    params: [],
+    async score(context) {
+        // Il primo messaggio a ciascun tavolo è quello che conta
+        const pairs = await prisma.message.groupBy({
+            by: ['fromTableId', 'toTableId'],
+            where: { ...sentDuring(context), isBroadcast: false },
+            _min: { timestamp: true }
+        });
+
+        const scores: TableScores = {};
+        for (const pair of pairs) {
+            if (pair.fromTableId && pair.fromTableId !== pair.toTableId && pair._min.timestamp) {
+                addPoint(scores, pair.fromTableId, pair._min.timestamp);
+            }
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'keyword_hunt',
+    label: 'Caccia alla Parola',
+    description: 'Vince il primo tavolo che scrive la parola segreta in un messaggio',
+    metric: 'seconds',
+    unit: 's',
+    order: 'asc',
+    params: [
+        { key: 'keyword', label: 'Parola segreta', type: 'text', required: true, maxLength: 50, placeholder: 'Es: limoncello', secret: true }
+    ],
+    async score(context) {
+        // Stessa normalizzazione del filtro parole: maiuscole, accenti e leetspeak non contano
+        const keyword = String(context.params.keyword || '');
+        if (!normalizeTerm(keyword)) return {};
+
+        const messages = await prisma.message.findMany({
+            where: sentDuring(context),
+            select: { fromTableId: true, content: true, timestamp: true },
+            orderBy: { timestamp: 'asc' }
+        });
+
+        const scores: TableScores = {};
+        for (const message of messages) {
+            const tableId = message.fromTableId!;
+            if (scores[tableId]) continue;
+            if (containsTerm(message.content, keyword)) {
+                scores[tableId] = { score: secondsSince(context.startedAt, message.timestamp), reachedAt: message.timestamp };
+            }
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'most_replies',
+    label: 'Più Risposte Ricevute',
+    description: 'Vince il tavolo i cui messaggi ricevono più risposte',
+    metric: 'replies',
+    unit: 'risposte',
+    order: 'desc',
+    params: [],
+    async score(context) {
+        const replies = await prisma.message.findMany({
+            where: { ...sentDuring(context), replyToId: { not: null } },
+            select: { timestamp: true, replyTo: { select: { fromTableId: true } } }
+        });
+
+        const scores: TableScores = {};
+        for (const reply of replies) {
+            const tableId = reply.replyTo?.fromTableId;
+            if (tableId) addPoint(scores, tableId, reply.timestamp);
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'reaction_ratio',
+    label: 'Miglior Rapporto Reazioni/Messaggi',
+    description: 'Vince il tavolo con più reazioni per messaggio inviato',
+    metric: 'ratio',
+    unit: 'reazioni/msg',
+    order: 'desc',
+    params: [
+        { key: 'minMessages', label: 'Messaggi minimi per classificarsi', type: 'number', default: 3, min: 1, max: 50 }
+    ],
+    async score(context) {
+        const minMessages = Number(context.params.minMessages) || 1;
+        const messages = await prisma.message.findMany({
+            where: sentDuring(context),
+            select: { fromTableId: true, timestamp: true, _count: { select: { reactions: true } } }
+        });
+
+        const totals: Record<string, { messages: number; reactions: number; lastMessageAt: Date }> = {};
+        for (const message of messages) {
+            const total = totals[message.fromTableId!] ??= { messages: 0, reactions: 0, lastMessageAt: message.timestamp };
+            total.messages++;
+            total.reactions += message._count.reactions;
+            if (message.timestamp > total.lastMessageAt) total.lastMessageAt = message.timestamp;
+        }
+
+        const scores: TableScores = {};
+        for (const [tableId, total] of Object.entries(totals)) {
+            if (total.messages >= minMessages) {
+                scores[tableId] = {
+                    score: Math.round((total.reactions / total.messages) * 100) / 100,
+                    reachedAt: total.lastMessageAt
+                };
+            }
+        }
+        return scores;
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'judged',
+    label: 'Scelta dello Staff',
+    description: 'I tavoli iscrivono un messaggio alla sfida e lo staff sceglie il migliore',
+    metric: 'judged',
+    unit: 'voto staff',
+    order: 'desc',
+    judging: 'staff',
+    params: [],
+    async score(context) {
+        const challenge = await prisma.challenge.findUnique({
+            where: { id: context.challengeId },
+            select: { judgedMessageId: true }
+        });
+        if (!challenge?.judgedMessageId) return {};
+
+        const winner = await prisma.message.findFirst({
+            where: { ...submittedTo(context), id: challenge.judgedMessageId },
+            select: { fromTableId: true }
+        });
+        if (!winner?.fromTableId) return {};
+
+        return { [winner.fromTableId]: { score: 1, reachedAt: context.until } };
+    }
+});
+
+registerChallengeEvaluator({
+    type: 'vote',
+    label: 'Votazione dei Tavoli',
+    description: 'I tavoli iscrivono un messaggio alla sfida e votano il migliore (un voto per tavolo)',
+    metric: 'votes',
+    unit: 'voti',
+    order: 'desc',
+    judging: 'vote',
+    params: [],
+    async score(context) {
+        const votes = await prisma.challengeVote.findMany({
+            where: { challengeId: context.challengeId, createdAt: { lte: context.until }, message: submittedTo(context) },
+            select: { createdAt: true, message: { select: { fromTableId: true } } }
+        });
+
+        const scores: TableScores = {};
+        for (const vote of votes) {
+            addPoint(scores, vote.message.fromTableId!, vote.createdAt);
+        }
+        return scores;
+    }
+});
@@ -0,0 +1,100 @@
+/**
+ * Classifica e risultato (snapshot) delle sfide
+ *
+ * A pari punteggio decide la regola scelta alla creazione della sfida:
+ * - co_winners: tutti i tavoli a pari merito vincono
+ * - earliest: vince chi ha raggiunto per primo il punteggio
+ * - sudden_death: la sfida viene prolungata una volta di N minuti; se il pareggio
+ *   resta, vincono tutti i tavoli a pari merito
+ */
+
+export const TIE_BREAK_RULES = ['co_winners', 'earliest', 'sudden_death'] as const;
+export type TieBreakRule = typeof TIE_BREAK_RULES[number];
+
+export const MAX_SUDDEN_DEATH_MINUTES = 10;
+
+// Punteggio di un tavolo e momento in cui l'ha raggiunto
+export type TableScores = Record<string, { score: number; reachedAt: Date }>;
+
+export interface RankingEntry {
+    tableId: string;
+    score: number;
+    rank: number;      // A pari merito stessa posizione
+    reachedAt: string; // Quando il tavolo ha raggiunto il punteggio
+}
+
+export interface ChallengeResult {
+    metric: string;          // Cosa misura il punteggio (messages, reactions, seconds...)
+    unit: string;            // Unità mostrata accanto al punteggio
+    tieBreak: TieBreakRule;
+    suddenDeath: boolean;    // La sfida è stata prolungata per uno spareggio
+    winners: string[];       // Tavoli vincitori (più di uno se a pari merito)
+    ranking: RankingEntry[]; // Dal migliore al peggiore
+    evaluatedAt: string;
+}
+
+/**
+ * Valida la regola di spareggio inviata dall'admin
+ */
+export function validateTieBreak(tieBreak: unknown, minutes: unknown): { valid: boolean; error?: string; tieBreak?: TieBreakRule; suddenDeathMinutes?: number | null } {
+    const rule = tieBreak === undefined || tieBreak === null || tieBreak === '' ? 'co_winners' : tieBreak;
+    if (typeof rule !== 'string' || !TIE_BREAK_RULES.includes(rule as TieBreakRule)) {
+        return { valid: false, error: 'Regola di spareggio non valida (co_winners, earliest, sudden_death)' };
+    }
+
+    if (rule !== 'sudden_death') {
+        return { valid: true, tieBreak: rule as TieBreakRule, suddenDeathMinutes: null };
+    }
+
+    const value = Number(minutes);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_SUDDEN_DEATH_MINUTES) {
+        return { valid: false, error: `Durata spareggio non valida (1-${MAX_SUDDEN_DEATH_MINUTES} minuti)` };
+    }
+
+    return { valid: true, tieBreak: 'sudden_death', suddenDeathMinutes: value };
+}
+
+/**
+ * Costruisce la classifica dai punteggi per tavolo
+ * order = 'asc' quando vince il punteggio più basso (es. secondi per la sfida di velocità)
+ * Con earliest i pari merito vengono separati da chi ha raggiunto prima il punteggio.
+ */
+export function buildRanking(scores: TableScores, order: 'asc' | 'desc' = 'desc', tieBreak: TieBreakRule = 'co_winners'): RankingEntry[] {
+    const byTime = tieBreak === 'earliest';
+    const sorted = Object.entries(scores).sort(([tableA, a], [tableB, b]) =>
+        (order === 'desc' ? b.score - a.score : a.score - b.score)
+        || (byTime ? a.reachedAt.getTime() - b.reachedAt.getTime() : 0)
+        || tableA.localeCompare(tableB));
+
+    const ranking: RankingEntry[] = [];
+    sorted.forEach(([tableId, { score, reachedAt }], index) => {
+        const previous = ranking[index - 1];
+        const tied = previous && previous.score === score
+            && (!byTime || previous.reachedAt === reachedAt.toISOString());
+        ranking.push({ tableId, score, rank: tied ? previous.rank : index + 1, reachedAt: reachedAt.toISOString() });
+    });
+
+    return ranking;
+}
+
+/**
+ * Tavoli al primo posto
+ */
+export function rankingWinners(ranking: RankingEntry[]): string[] {
+    return ranking.filter(entry => entry.rank === 1).map(entry => entry.tableId);
+}
+
+/**
+ * Parsing sicuro dello snapshot salvato sulla sfida
+ */
+export function parseChallengeResult(resultJson: string | null): ChallengeResult | null {
+    if (!resultJson) return null;
+
+    try {
+        const parsed = JSON.parse(resultJson);
+        return parsed && Array.isArray(parsed.ranking) ? parsed as ChallengeResult : null;
+    } catch (error) {
+        console.error('Error parsing challenge result:', error);
+        return null;
+    }
+}
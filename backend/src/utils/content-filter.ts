@@ -0,0 +1,199 @@
+/**
+ * Filtro parole vietate configurabile dall'admin
+ *
+ * Ogni termine ha un'azione:
+ * - mask: il termine viene sostituito con asterischi
+ * - block: il messaggio viene rifiutato
+ * - flag: il messaggio viene consegnato ma segnalato allo staff
+ *
+ * Il confronto avviene su testo normalizzato (minuscolo, senza accenti, leetspeak
+ * tradotto), così "Str0nzzzo" e "strònzo" coincidono. Le doppie contano ("penne" non
+ * è "pene"): solo tre o più lettere uguali di fila valgono come singola o doppia.
+ * Un asterisco finale nel termine ("stronz*") accetta qualsiasi desinenza.
+ */
+
+export const BLOCKED_TERM_ACTIONS = ['mask', 'block', 'flag'] as const;
+export type BlockedTermAction = typeof BLOCKED_TERM_ACTIONS[number];
+
+export interface BlockedTermRule {
+    term: string;
+    action: string;
+}
+
+export interface ContentFilterResult {
+    content: string;        // Contenuto con i termini "mask" oscurati
+    blocked: boolean;       // Almeno un termine "block"
+    flagged: boolean;       // Almeno un termine "flag"
+    flaggedTerms: string[]; // Termini "flag" trovati (per lo staff)
+}
+
+const MAX_TERM_LENGTH = 50;
+
+// Sostituzioni leetspeak più comuni
+const LEET_MAP: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+    '@': 'a', '$': 's', '€': 'e'
+};
+
+/**
+ * Normalizza un singolo carattere: lettera minuscola senza accento, oppure spazio
+ */
+function normalizeChar(char: string): string {
+    const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const mapped = LEET_MAP[base] ?? base;
+    return /^[a-z]$/.test(mapped) ? mapped : ' ';
+}
+
+/**
+ * Testo normalizzato con, per ogni carattere, l'intervallo corrispondente nell'originale
+ * e quante volte la lettera era ripetuta (runs)
+ */
+function normalizeWithMap(text: string): { normalized: string; starts: number[]; ends: number[]; runs: number[] } {
+    let normalized = '';
+    const starts: number[] = [];
+    const ends: number[] = [];
+    const runs: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = normalizeChar(text[i]);
+
+        // Lettere (e spazi) ripetute diventano un carattere solo, ricordando la lunghezza: "caaazzo" → "cazo"
+        if (normalized.length > 0 && normalized[normalized.length - 1] === char) {
+            ends[ends.length - 1] = i + 1;
+            runs[runs.length - 1]++;
+            continue;
+        }
+
+        normalized += char;
+        starts.push(i);
+        ends.push(i + 1);
+        runs.push(1);
+    }
+
+    return { normalized, starts, ends, runs };
+}
+
+/**
+ * Una lettera del testo corrisponde a quella del termine se è doppia dove il termine
+ * è doppio e singola dove è singolo ("penne" non è "pene", "anno" non è "ano").
+ * Tre o più ripetizioni valgono sia come singola sia come doppia ("caaazzo" = "cazzo").
+ */
+function runMatches(textRun: number, termRun: number): boolean {
+    if (textRun >= 3) return true;
+    return Math.min(termRun, 2) === textRun;
+}
+
+/**
+ * Forma normalizzata di un termine (senza l'eventuale asterisco finale)
+ */
+export function normalizeTerm(term: string): string {
+    return normalizeWithMap(term.replace(/\*$/, '')).normalized.trim();
+}
+
+/**
+ * Termine normalizzato con le ripetizioni di ogni lettera (spazi iniziali e finali esclusi)
+ */
+function normalizeNeedle(term: string): { needle: string; runs: number[] } {
+    const { normalized, runs } = normalizeWithMap(term.replace(/\*$/, ''));
+    const start = normalized.length - normalized.trimStart().length;
+    const needle = normalized.trim();
+    return { needle, runs: runs.slice(start, start + needle.length) };
+}
+
+/**
+ * Occorrenze di un termine come parola intera (o inizio parola se il termine finisce con *):
+ * per ognuna il primo e l'ultimo carattere normalizzato coinvolti
+ */
+function findTerm(text: ReturnType<typeof normalizeWithMap>, term: string): Array<{ first: number; last: number }> {
+    const { needle, runs } = normalizeNeedle(term);
+    if (!needle) return [];
+
+    const isPrefix = term.endsWith('*');
+    const matches: Array<{ first: number; last: number }> = [];
+    let from = 0;
+    let index: number;
+
+    while ((index = text.normalized.indexOf(needle, from)) !== -1) {
+        from = index + 1;
+        let last = index + needle.length - 1;
+
+        if (index > 0 && text.normalized[index - 1] !== ' ') continue;
+
+        // Gli spazi non contano; con * l'ultima lettera può continuare nella desinenza
+        const runsMatch = runs.every((termRun, offset) => {
+            if (needle[offset] === ' ') return true;
+            const textRun = text.runs[index + offset];
+            if (isPrefix && offset === needle.length - 1) return textRun >= termRun || textRun >= 3;
+            return runMatches(textRun, termRun);
+        });
+        if (!runsMatch) continue;
+
+        if (isPrefix) {
+            while (last + 1 < text.normalized.length && text.normalized[last + 1] !== ' ') last++;
+        } else if (last + 1 < text.normalized.length && text.normalized[last + 1] !== ' ') {
+            continue;
+        }
+
+        matches.push({ first: index, last });
+    }
+
+    return matches;
+}
+
+/**
+ * Il testo contiene il termine come parola intera (stessa normalizzazione del filtro)
+ */
+export function containsTerm(content: string, term: string): boolean {
+    return findTerm(normalizeWithMap(content), term).length > 0;
+}
+
+/**
+ * Valida un termine inserito dall'admin
+ */
+export function validateBlockedTerm(term: unknown, action: unknown): { valid: boolean; error?: string; term?: string; action?: BlockedTermAction } {
+    if (typeof term !== 'string' || !term.trim()) {
+        return { valid: false, error: 'Termine obbligatorio' };
+    }
+
+    const value = term.trim().toLowerCase();
+    if (value.length > MAX_TERM_LENGTH) {
+        return { valid: false, error: `Termine troppo lungo (max ${MAX_TERM_LENGTH} caratteri)` };
+    }
+
+    if (normalizeTerm(value).length < 2) {
+        return { valid: false, error: 'Il termine deve contenere almeno 2 lettere' };
+    }
+
+    if (typeof action !== 'string' || !BLOCKED_TERM_ACTIONS.includes(action as BlockedTermAction)) {
+        return { valid: false, error: 'Azione non valida (mask, block, flag)' };
+    }
+
+    return { valid: true, term: value, action: action as BlockedTermAction };
+}
+
+/**
+ * Applica i termini vietati al contenuto di un messaggio
+ */
+export function applyContentFilter(content: string, rules: BlockedTermRule[]): ContentFilterResult {
+    const text = normalizeWithMap(content);
+    const chars = content.split('');
+    const result: ContentFilterResult = { content, blocked: false, flagged: false, flaggedTerms: [] };
+
+    for (const rule of rules) {
+        for (const { first, last } of findTerm(text, rule.term)) {
+            if (rule.action === 'block') {
+                result.blocked = true;
+            } else if (rule.action === 'flag') {
+                result.flagged = true;
+                if (!result.flaggedTerms.includes(rule.term)) result.flaggedTerms.push(rule.term);
+            } else {
+                for (let i = text.starts[first]; i < text.ends[last]; i++) {
+                    if (chars[i].trim()) chars[i] = '*';
+                }
+            }
+        }
+    }
+
+    result.content = chars.join('');
+    return result;
+}
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+/**
+ * Token dei display TV
+ *
+ * Un token display è una credenziale a lunga durata e di sola lettura: vale solo per
+ * gli endpoint del TV finché l'admin non lo revoca. Il prefisso lo distingue dai JWT,
+ * nel database viene salvato solo l'hash.
+ */
+
+export const DISPLAY_TOKEN_PREFIX = 'tv_';
+
+const MAX_DISPLAY_NAME_LENGTH = 50;
+
+export function generateDisplayToken(): string {
+    return DISPLAY_TOKEN_PREFIX + crypto.randomBytes(24).toString('base64url');
+}
+
+export function hashDisplayToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isDisplayToken(token: string): boolean {
+    return token.startsWith(DISPLAY_TOKEN_PREFIX);
+}
+
+/**
+ * Valida il nome del display inserito dall'admin
+ */
+export function validateDisplayName(name: unknown): { valid: boolean; error?: string; name?: string } {
+    if (typeof name !== 'string' || !name.trim()) {
+        return { valid: false, error: 'Nome del display obbligatorio' };
+    }
+
+    const value = name.trim();
+    if (value.length > MAX_DISPLAY_NAME_LENGTH) {
+        return { valid: false, error: `Nome troppo lungo (max ${MAX_DISPLAY_NAME_LENGTH} caratteri)` };
+    }
+
+    return { valid: true, name: value };
+}
@@ -0,0 +1,139 @@
+import { Response } from 'express';
+
+/**
+ * Tipi di evento inviati ai client tramite Server-Sent Events
+ */
+export type StreamEvent =
+    | 'message'          // Nuovo messaggio ricevuto dal tavolo
+    | 'message-moderated' // Messaggio inviato dal tavolo approvato o rifiutato dallo staff
+    | 'message-hidden'   // Messaggio ricevuto nascosto dallo staff
+    | 'reaction'         // Aggiornamento reazioni di un messaggio
+    | 'reaction-emojis'  // Lista emoji di reazione modificata dall'admin
+    | 'game-status'      // Cambio stato del gioco (start/pause/resume/end/reset)
+    | 'countdown'        // Countdown avviato o fermato
+    | 'challenge-start'  // Nuova sfida avviata
+    | 'challenge-end'    // Sfida terminata (manualmente o per scadenza)
+    | 'challenge-extended' // Sfida prolungata per uno spareggio
+    | 'challenge-votes'  // Nuova partecipazione o nuovo voto in una sfida a giudizio/votazione
+    | 'table-users'      // Utenti connessi al tavolo aggiornati
+    | 'badges'           // Nuovi badge assegnati ai vincitori di una sfida
+    | 'player-kicked'    // Giocatore del tavolo espulso dallo staff
+    | 'tv-scene'         // Scena o rotazione del TV cambiata dallo staff (solo TV)
+    | 'tv-wall'          // Bacheca del TV aggiornata: messaggio approvato, rimosso o fissato (solo TV)
+    | 'tv-celebration';  // Festeggiamento di una sfida conclusa riproposto dallo staff (solo TV)
+
+// Canale dello stream dei TV: riceve gli eventi globali e quelli destinati ai TV, mai quelli dei tavoli
+// Ogni schermo ha il suo sotto-canale (@tv:bar); un evento pubblicato su TV_CHANNEL arriva a tutti gli schermi
+export const TV_CHANNEL = '@tv';
+
+export function tvChannel(screen: string): string {
+    return `${TV_CHANNEL}:${screen}`;
+}
+
+interface StreamClient {
+    res: Response;
+    tableId: string;
+    player?: { firstName: string; lastName: string }; // Giocatore collegato (stream dei tavoli)
+}
+
+// Ping periodico per mantenere aperta la connessione attraverso proxy (nginx chiude dopo 60s)
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+const clients = new Set<StreamClient>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+function write(client: StreamClient, chunk: string) {
+    try {
+        client.res.write(chunk);
+    } catch (error) {
+        console.error('Error writing to stream client:', error);
+        clients.delete(client);
+    }
+}
+
+function startHeartbeat() {
+    if (heartbeatTimer) return;
+
+    heartbeatTimer = setInterval(() => {
+        for (const client of clients) {
+            write(client, ': ping\n\n');
+        }
+    }, HEARTBEAT_INTERVAL);
+    heartbeatTimer.unref();
+}
+
+function stopHeartbeat() {
+    if (heartbeatTimer && clients.size === 0) {
+        clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+    }
+}
+
+/**
+ * Apre uno stream SSE per un tavolo
+ * La connessione resta aperta finché il client non si disconnette
+ */
+export function openStream(res: Response, tableId: string, player?: { firstName: string; lastName: string }) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disabilita il buffering di nginx
+    });
+
+    const client: StreamClient = { res, tableId, player };
+    clients.add(client);
+    startHeartbeat();
+
+    // Il client riprova dopo 5 secondi se la connessione cade
+    write(client, 'retry: 5000\n\n');
+    write(client, `event: ready\ndata: ${JSON.stringify({ tableNumber: tableId })}\n\n`);
+
+    res.on('close', () => {
+        clients.delete(client);
+        stopHeartbeat();
+    });
+}
+
+/**
+ * Invia un evento ai client connessi
+ * Se tableId è specificato, l'evento arriva solo ai client di quel tavolo
+ */
+export function publish(event: StreamEvent, data: unknown, tableId?: string) {
+    const chunk = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    for (const client of clients) {
+        if (!tableId || client.tableId === tableId || (tableId === TV_CHANNEL && client.tableId.startsWith(`${TV_CHANNEL}:`))) {
+            write(client, chunk);
+        }
+    }
+}
+
+/**
+ * Chiude gli stream di un giocatore (es. espulso dallo staff)
+ * Gli eventi già pubblicati arrivano prima della chiusura; alla riconnessione il token viene respinto
+ */
+export function closePlayerStreams(tableId: string, firstName: string, lastName: string) {
+    for (const client of clients) {
+        if (client.tableId === tableId && client.player?.firstName === firstName && client.player.lastName === lastName) {
+            clients.delete(client);
+            client.res.end();
+        }
+    }
+    stopHeartbeat();
+}
+
+/**
+ * Connessioni aperte per schermo TV (chiave dello schermo → numero di TV collegati)
+ */
+export function tvScreenConnections(): Record<string, number> {
+    const connections: Record<string, number> = {};
+
+    for (const client of clients) {
+        if (!client.tableId.startsWith(`${TV_CHANNEL}:`)) continue;
+        const screen = client.tableId.slice(TV_CHANNEL.length + 1);
+        connections[screen] = (connections[screen] ?? 0) + 1;
+    }
+
+    return connections;
+}
@@ -0,0 +1,56 @@
+/**
+ * ID messaggio ordinabili nel tempo e parametri di paginazione a cursore
+ *
+ * Formato: msg_<timestamp ms, 13 cifre>_<contatore base36, 4 car.><random, 4 car.>
+ * L'ordine lessicografico degli ID coincide con l'ordine di creazione, quindi
+ * l'ID dell'ultimo messaggio ricevuto fa da cursore per la sincronizzazione incrementale.
+ */
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+let lastTimestamp = 0;
+let sequence = 0;
+
+/**
+ * Genera un nuovo ID messaggio, monotono anche se più messaggi nascono nello stesso millisecondo
+ */
+export function generateMessageId(): string {
+    // Se l'orologio torna indietro si resta sull'ultimo timestamp per non rompere l'ordine
+    const now = Math.max(Date.now(), lastTimestamp);
+
+    if (now === lastTimestamp) {
+        sequence++;
+    } else {
+        lastTimestamp = now;
+        sequence = 0;
+    }
+
+    const counter = sequence.toString(36).padStart(4, '0');
+    const random = Math.random().toString(36).substring(2, 6).padEnd(4, '0');
+
+    return `msg_${String(now).padStart(13, '0')}_${counter}${random}`;
+}
+
+export interface MessagePage {
+    since?: string;  // Solo messaggi più recenti di questo ID
+    from?: string;   // Messaggi da questo ID compreso (risincronizza la finestra già caricata)
+    before?: string; // Solo messaggi più vecchi di questo ID (caricamento a scorrimento)
+    limit: number;
+}
+
+/**
+ * Legge ?since=&from=&before=&limit= dalla query string
+ */
+export function parseMessagePage(query: Record<string, unknown>): MessagePage {
+    const since = typeof query.since === 'string' && query.since ? query.since : undefined;
+    const from = typeof query.from === 'string' && query.from ? query.from : undefined;
+    const before = typeof query.before === 'string' && query.before ? query.before : undefined;
+
+    const parsedLimit = parseInt(String(query.limit ?? ''));
+    const limit = isNaN(parsedLimit) || parsedLimit < 1
+        ? DEFAULT_PAGE_SIZE
+        : Math.min(parsedLimit, MAX_PAGE_SIZE);
+
+    return { since, from, before, limit };
+}
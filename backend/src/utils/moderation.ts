@@ -0,0 +1,16 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Messaggi nascosti dallo staff
+ *
+ * I campi hidden* restano anche dopo il ripristino (storico della moderazione):
+ * un messaggio è nascosto se ha hiddenAt e non è stato ripristinato dopo.
+ * Ogni nuova rimozione azzera restoredAt.
+ */
+export const HIDDEN: Prisma.MessageWhereInput = { hiddenAt: { not: null }, restoredAt: null };
+
+export const NOT_HIDDEN: Prisma.MessageWhereInput = { NOT: HIDDEN };
+
+export function isHidden(message: { hiddenAt: Date | null; restoredAt: Date | null }): boolean {
+    return message.hiddenAt !== null && message.restoredAt === null;
+}
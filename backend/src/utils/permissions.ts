@@ -11,6 +11,7 @@ export interface StaffPermissions {
     manage_challenges: boolean;    // Gestione sfide
     manage_tv: boolean;            // Controllo TV display
     manage_game_state: boolean;    // Controllo stato gioco (start/pause/end)
+    moderate_messages: boolean;    // Approva/rifiuta messaggi in pre-moderazione
 }
 
 /**
@@ -26,6 +27,7 @@ export const DEFAULT_PERMISSIONS: StaffPermissions = {
     manage_challenges: false,
     manage_tv: false,
     manage_game_state: false,
+    moderate_messages: false,
 };
 
 /**
@@ -97,4 +99,5 @@ export const PERMISSION_LABELS: Record<keyof StaffPermissions, string> = {
     manage_challenges: 'Gestione Sfide',
     manage_tv: 'Controllo TV Display',
     manage_game_state: 'Controllo Stato Gioco',
+    moderate_messages: 'Moderazione Messaggi',
 };
@@ -0,0 +1,45 @@
+/**
+ * Scaletta delle sfide della serata
+ *
+ * Ogni elemento parte a un orario relativo all'inizio del gioco (offset in minuti),
+ * contando solo il tempo di gioco effettivo: le pause spostano in avanti tutta la
+ * scaletta. Lo staff può ritardare un elemento (delayMinutes) o saltarlo.
+ */
+
+export const PLAYLIST_ITEM_STATUSES = ['pending', 'launched', 'skipped'] as const;
+export type PlaylistItemStatus = typeof PLAYLIST_ITEM_STATUSES[number];
+
+export const MAX_PLAYLIST_OFFSET_MINUTES = 600;
+export const MAX_PLAYLIST_DELAY_MINUTES = 120;
+
+/**
+ * Secondi di gioco effettivo dall'avvio, escluse le pause (null se il gioco non è partito)
+ */
+export function elapsedPlaySeconds(
+    session: { startedAt: Date | null; pausedAt: Date | null; pausedSeconds: number },
+    now: Date = new Date()
+): number | null {
+    if (!session.startedAt) return null;
+
+    const end = session.pausedAt ?? now;
+    const seconds = (end.getTime() - session.startedAt.getTime()) / 1000 - session.pausedSeconds;
+    return Math.max(0, Math.floor(seconds));
+}
+
+/**
+ * Secondo di gioco in cui l'elemento deve partire
+ */
+export function playlistItemStartSecond(item: { offsetMinutes: number; delayMinutes: number }): number {
+    return (item.offsetMinutes + item.delayMinutes) * 60;
+}
+
+/**
+ * Valida l'offset di partenza inviato dall'admin
+ */
+export function validatePlaylistOffset(offsetMinutes: unknown): { valid: boolean; error?: string; offsetMinutes?: number } {
+    const value = Number(offsetMinutes);
+    if (!Number.isInteger(value) || value < 0 || value > MAX_PLAYLIST_OFFSET_MINUTES) {
+        return { valid: false, error: `Orario di partenza non valido (0-${MAX_PLAYLIST_OFFSET_MINUTES} minuti dall'inizio)` };
+    }
+    return { valid: true, offsetMinutes: value };
+}
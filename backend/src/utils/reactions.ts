@@ -0,0 +1,92 @@
+/**
+ * Emoji di reazione disponibili di default (configurabili dall'admin per evento)
+ */
+export const DEFAULT_REACTION_EMOJIS = ['❤️', '👍', '🔥', '😂'];
+
+// Limiti della lista configurabile
+const MAX_REACTION_EMOJIS = 8;
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * Parsing sicuro della lista emoji da JSON
+ */
+export function parseReactionEmojis(emojisJson: string): string[] {
+    try {
+        const parsed = JSON.parse(emojisJson);
+        if (Array.isArray(parsed) && parsed.length > 0) {
+            return parsed.filter((e): e is string => typeof e === 'string');
+        }
+        return DEFAULT_REACTION_EMOJIS;
+    } catch (error) {
+        console.error('Error parsing reaction emojis:', error);
+        return DEFAULT_REACTION_EMOJIS;
+    }
+}
+
+/**
+ * Valida la lista di emoji impostata dall'admin
+ * Rimuove spazi e duplicati, senza cambiare l'ordine scelto
+ */
+export function validateReactionEmojis(emojis: unknown): { valid: boolean; error?: string; emojis?: string[] } {
+    if (!Array.isArray(emojis) || emojis.length === 0) {
+        return { valid: false, error: 'Serve almeno una emoji' };
+    }
+
+    const cleaned: string[] = [];
+    for (const emoji of emojis) {
+        if (typeof emoji !== 'string' || !emoji.trim()) {
+            return { valid: false, error: 'Emoji non valida' };
+        }
+
+        const value = emoji.trim();
+        // Niente testo libero: solo simboli (niente lettere, numeri o markup)
+        if (value.length > MAX_EMOJI_LENGTH || /[\p{L}\p{N}<>]/u.test(value)) {
+            return { valid: false, error: `Emoji non valida: ${value}` };
+        }
+
+        if (!cleaned.includes(value)) {
+            cleaned.push(value);
+        }
+    }
+
+    if (cleaned.length > MAX_REACTION_EMOJIS) {
+        return { valid: false, error: `Massimo ${MAX_REACTION_EMOJIS} emoji` };
+    }
+
+    return { valid: true, emojis: cleaned };
+}
+
+/**
+ * Giocatore che reagisce: tavolo e nome come nel token (l'id utente cambia se la riga viene ricreata)
+ */
+export interface ReactionPlayer {
+    tableId?: string;
+    firstName: string;
+    lastName: string;
+}
+
+/**
+ * Riassume le reazioni di un messaggio: conteggio per emoji
+ * e, se indicato il giocatore, le emoji con cui ha già reagito
+ */
+export function summarizeReactions(
+    reactions: Array<{ emoji: string } & ReactionPlayer>,
+    viewer?: ReactionPlayer
+): { reactions: Record<string, number>; myReactions: string[] } {
+    const counts: Record<string, number> = {};
+    const myReactions: string[] = [];
+
+    for (const reaction of reactions) {
+        counts[reaction.emoji] = (counts[reaction.emoji] || 0) + 1;
+        if (
+            viewer &&
+            reaction.tableId === viewer.tableId &&
+            reaction.firstName === viewer.firstName &&
+            reaction.lastName === viewer.lastName
+        ) {
+            myReactions.push(reaction.emoji);
+        }
+    }
+
+    return { reactions: counts, myReactions };
+}
@@ -0,0 +1,48 @@
+/**
+ * Motivi di segnalazione disponibili ai giocatori
+ */
+export const REPORT_REASONS: Record<string, string> = {
+    harassment: 'Molestie',
+    offensive: 'Linguaggio offensivo',
+    spam: 'Spam',
+    other: 'Altro'
+};
+
+// Azioni dello staff su una segnalazione (resolve chiude la segnalazione)
+export const REPORT_ACTIONS = ['hide', 'warn', 'mute', 'resolve'] as const;
+export type ReportAction = typeof REPORT_ACTIONS[number];
+
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Valida motivo e nota di una segnalazione
+ */
+export function validateReport(reason: unknown, note: unknown): { valid: boolean; error?: string; reason?: string; note?: string } {
+    if (typeof reason !== 'string' || !Object.hasOwn(REPORT_REASONS, reason)) {
+        return { valid: false, error: 'Motivo della segnalazione non valido' };
+    }
+
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+        return { valid: false, error: 'Nota non valida' };
+    }
+
+    const cleanedNote = typeof note === 'string' ? note.trim() : '';
+    if (cleanedNote.length > MAX_NOTE_LENGTH) {
+        return { valid: false, error: `Nota troppo lunga (max ${MAX_NOTE_LENGTH} caratteri)` };
+    }
+
+    return { valid: true, reason, note: cleanedNote || undefined };
+}
+
+/**
+ * Parsing sicuro della lista azioni già prese su una segnalazione
+ */
+export function parseReportActions(actionsJson: string): string[] {
+    try {
+        const parsed = JSON.parse(actionsJson);
+        return Array.isArray(parsed) ? parsed.filter((a): a is string => typeof a === 'string') : [];
+    } catch (error) {
+        console.error('Error parsing report actions:', error);
+        return [];
+    }
+}
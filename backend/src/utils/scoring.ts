@@ -0,0 +1,99 @@
+/**
+ * Motore punti: pesi configurabili dall'admin
+ *
+ * Ogni evento che vale punti (o li toglie) scrive una riga nel registro punti del
+ * tavolo con i punti calcolati al momento: la classifica è la somma del registro,
+ * e cambiare i pesi vale solo per gli eventi successivi.
+ */
+
+export interface ScoringRule {
+    key: string;
+    label: string;
+    penalty: boolean; // Il peso viene sottratto
+    default: number;
+}
+
+export const SCORING_RULES = [
+    { key: 'message_sent', label: 'Messaggio inviato', penalty: false, default: 1 },
+    { key: 'reaction_received', label: 'Reazione ricevuta', penalty: false, default: 2 },
+    { key: 'challenge_won', label: 'Sfida vinta', penalty: false, default: 10 },
+    { key: 'badge_awarded', label: 'Badge ottenuto', penalty: false, default: 5 },
+    { key: 'message_rejected', label: 'Messaggio rifiutato dallo staff', penalty: true, default: 3 },
+    { key: 'message_hidden', label: 'Messaggio rimosso dallo staff', penalty: true, default: 5 }
+] as const satisfies readonly ScoringRule[];
+
+export type ScoringRuleKey = typeof SCORING_RULES[number]['key'];
+export type ScoringWeights = Record<ScoringRuleKey, number>;
+
+// Voci del registro che annullano una voce precedente (non hanno un peso proprio)
+export const SCORE_REVERSALS = {
+    reaction_removed: 'Reazione tolta',
+    penalty_reverted: 'Messaggio ripristinato'
+} as const;
+
+export type ScoreReason = ScoringRuleKey | keyof typeof SCORE_REVERSALS;
+
+const MAX_WEIGHT = 100;
+
+export const DEFAULT_SCORING_WEIGHTS = Object.fromEntries(
+    SCORING_RULES.map(rule => [rule.key, rule.default])
+) as ScoringWeights;
+
+/**
+ * Etichetta leggibile di una voce del registro
+ */
+export function scoreReasonLabel(reason: string): string {
+    const rule = SCORING_RULES.find(r => r.key === reason);
+    if (rule) return rule.label;
+    return SCORE_REVERSALS[reason as keyof typeof SCORE_REVERSALS] ?? reason;
+}
+
+/**
+ * Punti di una voce con i pesi correnti (negativi per le penalità)
+ */
+export function pointsFor(weights: ScoringWeights, key: ScoringRuleKey): number {
+    const rule = SCORING_RULES.find(r => r.key === key)!;
+    return rule.penalty ? -weights[key] : weights[key];
+}
+
+/**
+ * Parsing sicuro dei pesi salvati (i mancanti prendono il valore predefinito)
+ */
+export function parseScoringWeights(weightsJson: string | null): ScoringWeights {
+    const weights = { ...DEFAULT_SCORING_WEIGHTS };
+    if (!weightsJson) return weights;
+
+    try {
+        const parsed = JSON.parse(weightsJson);
+        for (const rule of SCORING_RULES) {
+            if (Number.isInteger(parsed?.[rule.key])) weights[rule.key] = parsed[rule.key];
+        }
+    } catch (error) {
+        console.error('Error parsing scoring weights:', error);
+    }
+    return weights;
+}
+
+/**
+ * Valida i pesi inviati dall'admin (interi da 0 a MAX_WEIGHT, 0 = voce disattivata)
+ * Le voci non inviate mantengono il peso attuale
+ */
+export function validateScoringWeights(input: unknown, current: ScoringWeights): { valid: boolean; error?: string; weights?: ScoringWeights } {
+    if (!input || typeof input !== 'object') {
+        return { valid: false, error: 'Pesi mancanti' };
+    }
+
+    const weights = { ...current };
+    for (const rule of SCORING_RULES) {
+        const value = (input as Record<string, unknown>)[rule.key];
+        if (value === undefined) continue;
+
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < 0 || number > MAX_WEIGHT) {
+            return { valid: false, error: `Peso non valido per "${rule.label}" (0-${MAX_WEIGHT})` };
+        }
+        weights[rule.key] = number;
+    }
+
+    return { valid: true, weights };
+}
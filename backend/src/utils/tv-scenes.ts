@@ -0,0 +1,149 @@
+/**
+ * Schermi e scene del TV Display
+ *
+ * Ogni schermo (?tv=bar) ha la sua scena: lo staff con manage_tv sceglie una scena fissa
+ * oppure una rotazione, una lista di scene con la loro durata in secondi ripetuta a ciclo
+ * dal momento in cui parte. La scena corrente della rotazione la calcola il TV, così non
+ * serve un timer sul server. Il filtro contenuti limita le scene che lo schermo può mostrare.
+ */
+
+export const TV_SCENES = [
+    { key: 'overview', label: 'Panoramica' },
+    { key: 'leaderboard', label: 'Classifica' },
+    { key: 'wall', label: 'Bacheca messaggi' },
+    { key: 'challenge', label: 'Sfida in primo piano' },
+    { key: 'countdown', label: 'Countdown a schermo intero' },
+    { key: 'announcement', label: 'Annuncio' },
+    { key: 'podium', label: 'Podio' }
+] as const;
+
+export type TvScene = typeof TV_SCENES[number]['key'];
+
+export const TV_THEMES = [
+    { key: 'default', label: 'Festa' },
+    { key: 'dark', label: 'Scuro' },
+    { key: 'sunset', label: 'Tramonto' }
+] as const;
+
+export const TV_CONTENT_FILTERS = [
+    { key: 'all', label: 'Tutto', scenes: TV_SCENES.map(scene => scene.key) },
+    { key: 'broadcasts', label: 'Solo broadcast', scenes: ['announcement'] },
+    { key: 'leaderboard', label: 'Solo classifica', scenes: ['leaderboard', 'podium'] }
+] as const;
+
+export type TvContentFilter = typeof TV_CONTENT_FILTERS[number]['key'];
+
+// Schermo del semplice ?tv
+export const MAIN_TV_SCREEN = 'main';
+
+export interface TvRotationStep {
+    scene: TvScene;
+    seconds: number;
+}
+
+export const MIN_SCENE_SECONDS = 5;
+export const MAX_SCENE_SECONDS = 600;
+export const MAX_ROTATION_STEPS = 12;
+export const MAX_ANNOUNCEMENT_LENGTH = 200;
+
+const TV_SCREEN_KEY_PATTERN = /^[a-z0-9-]{1,20}$/;
+const MAX_SCREEN_NAME_LENGTH = 50;
+
+export function isTvScene(scene: unknown): scene is TvScene {
+    return typeof scene === 'string' && TV_SCENES.some(option => option.key === scene);
+}
+
+// Scene consentite dal filtro contenuti dello schermo
+export function allowedTvScenes(content: string): readonly TvScene[] {
+    return (TV_CONTENT_FILTERS.find(filter => filter.key === content) ?? TV_CONTENT_FILTERS[0]).scenes;
+}
+
+/**
+ * Valida nome nel link, nome visibile, tema e filtro contenuti di uno schermo
+ * Con partial i campi assenti non vengono controllati (modifica di uno schermo esistente)
+ */
+export function validateTvScreen(input: { key?: unknown; name?: unknown; theme?: unknown; content?: unknown }, partial = false): { valid: boolean; error?: string; key?: string; name?: string; theme?: string; content?: TvContentFilter } {
+    const result: { valid: boolean; key?: string; name?: string; theme?: string; content?: TvContentFilter } = { valid: true };
+
+    if (!partial || input.key !== undefined) {
+        const key = typeof input.key === 'string' ? input.key.trim().toLowerCase() : '';
+        if (!TV_SCREEN_KEY_PATTERN.test(key)) {
+            return { valid: false, error: 'Nome nel link non valido (1-20 caratteri: lettere minuscole, numeri, trattini)' };
+        }
+        result.key = key;
+    }
+
+    if (!partial || input.name !== undefined) {
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!name || name.length > MAX_SCREEN_NAME_LENGTH) {
+            return { valid: false, error: `Nome dello schermo obbligatorio (max ${MAX_SCREEN_NAME_LENGTH} caratteri)` };
+        }
+        result.name = name;
+    }
+
+    if (input.theme !== undefined) {
+        if (!TV_THEMES.some(theme => theme.key === input.theme)) {
+            return { valid: false, error: 'Tema non valido' };
+        }
+        result.theme = input.theme as string;
+    }
+
+    if (input.content !== undefined) {
+        if (!TV_CONTENT_FILTERS.some(filter => filter.key === input.content)) {
+            return { valid: false, error: 'Filtro contenuti non valido' };
+        }
+        result.content = input.content as TvContentFilter;
+    }
+
+    return result;
+}
+
+/**
+ * Valida la rotazione inviata dallo staff (solo scene consentite dallo schermo)
+ */
+export function validateTvRotation(rotation: unknown, allowed: readonly TvScene[] = allowedTvScenes('all')): { valid: boolean; error?: string; rotation?: TvRotationStep[] } {
+    if (!Array.isArray(rotation) || rotation.length === 0) {
+        return { valid: false, error: 'La rotazione deve contenere almeno una scena' };
+    }
+
+    if (rotation.length > MAX_ROTATION_STEPS) {
+        return { valid: false, error: `Massimo ${MAX_ROTATION_STEPS} scene in rotazione` };
+    }
+
+    const steps: TvRotationStep[] = [];
+    for (const step of rotation) {
+        if (!step || !isTvScene(step.scene)) {
+            return { valid: false, error: 'Scena non valida nella rotazione' };
+        }
+
+        if (!allowed.includes(step.scene)) {
+            return { valid: false, error: 'Scena non consentita dai contenuti dello schermo' };
+        }
+
+        const seconds = Number(step.seconds);
+        if (!Number.isInteger(seconds) || seconds < MIN_SCENE_SECONDS || seconds > MAX_SCENE_SECONDS) {
+            return { valid: false, error: `Durata non valida (${MIN_SCENE_SECONDS}-${MAX_SCENE_SECONDS} secondi)` };
+        }
+
+        steps.push({ scene: step.scene, seconds });
+    }
+
+    return { valid: true, rotation: steps };
+}
+
+/**
+ * Parsing sicuro della rotazione salvata (le scene non più esistenti vengono scartate)
+ */
+export function parseTvRotation(rotationJson: string | null): TvRotationStep[] {
+    if (!rotationJson) return [];
+
+    try {
+        const parsed = JSON.parse(rotationJson);
+        return Array.isArray(parsed)
+            ? parsed.filter((step): step is TvRotationStep => isTvScene(step?.scene) && Number.isInteger(step?.seconds) && step.seconds > 0)
+            : [];
+    } catch (error) {
+        console.error('Error parsing TV rotation:', error);
+        return [];
+    }
+}
@@ -1,13 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { LoginForm } from './components/login-form';
 import { MessageBoard } from './components/message-board';
-import { ComposeMessage } from './components/compose-message';
+import { ComposeMessage, type ReplyTarget } from './components/compose-message';
 import { AdminPanel } from './components/admin-panel';
 import { TVDisplay } from './components/tv-display';
 import AdminSetup from './components/admin-setup';
 import { toast } from 'sonner@2.0.3';
 import { Toaster } from './components/ui/sonner';
-import { fetchWithRetry, buildApiUrl, getApiHeaders } from './utils/api-helper';
+import { fetchWithRetry, buildApiUrl, getApiHeaders, apiErrorMessage } from './utils/api-helper';
+import { useGameStream, useStreamEvent } from './utils/game-stream';
+import { mergeMessages, messagePageQuery } from './utils/message-cursor';
 
 interface Message {
   id: string;
@@ -19,12 +21,12 @@ interface Message {
   timestamp: Date;
   isAnonymous: boolean;
   isBroadcast?: boolean; // Broadcast message from admin
-  reactions?: {
-    heart: number;
-    thumbsup: number;
-    fire: number;
-    laugh: number;
-  };
+  reactions?: Record<string, number>; // Conteggio per emoji
+  myReactions?: string[]; // Emoji con cui il giocatore ha reagito
+  replyToId?: string | null;
+  threadId?: string | null; // Conversazione a cui appartiene una risposta
+  addressedTo?: string | null; // Risposta rivolta a chi aveva scritto il messaggio originale
+  replyTo?: { id: string; content: string | null; fromTable: string | null } | null;
 }
 
 interface User {
@@ -49,8 +51,15 @@ export default function App() {
   const [currentState, setCurrentState] = useState<AppState>(checkTVMode() ? 'tv-display' : 'checking-setup');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [allMessages, setAllMessages] = useState<Message[]>([]);
-  const [gameStatus, setGameStatus] = useState<{ status: string; startedAt?: string; pausedAt?: string }>({ status: 'not_started' });
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  // Cursore: ID del messaggio più recente ricevuto (null = nessun messaggio caricato)
+  const newestMessageIdRef = useRef<string | null>(null);
+  const oldestMessageIdRef = useRef<string | null>(null); // Inizio della finestra di messaggi caricata
+  const loadedMessageIdsRef = useRef<Set<string>>(new Set()); // Messaggi già in lista (per ignorare i doppioni dello stream)
+  const [gameStatus, setGameStatus] = useState<{ status: string; startedAt?: string; pausedAt?: string; slowModeSeconds?: number }>({ status: 'not_started' });
   const [availableTables, setAvailableTables] = useState<string[]>([]);
+  const [replyTarget, setReplyTarget] = useState<ReplyTarget | null>(null); // Messaggio a cui si sta rispondendo
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
 
@@ -75,46 +84,110 @@ export default function App() {
   // Fetch messages for current table
   const fetchMessages = async (tableNumber: number | string) => {
     try {
-      const response = await fetchWithRetry(
-          buildApiUrl(`messages/${tableNumber}`),
-          { headers: getApiHeaders() }
-      );
+      // Prima volta: ultima pagina. Poi tutta la finestra già caricata, pagina per pagina:
+      // senza stream è l'unico modo di vedere reazioni aggiornate, messaggi nascosti e ripristinati
+      const isFirstLoad = newestMessageIdRef.current === null;
+      const previousNewest = newestMessageIdRef.current;
+      const windowStart = oldestMessageIdRef.current;
+      const received: Message[] = [];
+      let hasMore = true;
+      let complete = false;
+
+      while (hasMore) {
+        const cursor = received.length > 0
+            ? { since: received[received.length - 1].id }
+            : windowStart ? { from: windowStart } : { since: newestMessageIdRef.current };
+        const response = await fetchWithRetry(
+            buildApiUrl(`messages/${tableNumber}${messagePageQuery({ ...cursor, limit: 100 })}`),
+            { headers: getApiHeaders() }
+        );
+
+        if (response.status === 401) {
+          // Token giocatore scaduto o tavolo rimosso: serve un nuovo login
+          toast.error('Sessione scaduta. Effettua nuovamente il login.');
+          await handleLogout(false);
+          return;
+        }
+
+        if (!response.ok) {
+          console.error('Error fetching messages:', response.status);
+          // Non mostrare toast ad ogni errore di polling, solo in console
+          break;
+        }
 
-      if (response.ok) {
         const data = await response.json();
-        const messagesWithDates = data.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-
-        // Controlla se ci sono nuovi messaggi e mostra notifica
-        if (messagesWithDates.length > allMessages.length && allMessages.length > 0) {
-          const newMessagesCount = messagesWithDates.length - allMessages.length;
-
-          // Mostra notifica con suono e vibrazione
-          showNotification('Nuovo messaggio!', `Hai ricevuto ${newMessagesCount} nuovo${newMessagesCount > 1 ? 'i' : ''} messaggio${newMessagesCount > 1 ? 'i' : ''}!`);
-
-          // Mostra anche toast visivo in-app (sempre visibile anche senza permessi)
-          toast.success('📬 Nuovo messaggio ricevuto!', {
-            description: `${newMessagesCount} nuovo${newMessagesCount > 1 ? 'i' : ''} messaggio${newMessagesCount > 1 ? 'i' : ''}`,
-            duration: 4000,
-          });
+        const page: Message[] = parseMessages(data.messages);
+        received.push(...page);
+
+        if (page.length > 0 && (newestMessageIdRef.current === null || page[page.length - 1].id > newestMessageIdRef.current)) {
+          newestMessageIdRef.current = page[page.length - 1].id;
         }
 
-        setAllMessages(messagesWithDates);
-      } else {
-        console.error('Error fetching messages:', response.status);
-        // Non mostrare toast ad ogni errore di polling, solo in console
+        if (isFirstLoad) {
+          // Nella prima pagina hasMore indica che esistono messaggi più vecchi
+          setHasOlderMessages(data.hasMore);
+          hasMore = false;
+        } else {
+          hasMore = data.hasMore && page.length > 0;
+        }
+        complete = !hasMore;
+      }
+
+      // Notifica solo i messaggi arrivati dopo il primo caricamento
+      const newCount = received.filter(m => previousNewest !== null && m.id > previousNewest).length;
+      if (!isFirstLoad && newCount > 0) {
+        notifyNewMessages(newCount);
+      }
+
+      if (complete && windowStart) {
+        // La finestra ricevuta sostituisce quella caricata (tolti i nascosti, rientrati i ripristinati);
+        // restano i più vecchi e quelli arrivati dallo stream nel frattempo
+        const windowEnd = received.length > 0 ? received[received.length - 1].id : previousNewest;
+        setAllMessages(prev => mergeMessages(
+            prev.filter(m => m.id < windowStart || (windowEnd !== null && m.id > windowEnd)),
+            received
+        ));
+      } else if (received.length > 0) {
+        setAllMessages(prev => mergeMessages(prev, received));
       }
     } catch (error) {
       console.error('Error fetching messages:', error);
       // Errore silenzioso per polling, toast solo se è la prima volta
-      if (allMessages.length === 0) {
+      if (newestMessageIdRef.current === null) {
         toast.error('Errore nel caricamento dei messaggi. Verifica la connessione.');
       }
     }
   };
 
+  // Carica i messaggi più vecchi di quelli già presenti (scorrimento verso il fondo)
+  const fetchOlderMessages = async () => {
+    if (!currentUser || isLoadingOlderMessages || allMessages.length === 0) return;
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const response = await fetchWithRetry(
+          buildApiUrl(`messages/${currentUser.tableNumber}${messagePageQuery({ before: allMessages[0].id })}`),
+          { headers: getApiHeaders() }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setAllMessages(prev => mergeMessages(prev, parseMessages(data.messages)));
+        setHasOlderMessages(data.hasMore);
+      }
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  };
+
+  // Converte i timestamp dei messaggi ricevuti dal backend
+  const parseMessages = (messages: any[]): Message[] => messages.map((msg: any) => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp)
+  }));
+
   // Fetch available tables
   const fetchAvailableTables = async () => {
     try {
@@ -251,6 +324,18 @@ export default function App() {
     }
   };
 
+  // Notifica l'arrivo di nuovi messaggi (suono, vibrazione, notifica browser e toast)
+  const notifyNewMessages = (newMessagesCount: number) => {
+    // Mostra notifica con suono e vibrazione
+    showNotification('Nuovo messaggio!', `Hai ricevuto ${newMessagesCount} nuovo${newMessagesCount > 1 ? 'i' : ''} messaggio${newMessagesCount > 1 ? 'i' : ''}!`);
+
+    // Mostra anche toast visivo in-app (sempre visibile anche senza permessi)
+    toast.success('📬 Nuovo messaggio ricevuto!', {
+      description: `${newMessagesCount} nuovo${newMessagesCount > 1 ? 'i' : ''} messaggio${newMessagesCount > 1 ? 'i' : ''}`,
+      duration: 4000,
+    });
+  };
+
   // Remove user from table when closing page
   const removeUserFromTable = async () => {
     if (!currentUser || currentUser.tableNumber === '0') return;
@@ -261,11 +346,6 @@ export default function App() {
           {
             method: 'POST',
             headers: getApiHeaders(),
-            body: JSON.stringify({
-              tableNumber: currentUser.tableNumber,
-              firstName: currentUser.firstName,
-              lastName: currentUser.lastName
-            }),
             keepalive: true // Importante per far funzionare la richiesta durante unload
           }
       );
@@ -453,12 +533,7 @@ export default function App() {
           buildApiUrl('add-user-to-table'),
           {
             method: 'POST',
-            headers: getApiHeaders(),
-            body: JSON.stringify({
-              tableNumber: userData.tableNumber,
-              firstName: userData.firstName,
-              lastName: userData.lastName
-            })
+            headers: getApiHeaders()
           }
       );
     } catch (error) {
@@ -478,6 +553,12 @@ export default function App() {
   };
 
   const handleComposeMessage = () => {
+    setReplyTarget(null);
+    setCurrentState('compose-message');
+  };
+
+  const handleReplyToMessage = (message: ReplyTarget) => {
+    setReplyTarget(message);
     setCurrentState('compose-message');
   };
 
@@ -486,6 +567,9 @@ export default function App() {
     toTable: number;
     senderName?: string;
     isAnonymous: boolean;
+    replyToId?: string;
+    challengeId?: string;
+    showOnWall: boolean;
   }) => {
     if (!currentUser) return;
 
@@ -497,28 +581,41 @@ export default function App() {
             headers: getApiHeaders(),
             body: JSON.stringify({
               content: messageData.content,
-              fromTable: currentUser.tableNumber,
               toTable: messageData.toTable,
-              senderName: messageData.senderName || currentUser.firstName,
-              isAnonymous: messageData.isAnonymous
+              isAnonymous: messageData.isAnonymous,
+              replyToId: messageData.replyToId,
+              challengeId: messageData.challengeId,
+              showOnWall: messageData.showOnWall
             })
           }
       );
 
       if (response.ok) {
+        const result = await response.json();
+        setReplyTarget(null);
         setCurrentState('message-board');
-        toast.success(
-            `Messaggio inviato al Tavolo ${messageData.toTable}!`,
-            {
-              description: messageData.isAnonymous ? 'Messaggio anonimo' : `Da: ${messageData.senderName || currentUser.firstName}`
-            }
-        );
+
+        if (result.status === 'pending') {
+          // Pre-moderazione attiva: il messaggio viene consegnato dopo l'approvazione dello staff
+          toast.info(`Messaggio per il Tavolo ${messageData.toTable} in attesa di approvazione`, {
+            description: 'Lo vedrai consegnato appena lo staff lo approva'
+          });
+        } else {
+          toast.success(
+              `Messaggio inviato al Tavolo ${messageData.toTable}!`,
+              {
+                description: messageData.showOnWall
+                    ? 'In attesa dello staff per il maxischermo'
+                    : messageData.isAnonymous ? 'Messaggio anonimo' : `Da: ${messageData.senderName || currentUser.firstName}`
+              }
+          );
+        }
         // Refresh messages immediately after sending
         await fetchMessages(currentUser.tableNumber);
       } else {
         const errorData = await response.json().catch(() => ({ error: 'Errore sconosciuto' }));
         toast.error('Errore nell\'invio del messaggio', {
-          description: errorData.error || 'Riprova più tardi'
+          description: apiErrorMessage(errorData, 'Riprova più tardi')
         });
       }
     } catch (error) {
@@ -530,6 +627,7 @@ export default function App() {
   };
 
   const handleBackToBoard = () => {
+    setReplyTarget(null);
     setCurrentState('message-board');
   };
 
@@ -539,6 +637,12 @@ export default function App() {
 
     // Clear localStorage
     localStorage.removeItem('messagingame_user');
+    localStorage.removeItem('authToken');
+
+    // Al prossimo login si riparte dall'ultima pagina
+    setAllMessages([]);
+    setHasOlderMessages(false);
+    newestMessageIdRef.current = null;
 
     setCurrentState('login');
     setCurrentUser(null);
@@ -555,6 +659,69 @@ export default function App() {
     }
   };
 
+  // Stream in tempo reale per il tavolo corrente (solo giocatori)
+  const streamTable = currentUser && (currentState === 'message-board' || currentState === 'compose-message')
+      ? currentUser.tableNumber
+      : null;
+  const streamConnected = useGameStream(streamTable);
+
+  // (Ri)connessione allo stream: ricarica lo stato per recuperare eventuali eventi persi
+  useStreamEvent('open', () => {
+    if (!currentUser) return;
+    fetchMessages(currentUser.tableNumber);
+    fetchGameStatus();
+  });
+
+  // Nuovo messaggio ricevuto dallo stream
+  useStreamEvent('message', (data) => {
+    const message: Message = { ...data, timestamp: new Date(data.timestamp) };
+
+    // Già ricevuto (dal polling o da un evento ripetuto): niente notifica
+    if (loadedMessageIdsRef.current.has(message.id)) return;
+    loadedMessageIdsRef.current.add(message.id);
+
+    if (newestMessageIdRef.current === null || message.id > newestMessageIdRef.current) {
+      newestMessageIdRef.current = message.id;
+    }
+
+    setAllMessages(prev => mergeMessages(prev, [message]));
+    notifyNewMessages(1);
+  });
+
+  // Messaggio nascosto dallo staff (es. dopo una segnalazione)
+  useStreamEvent('message-hidden', (data: { id: string }) => {
+    setAllMessages(prev => prev.filter(m => m.id !== data.id));
+  });
+
+  // Giocatore espulso dallo staff: se è l'utente corrente esce dal gioco
+  useStreamEvent('player-kicked', (data: { firstName: string; lastName: string; until: string }) => {
+    if (!currentUser || currentUser.firstName !== data.firstName || currentUser.lastName !== data.lastName) return;
+
+    const until = new Date(data.until).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+    toast.error('Sei stato allontanato dal tavolo dallo staff', {
+      description: `Potrai rientrare dopo le ${until}`
+    });
+    handleLogout(false);
+  });
+
+  // Reazioni aggiornate su un messaggio del tavolo
+  useStreamEvent('reaction', (data: { messageId: string; reactions: Message['reactions'] }) => {
+    setAllMessages(prev => prev.map(m => (
+        m.id === data.messageId ? { ...m, reactions: data.reactions } : m
+    )));
+  });
+
+  // Cambio di stato del gioco
+  useStreamEvent('game-status', (data) => {
+    setGameStatus(data);
+  });
+
+  // Il messaggio più vecchio caricato delimita la finestra da risincronizzare, gli id riconoscono i doppioni dello stream
+  useEffect(() => {
+    oldestMessageIdRef.current = allMessages.length > 0 ? allMessages[0].id : null;
+    loadedMessageIdsRef.current = new Set(allMessages.map(m => m.id));
+  }, [allMessages]);
+
   // Check if admin exists on first load
   useEffect(() => {
     // Skip if we're in TV display mode
@@ -646,7 +813,14 @@ export default function App() {
           }
         }
 
-        // Per utenti normali: verifica che il tavolo esista ancora
+        // Per utenti normali: serve il token di sessione del giocatore
+        if (!localStorage.getItem('authToken')) {
+          localStorage.removeItem('messagingame_user');
+          toast.error('Sessione scaduta. Effettua nuovamente il login.');
+          return;
+        }
+
+        // Verifica che il tavolo esista ancora
         const tableCheckResponse = await fetch(
             buildApiUrl('active-table-numbers'),
             { headers: getApiHeaders() }
@@ -668,19 +842,24 @@ export default function App() {
           setCurrentState('message-board');
 
           // Add user back to table
-          await fetch(
+          const joinResponse = await fetch(
               buildApiUrl('add-user-to-table'),
               {
                 method: 'POST',
-                headers: getApiHeaders(),
-                body: JSON.stringify({
-                  tableNumber: userData.tableNumber,
-                  firstName: userData.firstName,
-                  lastName: userData.lastName
-                })
+                headers: getApiHeaders()
               }
           );
 
+          // Espulso dallo staff mentre era fuori: la sessione salvata non vale più
+          if (joinResponse.status === 403) {
+            const data = await joinResponse.json().catch(() => ({}));
+            if (data.code === 'BANNED') {
+              await handleLogout(false);
+              toast.error(apiErrorMessage(data, 'Sei stato allontanato dal tavolo dallo staff'));
+              return;
+            }
+          }
+
           // Load data
           await Promise.all([
             fetchMessages(userData.tableNumber),
@@ -732,26 +911,28 @@ export default function App() {
   }, [currentState, currentUser]);
 
   // Auto-refresh for game status (every 10 seconds - ridotto da 2 per performance)
+  // Con lo stream attivo lo stato arriva in tempo reale, il polling serve solo come fallback
   useEffect(() => {
-    if (currentState === 'login') return;
+    if (currentState === 'login' || streamConnected) return;
 
     const gameStatusInterval = setInterval(() => {
       fetchGameStatus();
     }, 10000); // Cambiato da 2000 a 10000
 
     return () => clearInterval(gameStatusInterval);
-  }, [currentState]);
+  }, [currentState, streamConnected]);
 
   // Auto-refresh for messages (every 5 seconds - ridotto da 3)
+  // Solo come fallback quando lo stream non è connesso
   useEffect(() => {
-    if (currentState !== 'message-board' || !currentUser) return;
+    if (currentState !== 'message-board' || !currentUser || streamConnected) return;
 
     const messagesInterval = setInterval(() => {
       fetchMessages(currentUser.tableNumber);
     }, 5000); // Cambiato da 3000 a 5000
 
     return () => clearInterval(messagesInterval);
-  }, [currentState, currentUser]);
+  }, [currentState, currentUser, streamConnected]);
 
   // Heartbeat per mantenere l'utente attivo nella lista (ogni 2 minuti)
   useEffect(() => {
@@ -763,12 +944,7 @@ export default function App() {
             buildApiUrl('user-heartbeat'),
             {
               method: 'POST',
-              headers: getApiHeaders(),
-              body: JSON.stringify({
-                tableNumber: currentUser.tableNumber,
-                firstName: currentUser.firstName,
-                lastName: currentUser.lastName
-              })
+              headers: getApiHeaders()
             }
         );
       } catch (error) {
@@ -861,6 +1037,7 @@ export default function App() {
               userFirstName={currentUser.firstName}
               gameStatus={gameStatus}
               availableTables={availableTables}
+              replyTo={replyTarget}
               onSendMessage={handleSendMessage}
               onBack={handleBackToBoard}
           />
@@ -895,6 +1072,11 @@ export default function App() {
               onComposeMessage={handleComposeMessage}
               onLogout={handleLogout}
               onRefresh={handleRefresh}
+              streamConnected={streamConnected}
+              hasOlderMessages={hasOlderMessages}
+              isLoadingOlderMessages={isLoadingOlderMessages}
+              onLoadOlderMessages={fetchOlderMessages}
+              onReplyToMessage={handleReplyToMessage}
           />
           <Toaster />
         </>
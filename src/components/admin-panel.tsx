@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
@@ -7,11 +7,21 @@ import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { ScrollArea } from './ui/scroll-area';
 import { Separator } from './ui/separator';
+import { Switch } from './ui/switch';
 import { toast } from 'sonner';
-import { Users, MessageCircle, Table, Trash2, UserPlus, RefreshCw, Play, Pause, Square, RotateCcw, Radio, Clock, Trophy, Send, User, Lock, Edit } from 'lucide-react';
+import { SkipForward, ListOrdered, Users, MessageCircle, Table, Trash2, UserPlus, RefreshCw, Play, Pause, Square, RotateCcw, Radio, CalendarDays, CalendarPlus, Clock, Trophy, Send, User, Lock, Edit, Timer, ShieldCheck, Check, X, Ban, Flag, EyeOff, Eye, AlertTriangle, VolumeX, Volume2, Ghost, UserX, MonitorPlay } from 'lucide-react';
 import { GameStatusBanner } from './game-status-banner';
 import StaffModal from './staff-modal';
+import { challengeWinners, formatChallengeScore, type EndedChallenge } from './challenge-celebration';
 import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { mergeMessages, messagePageQuery } from '../utils/message-cursor';
+import { groupThreads } from '../utils/message-threads';
+import { LoadOlderMessages } from './load-older-messages';
+import { REPORT_REASONS } from './report-message-dialog';
+import { fetchChallengeSubmissions, isAwaitingJudgement, type ChallengeSubmission } from '../utils/challenge-submissions';
+import { EventArchive } from './event-archive';
+import { TvWallModeration } from './tv-wall-moderation';
+import { TvScreens } from './tv-screens';
 
 interface Message {
   id: string;
@@ -22,12 +32,141 @@ interface Message {
   publicSenderName?: string; // Public display name (null if anonymous)
   timestamp: string;
   isAnonymous: boolean;
+  status?: 'pending' | 'approved' | 'rejected' | 'shadowed';
+  moderatedBy?: string | null;
+  flagged?: boolean; // Contiene termini vietati con azione "flag"
+  flaggedTerms?: string[];
+  hidden?: boolean; // Nascosto dallo staff (soft delete)
+  hiddenAt?: string | null; // Ultima rimozione, resta anche dopo il ripristino
+  hiddenBy?: string | null;
+  hiddenReason?: string | null;
+  restoredAt?: string | null;
+  restoredBy?: string | null;
+  replyToId?: string | null; // Risposta a un altro messaggio
+  threadId?: string | null;
+  recipientName?: string | null; // Mittente originale a cui è rivolta la risposta
+}
+
+interface PlayerBan {
+  id: number;
+  tableId: string;
+  firstName: string;
+  lastName: string;
+  until: string;
+  reason: string | null;
+  bannedBy: string;
+}
+
+interface MessageReport {
+  id: number;
+  reason: string;
+  note: string | null;
+  reporterTable: string;
+  reporterName: string;
+  status: 'open' | 'resolved';
+  actions: string[]; // hide, warn, mute
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  message: {
+    id: string;
+    content: string;
+    fromTable: string | null;
+    toTable: string;
+    senderName: string;
+    isAnonymous: boolean;
+    timestamp: string;
+    hidden: boolean;
+    senderMutedUntil: string | null;
+  };
+}
+
+interface BlockedTerm {
+  id: number;
+  term: string;
+  action: 'mask' | 'block' | 'flag';
+  createdAt: string;
+}
+
+interface ScoringRule {
+  key: string;
+  label: string;
+  penalty: boolean;
+  default: number;
+}
+
+interface ScoreLedger {
+  tableId: string;
+  total: number;
+  breakdown: Array<{ reason: string; label: string; count: number; points: number }>;
+  entries: Array<{ id: number; reason: string; label: string; points: number; messageId: string | null; challengeId: string | null; createdAt: string }>;
+}
+
+// Azioni disponibili per i termini vietati
+const BLOCKED_TERM_ACTIONS: Array<{ value: BlockedTerm['action']; label: string; description: string }> = [
+  { value: 'mask', label: 'Oscura', description: 'Sostituito con asterischi' },
+  { value: 'block', label: 'Blocca', description: 'Messaggio rifiutato' },
+  { value: 'flag', label: 'Segnala', description: 'Consegnato ma evidenziato allo staff' }
+];
+
+// Tipo di sfida dichiarato dal registro del backend
+interface ChallengeTypeDescriptor {
+  type: string;
+  label: string;
+  description: string;
+  params: Array<{
+    key: string;
+    label: string;
+    type: 'number' | 'text';
+    required?: boolean;
+    default?: number | string;
+    min?: number;
+    max?: number;
+    maxLength?: number;
+    placeholder?: string;
+    secret?: boolean;
+  }>;
+}
+
+// Regole di spareggio (stesse chiavi del backend)
+const TIE_BREAK_RULES: Array<{ value: string; label: string; description: string }> = [
+  { value: 'co_winners', label: 'Vincitori a pari merito', description: 'Tutti i tavoli in pareggio vincono il badge' },
+  { value: 'earliest', label: 'Primo a raggiungere il punteggio', description: 'Vince chi è arrivato prima al punteggio finale' },
+  { value: 'sudden_death', label: 'Spareggio', description: 'In caso di pareggio la sfida si prolunga una volta' }
+];
+
+// Credenziale di sola lettura di un TV/proiettore (il token in chiaro si vede solo alla creazione)
+interface DisplayToken {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// Elemento della scaletta sfide (orario relativo all'inizio del gioco, pause escluse)
+interface PlaylistItem {
+  id: string;
+  offsetMinutes: number;
+  delayMinutes: number;
+  startsAtSecond: number;
+  status: 'pending' | 'launched' | 'skipped';
+  title: string;
+  typeLabel: string;
+  badgeEmoji: string;
+  durationMinutes: number;
+  launchedAt: string | null;
 }
 
 interface ActiveTable {
   tableNumber: string; // Alfanumerico: A1, B2, DJ, 1, 2, etc.
   code: string;
+  messageQuota: number | null; // Messaggi al minuto (null = quota predefinita)
+  mutedUntil: string | null; // Silenziato dallo staff
+  shadowMutedUntil: string | null; // Silenziato in ombra
   users: Array<{
+    id: number;
     firstName: string;
     lastName: string;
     joinedAt: string;
@@ -39,8 +178,13 @@ interface GameStatus {
   status: 'not_started' | 'active' | 'paused' | 'ended';
   startedAt?: string;
   pausedAt?: string;
+  slowModeSeconds?: number;
+  event?: { id: string; name: string; date: string }; // Serata in corso
 }
 
+// Intervalli disponibili per la modalità lenta (secondi, 0 = disattivata)
+const SLOW_MODE_OPTIONS = [0, 10, 30, 60, 120];
+
 interface AdminPanelProps {
   adminName: string;
   onLogout: () => void;
@@ -58,11 +202,39 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
   };
 
   const [allMessages, setAllMessages] = useState<Message[]>([]);
+  const [totalMessages, setTotalMessages] = useState(0);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  // Cursore: ID del messaggio più recente caricato (null = ricarica l'ultima pagina)
+  const newestMessageIdRef = useRef<string | null>(null);
+  const queuedMessageIdsRef = useRef<Set<string>>(new Set()); // Coda di moderazione dell'ultimo aggiornamento
   const [activeTables, setActiveTables] = useState<ActiveTable[]>([]);
   const [newTableNumber, setNewTableNumber] = useState('');
   const [newTableCode, setNewTableCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [gameStatus, setGameStatus] = useState<GameStatus>({ status: 'not_started' });
+  const [defaultMessageQuota, setDefaultMessageQuota] = useState('20');
+  const [reactionEmojisInput, setReactionEmojisInput] = useState('');
+
+  // Moderazione state
+  const [moderationQueue, setModerationQueue] = useState<Message[]>([]);
+  const [preModeration, setPreModeration] = useState(false);
+  const [autoApproveSeconds, setAutoApproveSeconds] = useState('120');
+
+  // Sanzioni state
+  const [playerBans, setPlayerBans] = useState<PlayerBan[]>([]);
+  const [sanctionMinutes, setSanctionMinutes] = useState('15');
+
+  // Segnalazioni state
+  const [reports, setReports] = useState<MessageReport[]>([]);
+  const [openReportsCount, setOpenReportsCount] = useState(0);
+  const [reportsView, setReportsView] = useState<'open' | 'resolved'>('open');
+  const [reportMuteMinutes, setReportMuteMinutes] = useState('10');
+
+  // Filtro parole state
+  const [blockedTerms, setBlockedTerms] = useState<BlockedTerm[]>([]);
+  const [newBlockedTerm, setNewBlockedTerm] = useState('');
+  const [newBlockedTermAction, setNewBlockedTermAction] = useState<BlockedTerm['action']>('mask');
 
   // Broadcast state
   const [broadcastMessage, setBroadcastMessage] = useState('');
@@ -74,17 +246,34 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
   const [activeCountdown, setActiveCountdown] = useState<{active: boolean; endsAt?: string; message?: string}>({ active: false });
 
   // Leaderboard state
-  const [leaderboard, setLeaderboard] = useState<Array<{tableId: string; points: number}>>([]);
+  const [leaderboard, setLeaderboard] = useState<Array<{tableId: string; points: number; messageCount: number}>>([]);
+  const [scoringRules, setScoringRules] = useState<ScoringRule[]>([]);
+  const [scoringWeights, setScoringWeights] = useState<Record<string, string>>({});
+  const [isSavingWeights, setIsSavingWeights] = useState(false);
+  const [scoreLedger, setScoreLedger] = useState<ScoreLedger | null>(null);
 
   // Challenge state
   const [challengeTitle, setChallengeTitle] = useState('');
   const [challengeDescription, setChallengeDescription] = useState('');
-  const [challengeType, setChallengeType] = useState<'most_messages' | 'most_reactions' | 'speed'>('most_messages');
+  const [challengeType, setChallengeType] = useState('most_messages');
+  const [challengeTypes, setChallengeTypes] = useState<ChallengeTypeDescriptor[]>([]);
+  const [challengeParams, setChallengeParams] = useState<Record<string, string>>({});
+  const [challengeTieBreak, setChallengeTieBreak] = useState('co_winners');
+  const [challengeSuddenDeathMinutes, setChallengeSuddenDeathMinutes] = useState('2');
   const [challengeDuration, setChallengeDuration] = useState('5');
   const [challengeBadgeName, setChallengeBadgeName] = useState('');
   const [challengeBadgeEmoji, setChallengeBadgeEmoji] = useState('🏆');
   const [activeChallenges, setActiveChallenges] = useState<any[]>([]);
+  const [challengeSubmissions, setChallengeSubmissions] = useState<Record<string, ChallengeSubmission[]>>({});
   const [isCreatingChallenge, setIsCreatingChallenge] = useState(false);
+  const [endedChallenges, setEndedChallenges] = useState<EndedChallenge[]>([]);
+  const [challengeOffset, setChallengeOffset] = useState('30');
+  const [playlist, setPlaylist] = useState<{ gameStatus: string; elapsedSeconds: number | null; nextItemId: string | null; items: PlaylistItem[] }>({
+    gameStatus: 'not_started',
+    elapsedSeconds: null,
+    nextItemId: null,
+    items: []
+  });
 
   // Profilo & Staff state
   const [adminProfile, setAdminProfile] = useState<any>(null);
@@ -94,16 +283,42 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
   const [newAdminCode, setNewAdminCode] = useState('');
   const [isUpdatingCode, setIsUpdatingCode] = useState(false);
 
-  // Fetch all messages
-  const fetchAllMessages = async () => {
+  // TV Display state
+  const [displayTokens, setDisplayTokens] = useState<DisplayToken[]>([]);
+  const [newDisplayName, setNewDisplayName] = useState('');
+  const [displayLink, setDisplayLink] = useState<string | null>(null);
+
+  // Fetch all messages - solo i nuovi rispetto al cursore (reload = riparte dall'ultima pagina)
+  const fetchAllMessages = async (reload = false) => {
+    if (reload) newestMessageIdRef.current = null;
+
     try {
-      const response = await fetch(buildApiUrl('admin/all-messages'), {
+      const since = newestMessageIdRef.current;
+      const response = await fetch(buildApiUrl(`admin/all-messages${messagePageQuery({ since, limit: since ? 200 : undefined })}`), {
         headers: getApiHeaders()
       });
 
       if (response.ok) {
         const data = await response.json();
-        setAllMessages(data.messages);
+        const messages: Message[] = data.messages;
+
+        // Un messaggio approvato dalla coda arriva con un nuovo ID: la riga "in attesa" va sostituita
+        if (since && messages.some(m => m.moderatedBy)) {
+          await fetchAllMessages(true);
+          return;
+        }
+
+        if (messages.length > 0) {
+          newestMessageIdRef.current = messages[0].id; // Ordinati dal più recente
+        }
+
+        setTotalMessages(data.totalMessages);
+        if (since) {
+          setAllMessages(prev => mergeMessages(prev, messages, 'desc'));
+        } else {
+          setAllMessages(messages);
+          setHasOlderMessages(data.hasMore);
+        }
       }
     } catch (error) {
       console.error('Error fetching messages:', error);
@@ -111,6 +326,30 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
+  // Carica i messaggi più vecchi (scorrimento in fondo alla lista)
+  const fetchOlderMessages = async () => {
+    if (isLoadingOlderMessages || allMessages.length === 0) return;
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const before = allMessages[allMessages.length - 1].id;
+      const response = await fetch(buildApiUrl(`admin/all-messages${messagePageQuery({ before })}`), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setAllMessages(prev => mergeMessages(prev, data.messages, 'desc'));
+        setHasOlderMessages(data.hasMore);
+      }
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      toast.error('Errore nel caricamento dei messaggi');
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  };
+
   // Fetch active tables
   const fetchActiveTables = async () => {
     try {
@@ -128,6 +367,95 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
+  // Fetch espulsioni attive
+  const fetchPlayerBans = async () => {
+    if (!hasPermission('view_users')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/player-bans'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPlayerBans(data.bans);
+      }
+    } catch (error) {
+      console.error('Error fetching player bans:', error);
+    }
+  };
+
+  // Silenzia un tavolo (shadow = in ombra); minutes = 0 revoca
+  const handleMuteTable = async (tableNumber: string, minutes: number, shadow = false) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/tables/${encodeURIComponent(tableNumber)}/mute`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ minutes, shadow })
+      });
+
+      if (response.ok) {
+        if (minutes === 0) {
+          toast.success(`Tavolo ${tableNumber} di nuovo libero di scrivere`);
+        } else {
+          toast.success(`Tavolo ${tableNumber} silenziato${shadow ? ' in ombra' : ''} per ${minutes} minuti`);
+        }
+        await fetchActiveTables();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nel silenziamento del tavolo');
+      }
+    } catch (error) {
+      console.error('Error muting table:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Espelle un giocatore e ne blocca il rientro
+  const handleKickUser = async (user: ActiveTable['users'][number], tableNumber: string) => {
+    const minutes = parseInt(sanctionMinutes);
+    if (!confirm(`Espellere ${user.firstName} ${user.lastName} dal Tavolo ${tableNumber}? Non potrà rientrare per ${minutes} minuti.`)) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/users/${user.id}/kick`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ minutes })
+      });
+
+      if (response.ok) {
+        toast.success(`${user.firstName} ${user.lastName} espulso per ${minutes} minuti`);
+        await Promise.all([fetchActiveTables(), fetchPlayerBans()]);
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nell\'espulsione del giocatore');
+      }
+    } catch (error) {
+      console.error('Error kicking user:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleLiftBan = async (ban: PlayerBan) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/player-bans/${ban.id}`), {
+        method: 'DELETE',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success(`${ban.firstName} ${ban.lastName} può rientrare al Tavolo ${ban.tableId}`);
+        await fetchPlayerBans();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nella revoca dell\'espulsione');
+      }
+    } catch (error) {
+      console.error('Error lifting ban:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
   // Fetch game status
   const fetchGameStatus = async () => {
     try {
@@ -161,6 +489,70 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
+  // Pesi della classifica
+  const fetchScoring = async () => {
+    if (!hasPermission('view_leaderboard')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/scoring'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setScoringRules(data.rules);
+        setScoringWeights(Object.fromEntries(Object.entries(data.weights).map(([key, value]) => [key, String(value)])));
+      }
+    } catch (error) {
+      console.error('Error fetching scoring weights:', error);
+    }
+  };
+
+  const handleSaveScoringWeights = async () => {
+    setIsSavingWeights(true);
+    try {
+      const response = await fetch(buildApiUrl('admin/scoring'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ weights: scoringWeights })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setScoringWeights(Object.fromEntries(Object.entries(data.weights).map(([key, value]) => [key, String(value)])));
+        toast.success('Pesi aggiornati', {
+          description: 'Valgono per i punti assegnati da ora in poi'
+        });
+      } else {
+        toast.error(data.error || 'Errore nel salvataggio dei pesi');
+      }
+    } catch (error) {
+      console.error('Error saving scoring weights:', error);
+      toast.error('Errore di connessione');
+    } finally {
+      setIsSavingWeights(false);
+    }
+  };
+
+  // Registro punti di un tavolo (clic sulla riga della classifica)
+  const fetchScoreLedger = async (tableId: string) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/score-ledger?tableId=${encodeURIComponent(tableId)}`), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        setScoreLedger(await response.json());
+      } else {
+        toast.error('Errore nel caricamento del registro punti');
+      }
+    } catch (error) {
+      console.error('Error fetching score ledger:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
   // Fetch active challenges
   const fetchActiveChallenges = async () => {
     try {
@@ -171,14 +563,102 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
       if (response.ok) {
         const data = await response.json();
         setActiveChallenges(data.challenges || []);
+
+        // Partecipazioni delle sfide a giudizio o a votazione
+        const judging = (data.challenges || []).filter((c: any) => c.judging);
+        const entries = await Promise.all(judging.map(async (c: any) =>
+          [c.id, (await fetchChallengeSubmissions(c.id))?.submissions ?? []] as const));
+        setChallengeSubmissions(Object.fromEntries(entries));
       }
     } catch (error) {
       console.error('Error fetching active challenges:', error);
     }
   };
 
-  // Create challenge
-  const handleCreateChallenge = async () => {
+  // Fetch ended challenges (archivio con classifiche)
+  const fetchEndedChallenges = async () => {
+    try {
+      const response = await fetch(buildApiUrl('challenges?status=ended'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEndedChallenges(data.challenges || []);
+      }
+    } catch (error) {
+      console.error('Error fetching ended challenges:', error);
+    }
+  };
+
+  // Rilancia una sfida conclusa con le stesse impostazioni
+  const handleRerunChallenge = async (challengeId: string) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/challenges/${challengeId}/rerun`), {
+        method: 'POST',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success('Sfida rilanciata!');
+        await fetchActiveChallenges();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Errore nel rilanciare la sfida');
+      }
+    } catch (error) {
+      console.error('Error re-running challenge:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Ripropone sui TV il festeggiamento di una sfida conclusa
+  const handleReplayCelebration = async (challengeId: string) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/challenges/${challengeId}/celebrate`), {
+        method: 'POST',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success('Festeggiamento inviato ai TV');
+      } else {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.error || 'Errore nell\'invio ai TV');
+      }
+    } catch (error) {
+      console.error('Error replaying celebration:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Tipi di sfida dal registro del backend (con i parametri da mostrare nel form)
+  const fetchChallengeTypes = async () => {
+    if (!hasPermission('manage_challenges')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/challenge-types'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setChallengeTypes(data.types || []);
+      }
+    } catch (error) {
+      console.error('Error fetching challenge types:', error);
+    }
+  };
+
+  const selectedChallengeType = challengeTypes.find(t => t.type === challengeType);
+
+  const handleChallengeTypeChange = (type: string) => {
+    setChallengeType(type);
+    setChallengeParams({});
+  };
+
+  // Create challenge (subito, oppure in scaletta all'orario indicato)
+  const handleCreateChallenge = async (scheduled = false) => {
     if (!challengeTitle || !challengeBadgeName) {
       toast.error('Titolo e nome badge obbligatori');
       return;
@@ -190,10 +670,16 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
       return;
     }
 
+    const offsetMinutes = parseInt(challengeOffset);
+    if (scheduled && (isNaN(offsetMinutes) || offsetMinutes < 0)) {
+      toast.error('Orario di partenza non valido');
+      return;
+    }
+
     setIsCreatingChallenge(true);
     try {
       const response = await fetch(
-          buildApiUrl('admin/create-challenge'),
+          buildApiUrl(scheduled ? 'admin/playlist' : 'admin/create-challenge'),
           {
             method: 'POST',
             headers: getApiHeaders(),
@@ -201,23 +687,28 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
               title: challengeTitle,
               description: challengeDescription,
               type: challengeType,
+              params: challengeParams,
+              tieBreak: challengeTieBreak,
+              suddenDeathMinutes: challengeTieBreak === 'sudden_death' ? parseInt(challengeSuddenDeathMinutes) : undefined,
               durationMinutes,
               badgeName: challengeBadgeName,
-              badgeEmoji: challengeBadgeEmoji
+              badgeEmoji: challengeBadgeEmoji,
+              offsetMinutes: scheduled ? offsetMinutes : undefined
             })
           }
       );
 
       if (response.ok) {
-        toast.success('Sfida creata con successo!');
+        toast.success(scheduled ? `Sfida aggiunta alla scaletta (+${offsetMinutes} min)` : 'Sfida creata con successo!');
         // Reset form
         setChallengeTitle('');
         setChallengeDescription('');
         setChallengeDuration('5');
         setChallengeBadgeName('');
         setChallengeBadgeEmoji('🏆');
+        setChallengeParams({});
         // Refresh challenges list
-        await fetchActiveChallenges();
+        await (scheduled ? fetchPlaylist() : fetchActiveChallenges());
       } else {
         const data = await response.json();
         toast.error(data.error || 'Errore nella creazione della sfida');
@@ -230,6 +721,48 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
+  // Fetch scaletta sfide
+  const fetchPlaylist = async () => {
+    if (!hasPermission('manage_challenges')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/playlist'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        setPlaylist(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching playlist:', error);
+    }
+  };
+
+  // Salta, ritarda o rimuovi un elemento della scaletta
+  const handlePlaylistAction = async (itemId: string, action: 'skip' | 'delay' | 'delete') => {
+    try {
+      const response = await fetch(
+          buildApiUrl(action === 'delete' ? `admin/playlist/${itemId}` : `admin/playlist/${itemId}/${action}`),
+          {
+            method: action === 'delete' ? 'DELETE' : 'POST',
+            headers: getApiHeaders(),
+            body: action === 'delay' ? JSON.stringify({ minutes: 5 }) : undefined
+          }
+      );
+
+      if (response.ok) {
+        toast.success(action === 'skip' ? 'Sfida saltata' : action === 'delay' ? 'Sfida ritardata di 5 minuti' : 'Sfida rimossa dalla scaletta');
+        await fetchPlaylist();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Errore nella modifica della scaletta');
+      }
+    } catch (error) {
+      console.error('Error updating playlist:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
   // End challenge manually
   const handleEndChallenge = async (challengeId: string) => {
     try {
@@ -243,8 +776,12 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
 
       if (response.ok) {
         const data = await response.json();
-        toast.success(`Sfida terminata! Vincitore: Tavolo ${data.winner || 'Nessuno'}`);
+        const winners: string[] = data.result?.winners ?? (data.winner ? [data.winner] : []);
+        toast.success(winners.length > 0
+          ? `Sfida terminata! ${winners.length > 1 ? 'Vincitori a pari merito: Tavoli' : 'Vincitore: Tavolo'} ${winners.join(', ')}`
+          : 'Sfida terminata! Nessun vincitore');
         await fetchActiveChallenges();
+        await fetchEndedChallenges();
       } else {
         const error = await response.json();
         toast.error(error.error || 'Errore nel terminare la sfida');
@@ -255,6 +792,32 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
+  // Sfida a giudizio: lo staff sceglie la partecipazione vincitrice (chiude la sfida)
+  const handleJudgeChallenge = async (challengeId: string, submission: ChallengeSubmission) => {
+    if (!confirm(`Assegnare la vittoria al Tavolo ${submission.fromTable}? La sfida verrà chiusa.`)) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/challenges/${challengeId}/judge`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ messageId: submission.id })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`Sfida terminata! Vincitore: Tavolo ${submission.fromTable}`);
+        await fetchActiveChallenges();
+        await fetchEndedChallenges();
+      } else {
+        toast.error(data.error || 'Errore nella scelta del vincitore');
+      }
+    } catch (error) {
+      console.error('Error judging challenge:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
   // Fetch countdown
   const fetchCountdown = async () => {
     try {
@@ -303,144 +866,563 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
-  // Send broadcast message
-  const handleBroadcast = async () => {
-    if (!broadcastMessage.trim()) {
-      toast.error('Inserisci un messaggio');
-      return;
-    }
+  // Token display dei TV (solo admin)
+  const fetchDisplayTokens = async () => {
+    if (!isAdmin) return;
 
-    setIsSendingBroadcast(true);
     try {
-      const response = await fetch(buildApiUrl('admin/broadcast-message'), {
-        method: 'POST',
-        headers: getApiHeaders(),
-        body: JSON.stringify({ content: broadcastMessage })
+      const response = await fetch(buildApiUrl('admin/display-tokens'), {
+        headers: getApiHeaders()
       });
 
       if (response.ok) {
         const data = await response.json();
-        toast.success(`Messaggio inviato a ${data.tableCount} tavoli!`);
-        setBroadcastMessage('');
-        await fetchAllMessages();
+        setDisplayTokens(data.displays);
+      }
+    } catch (error) {
+      console.error('Error fetching display tokens:', error);
+    }
+  };
+
+  const handleCreateDisplayToken = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/display-tokens'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ name: newDisplayName })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setDisplayLink(`${window.location.origin}?tv&key=${encodeURIComponent(data.token)}`);
+        setNewDisplayName('');
+        toast.success('Token display generato', {
+          description: 'Copia il link adesso: il token non verrà più mostrato'
+        });
+        fetchDisplayTokens();
+      } else {
+        toast.error(data.error || 'Errore nella generazione del token');
+      }
+    } catch (error) {
+      console.error('Error creating display token:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleRevokeDisplayToken = async (display: DisplayToken) => {
+    if (!confirm(`Revocare il token di "${display.name}"? Il TV smetterà subito di aggiornarsi.`)) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/display-tokens/${display.id}`), {
+        method: 'DELETE',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success('Token revocato');
+        fetchDisplayTokens();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || 'Errore nella revoca del token');
+      }
+    } catch (error) {
+      console.error('Error revoking display token:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Send broadcast message
+  const handleBroadcast = async () => {
+    if (!broadcastMessage.trim()) {
+      toast.error('Inserisci un messaggio');
+      return;
+    }
+
+    setIsSendingBroadcast(true);
+    try {
+      const response = await fetch(buildApiUrl('admin/broadcast-message'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ content: broadcastMessage })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Messaggio inviato a ${data.tableCount} tavoli!`);
+        setBroadcastMessage('');
+        await fetchAllMessages();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nell\'invio del messaggio');
+      }
+    } catch (error) {
+      console.error('Error broadcasting message:', error);
+      toast.error('Errore di connessione');
+    } finally {
+      setIsSendingBroadcast(false);
+    }
+  };
+
+  // Start countdown
+  const handleStartCountdown = async () => {
+    const minutes = parseInt(countdownMinutes);
+    if (isNaN(minutes) || minutes < 1 || minutes > 60) {
+      toast.error('Inserisci minuti validi (1-60)');
+      return;
+    }
+
+    try {
+      const response = await fetch(buildApiUrl('admin/set-countdown'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({
+          minutes,
+          message: countdownMessage
+        })
+      });
+
+      if (response.ok) {
+        toast.success(`Countdown di ${minutes} minuti avviato!`);
+        await fetchCountdown();
+      } else {
+        toast.error('Errore nell\'avvio del countdown');
+      }
+    } catch (error) {
+      console.error('Error starting countdown:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Stop countdown
+  const handleStopCountdown = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/stop-countdown'), {
+        method: 'POST',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success('Countdown fermato!');
+        await fetchCountdown();
+      } else {
+        toast.error('Errore nel fermare il countdown');
+      }
+    } catch (error) {
+      console.error('Error stopping countdown:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Create new table code
+  const handleCreateTableCode = async () => {
+    if (!newTableNumber || !newTableCode) {
+      toast.error('Inserisci numero tavolo e codice');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(buildApiUrl('admin/create-table-code'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({
+          tableNumber: newTableNumber.trim().toUpperCase(), // Alfanumerico: A1, B2, DJ, etc.
+          code: newTableCode
+        })
+      });
+
+      if (response.ok) {
+        toast.success(`Codice tavolo ${newTableNumber} creato con successo!`);
+        setNewTableNumber('');
+        setNewTableCode('');
+        await fetchActiveTables();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nella creazione del codice tavolo');
+      }
+    } catch (error) {
+      console.error('Error creating table code:', error);
+      toast.error('Errore di connessione');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Delete table
+  const handleDeleteTable = async (tableNumber: string) => {
+    if (!confirm(`Sei sicuro di voler eliminare il Tavolo ${tableNumber}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/delete-table/${tableNumber}`), {
+        method: 'DELETE',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success(`Tavolo ${tableNumber} eliminato con successo!`);
+        await fetchActiveTables();
+      } else {
+        toast.error('Errore nell\'eliminazione del tavolo');
+      }
+    } catch (error) {
+      console.error('Error deleting table:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Fetch rate limit settings (quota predefinita)
+  const fetchRateLimits = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/rate-limits'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setDefaultMessageQuota(String(data.messageQuota));
+      }
+    } catch (error) {
+      console.error('Error fetching rate limits:', error);
+    }
+  };
+
+  // Fetch coda di moderazione (messaggi in attesa di approvazione)
+  const fetchModerationQueue = async () => {
+    if (!hasPermission('moderate_messages')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/moderation-queue'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const queue: Message[] = data.messages;
+        setModerationQueue(queue);
+        setPreModeration(data.preModeration);
+        setAutoApproveSeconds(String(data.autoApproveSeconds));
+
+        // Messaggi usciti dalla coda (moderati da qui, da altro staff o auto-approvati):
+        // gli approvati hanno un nuovo ID e i rifiutati cambiano stato, si ricarica la lista
+        const queuedIds = new Set(queue.map(m => m.id));
+        const moderated = [...queuedMessageIdsRef.current].some(id => !queuedIds.has(id));
+        queuedMessageIdsRef.current = queuedIds;
+        if (moderated) await fetchAllMessages(true);
+      }
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error);
+    }
+  };
+
+  const updateModerationSettings = async (settings: { preModeration?: boolean; autoApproveSeconds?: number }) => {
+    try {
+      const response = await fetch(buildApiUrl('admin/moderation-settings'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify(settings)
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPreModeration(data.preModeration);
+        setAutoApproveSeconds(String(data.autoApproveSeconds));
+        toast.success('Impostazioni di moderazione aggiornate', {
+          description: data.approvedCount > 0 ? `${data.approvedCount} messaggi in coda approvati` : undefined
+        });
+        if (data.approvedCount > 0) await fetchModerationQueue();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nell\'aggiornamento della moderazione');
+      }
+    } catch (error) {
+      console.error('Error updating moderation settings:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleModerateMessage = async (messageId: string, action: 'approve' | 'reject') => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/messages/${encodeURIComponent(messageId)}/${action}`), {
+        method: 'POST',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success(action === 'approve' ? 'Messaggio approvato' : 'Messaggio rifiutato');
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nella moderazione del messaggio');
+      }
+      // Se il messaggio è uscito dalla coda la lista dei messaggi viene ricaricata
+      await fetchModerationQueue();
+    } catch (error) {
+      console.error('Error moderating message:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Nasconde un messaggio a giocatori e TV (resta visibile qui, ripristinabile)
+  const handleHideMessage = async (message: Message) => {
+    const reason = prompt('Motivo della rimozione del messaggio:');
+    if (!reason || !reason.trim()) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/messages/${encodeURIComponent(message.id)}`), {
+        method: 'DELETE',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ reason: reason.trim() })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setAllMessages(prev => prev.map(m => (
+            m.id === message.id ? { ...m, hidden: true, hiddenAt: data.hiddenAt, hiddenBy: adminName, hiddenReason: reason.trim(), restoredAt: null, restoredBy: null } : m
+        )));
+        toast.success('Messaggio nascosto');
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nella rimozione del messaggio');
+      }
+    } catch (error) {
+      console.error('Error hiding message:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleRestoreMessage = async (message: Message) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/messages/${encodeURIComponent(message.id)}/restore`), {
+        method: 'POST',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        setAllMessages(prev => prev.map(m => (
+            m.id === message.id
+                ? { ...m, hidden: false, restoredAt: new Date().toISOString(), restoredBy: adminName }
+                : m
+        )));
+        toast.success('Messaggio ripristinato');
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nel ripristino del messaggio');
+      }
+    } catch (error) {
+      console.error('Error restoring message:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Fetch inbox segnalazioni
+  const fetchReports = async (view = reportsView) => {
+    if (!hasPermission('moderate_messages')) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/reports?status=${view}`), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setReports(data.reports);
+        setOpenReportsCount(data.openCount);
+      }
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+    }
+  };
+
+  const handleReportAction = async (report: MessageReport, action: 'hide' | 'warn' | 'mute' | 'resolve') => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/reports/${report.id}/${action}`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify(action === 'mute' ? { minutes: parseInt(reportMuteMinutes) } : {})
+      });
+
+      if (response.ok) {
+        const labels = {
+          hide: 'Messaggio nascosto',
+          warn: `Avviso inviato al Tavolo ${report.message.fromTable}`,
+          mute: `Tavolo ${report.message.fromTable} silenziato per ${reportMuteMinutes} minuti`,
+          resolve: 'Segnalazione risolta'
+        };
+        toast.success(labels[action]);
+        await fetchReports();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nella gestione della segnalazione');
+      }
+    } catch (error) {
+      console.error('Error handling report:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  // Fetch termini vietati
+  const fetchBlockedTerms = async () => {
+    if (!hasPermission('moderate_messages')) return;
+
+    try {
+      const response = await fetch(buildApiUrl('admin/blocked-terms'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setBlockedTerms(data.terms);
+      }
+    } catch (error) {
+      console.error('Error fetching blocked terms:', error);
+    }
+  };
+
+  const saveBlockedTerm = async (term: string, action: BlockedTerm['action']) => {
+    try {
+      const response = await fetch(buildApiUrl('admin/blocked-terms'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ term, action })
+      });
+
+      if (response.ok) {
+        toast.success(`Termine "${term.trim().toLowerCase()}" salvato`);
+        setNewBlockedTerm('');
+        await fetchBlockedTerms();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nel salvataggio del termine');
+      }
+    } catch (error) {
+      console.error('Error saving blocked term:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleDeleteBlockedTerm = async (term: BlockedTerm) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/blocked-terms/${term.id}`), {
+        method: 'DELETE',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success(`Termine "${term.term}" rimosso`);
+        await fetchBlockedTerms();
       } else {
         const errorData = await response.json();
-        toast.error(errorData.error || 'Errore nell\'invio del messaggio');
+        toast.error(errorData.error || 'Errore nella rimozione del termine');
       }
     } catch (error) {
-      console.error('Error broadcasting message:', error);
+      console.error('Error deleting blocked term:', error);
       toast.error('Errore di connessione');
-    } finally {
-      setIsSendingBroadcast(false);
     }
   };
 
-  // Start countdown
-  const handleStartCountdown = async () => {
-    const minutes = parseInt(countdownMinutes);
-    if (isNaN(minutes) || minutes < 1 || minutes > 60) {
-      toast.error('Inserisci minuti validi (1-60)');
-      return;
-    }
-
+  const updateRateLimits = async (settings: { slowModeSeconds?: number; messageQuota?: number }) => {
     try {
-      const response = await fetch(buildApiUrl('admin/set-countdown'), {
+      const response = await fetch(buildApiUrl('admin/rate-limits'), {
         method: 'POST',
         headers: getApiHeaders(),
-        body: JSON.stringify({
-          minutes,
-          message: countdownMessage
-        })
+        body: JSON.stringify(settings)
       });
 
+      const data = await response.json();
+
       if (response.ok) {
-        toast.success(`Countdown di ${minutes} minuti avviato!`);
-        await fetchCountdown();
-      } else {
-        toast.error('Errore nell\'avvio del countdown');
+        setGameStatus(prev => ({ ...prev, slowModeSeconds: data.slowModeSeconds }));
+        setDefaultMessageQuota(String(data.messageQuota));
+        return true;
       }
+
+      toast.error(data.error || 'Errore nell\'aggiornamento dei limiti');
     } catch (error) {
-      console.error('Error starting countdown:', error);
+      console.error('Error updating rate limits:', error);
       toast.error('Errore di connessione');
     }
+    return false;
   };
 
-  // Stop countdown
-  const handleStopCountdown = async () => {
+  // Fetch emoji di reazione consentite
+  const fetchReactionEmojis = async () => {
     try {
-      const response = await fetch(buildApiUrl('admin/stop-countdown'), {
-        method: 'POST',
+      const response = await fetch(buildApiUrl('reaction-emojis'), {
         headers: getApiHeaders()
       });
 
       if (response.ok) {
-        toast.success('Countdown fermato!');
-        await fetchCountdown();
-      } else {
-        toast.error('Errore nel fermare il countdown');
+        const data = await response.json();
+        setReactionEmojisInput(data.emojis.join(' '));
       }
     } catch (error) {
-      console.error('Error stopping countdown:', error);
-      toast.error('Errore di connessione');
+      console.error('Error fetching reaction emojis:', error);
     }
   };
 
-  // Create new table code
-  const handleCreateTableCode = async () => {
-    if (!newTableNumber || !newTableCode) {
-      toast.error('Inserisci numero tavolo e codice');
-      return;
-    }
+  // Emoji separate da spazi, nell'ordine in cui appaiono ai giocatori
+  const handleSaveReactionEmojis = async () => {
+    const emojis = reactionEmojisInput.split(/\s+/).filter(Boolean);
 
-    setIsLoading(true);
     try {
-      const response = await fetch(buildApiUrl('admin/create-table-code'), {
+      const response = await fetch(buildApiUrl('admin/reaction-emojis'), {
         method: 'POST',
         headers: getApiHeaders(),
-        body: JSON.stringify({
-          tableNumber: newTableNumber.trim().toUpperCase(), // Alfanumerico: A1, B2, DJ, etc.
-          code: newTableCode
-        })
+        body: JSON.stringify({ emojis })
       });
 
+      const data = await response.json();
+
       if (response.ok) {
-        toast.success(`Codice tavolo ${newTableNumber} creato con successo!`);
-        setNewTableNumber('');
-        setNewTableCode('');
-        await fetchActiveTables();
+        setReactionEmojisInput(data.emojis.join(' '));
+        toast.success('Emoji delle reazioni aggiornate');
       } else {
-        const errorData = await response.json();
-        toast.error(errorData.error || 'Errore nella creazione del codice tavolo');
+        toast.error(data.error || 'Errore nell\'aggiornamento delle emoji');
       }
     } catch (error) {
-      console.error('Error creating table code:', error);
+      console.error('Error updating reaction emojis:', error);
       toast.error('Errore di connessione');
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  // Delete table
-  const handleDeleteTable = async (tableNumber: string) => {
-    if (!confirm(`Sei sicuro di voler eliminare il Tavolo ${tableNumber}?`)) {
-      return;
+  const handleSetSlowMode = async (seconds: number) => {
+    if (await updateRateLimits({ slowModeSeconds: seconds })) {
+      toast.success(seconds > 0 ? `Modalità lenta attiva: 1 messaggio ogni ${seconds}s per tavolo` : 'Modalità lenta disattivata');
+    }
+  };
+
+  const handleSaveDefaultQuota = async () => {
+    if (await updateRateLimits({ messageQuota: parseInt(defaultMessageQuota) })) {
+      toast.success('Quota predefinita aggiornata');
     }
+  };
+
+  // Quota del singolo tavolo (vuoto = torna alla predefinita)
+  const handleSetTableQuota = async (table: ActiveTable, value: string) => {
+    const messageQuota = value.trim() === '' ? null : parseInt(value);
+    if (messageQuota === table.messageQuota) return;
 
     try {
-      const response = await fetch(buildApiUrl(`admin/delete-table/${tableNumber}`), {
-        method: 'DELETE',
-        headers: getApiHeaders()
+      const response = await fetch(buildApiUrl('admin/table-quota'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ tableNumber: table.tableNumber, messageQuota })
       });
 
       if (response.ok) {
-        toast.success(`Tavolo ${tableNumber} eliminato con successo!`);
-        await fetchActiveTables();
+        toast.success(messageQuota === null
+            ? `Tavolo ${table.tableNumber}: quota predefinita`
+            : `Tavolo ${table.tableNumber}: ${messageQuota} messaggi/min`);
       } else {
-        toast.error('Errore nell\'eliminazione del tavolo');
+        const errorData = await response.json();
+        toast.error(errorData.error || 'Errore nell\'aggiornamento della quota');
       }
     } catch (error) {
-      console.error('Error deleting table:', error);
+      console.error('Error updating table quota:', error);
       toast.error('Errore di connessione');
+    } finally {
+      await fetchActiveTables();
     }
   };
 
@@ -543,25 +1525,29 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     }
   };
 
-  const handleResetGame = async () => {
-    if (!confirm('Sei sicuro di voler resettare completamente il gioco? Tutti i messaggi e utenti verranno eliminati. Questa azione non può essere annullata.')) return;
+  // Chiude la serata in corso e ne apre una nuova: la precedente resta nell'archivio eventi
+  const handleNewEvent = async () => {
+    const name = prompt('Nome del nuovo evento (la serata in corso verrà chiusa e archiviata):', `Serata del ${new Date().toLocaleDateString('it-IT')}`);
+    if (name === null) return;
 
     setIsLoading(true);
     try {
-      const response = await fetch(buildApiUrl('admin/reset-game'), {
+      const response = await fetch(buildApiUrl('admin/events'), {
         method: 'POST',
-        headers: getApiHeaders()
+        headers: getApiHeaders(),
+        body: JSON.stringify({ name })
       });
 
       if (response.ok) {
-        toast.success('Gioco resettato completamente');
-        await Promise.all([fetchGameStatus(), fetchAllMessages(), fetchActiveTables()]);
+        const data = await response.json();
+        toast.success(`Nuovo evento: ${data.event.name}`);
+        await Promise.all([fetchGameStatus(), fetchAllMessages(true), fetchActiveTables()]);
       } else {
         const errorData = await response.json();
-        toast.error(errorData.error || 'Errore nel reset del gioco');
+        toast.error(errorData.error || 'Errore nella creazione dell\'evento');
       }
     } catch (error) {
-      console.error('Error resetting game:', error);
+      console.error('Error creating event:', error);
       toast.error('Errore di connessione');
     } finally {
       setIsLoading(false);
@@ -593,19 +1579,43 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     fetchAllMessages();
     fetchActiveTables();
     fetchGameStatus();
+    fetchRateLimits();
+    fetchReactionEmojis();
     fetchLeaderboard();
+    fetchScoring();
     fetchCountdown();
     fetchActiveChallenges();
+    fetchEndedChallenges();
+    fetchChallengeTypes();
+    fetchPlaylist();
     fetchAdminProfile();
     fetchStaff();
+    fetchModerationQueue();
+    fetchBlockedTerms();
+    fetchReports();
+    fetchPlayerBans();
+    fetchDisplayTokens();
   }, []);
 
+  // La coda di moderazione va tenuta fresca: i messaggi si auto-approvano dopo il timeout
+  useEffect(() => {
+    if (!hasPermission('moderate_messages')) return;
+
+    const interval = setInterval(() => {
+      fetchModerationQueue();
+      fetchReports(reportsView);
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [reportsView]);
+
   // Auto-refresh leaderboard, countdown, and challenges every 10 seconds
   useEffect(() => {
     const interval = setInterval(() => {
       fetchLeaderboard();
       fetchCountdown();
       fetchActiveChallenges();
+      fetchEndedChallenges();
+      fetchPlaylist();
     }, 10000);
     return () => clearInterval(interval);
   }, []);
@@ -615,6 +1625,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
     const handleAutoRefresh = () => {
       fetchAllMessages();
       fetchActiveTables();
+      fetchPlayerBans();
       fetchGameStatus();
       fetchActiveChallenges();
     };
@@ -682,7 +1693,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                   <MessageCircle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                 </CardHeader>
                 <CardContent className="px-4 pb-3">
-                  <div className="text-xl sm:text-2xl font-bold">{allMessages.length}</div>
+                  <div className="text-xl sm:text-2xl font-bold">{totalMessages}</div>
                 </CardContent>
               </Card>
             </div>
@@ -700,6 +1711,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                 <CardTitle className="text-base sm:text-lg">Controlli del Gioco</CardTitle>
                 <CardDescription className="text-sm">
                   Gestisci lo stato del gioco e controlla quando i giocatori possono inviare messaggi
+                  {gameStatus.event && <> · Evento in corso: <strong>{gameStatus.event.name}</strong></>}
                 </CardDescription>
               </CardHeader>
               <CardContent className="px-4 sm:px-6">
@@ -738,9 +1750,9 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                       </Button>
                   )}
 
-                  <Button onClick={handleResetGame} disabled={isLoading || !hasPermission('manage_game_state')} variant="outline" className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground min-h-[44px] sm:col-span-2 lg:col-span-1" size="sm">
-                    <RotateCcw className="w-4 h-4 mr-2" />
-                    Reset Completo
+                  <Button onClick={handleNewEvent} disabled={isLoading || !isAdmin} variant="outline" className="min-h-[44px] sm:col-span-2 lg:col-span-1" size="sm">
+                    <CalendarPlus className="w-4 h-4 mr-2" />
+                    Nuovo Evento
                   </Button>
                 </div>
                 {!hasPermission('manage_game_state') && (
@@ -748,6 +1760,78 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                       ⚠️ Non hai i permessi per controllare lo stato del gioco
                     </p>
                 )}
+
+                <Separator className="my-4" />
+
+                {/* Slow mode e quota messaggi per tavolo */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <Timer className="w-4 h-4" />
+                    Modalità lenta
+                    {(gameStatus.slowModeSeconds || 0) > 0 && (
+                        <Badge variant="secondary" className="text-xs">1 msg ogni {gameStatus.slowModeSeconds}s</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {SLOW_MODE_OPTIONS.map(seconds => (
+                        <Button
+                            key={seconds}
+                            onClick={() => handleSetSlowMode(seconds)}
+                            disabled={!hasPermission('manage_game_state')}
+                            variant={(gameStatus.slowModeSeconds || 0) === seconds ? 'default' : 'outline'}
+                            size="sm"
+                            className="min-h-[36px]"
+                        >
+                          {seconds === 0 ? 'Off' : `${seconds}s`}
+                        </Button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="defaultMessageQuota" className="text-xs text-muted-foreground">Messaggi al minuto per tavolo (predefinito)</Label>
+                      <Input
+                          id="defaultMessageQuota"
+                          type="number"
+                          min="1"
+                          max="200"
+                          value={defaultMessageQuota}
+                          onChange={(e) => setDefaultMessageQuota(e.target.value)}
+                          disabled={!hasPermission('manage_game_state')}
+                          className="w-28 min-h-[36px]"
+                      />
+                    </div>
+                    <Button
+                        onClick={handleSaveDefaultQuota}
+                        disabled={!hasPermission('manage_game_state') || !defaultMessageQuota}
+                        variant="outline"
+                        size="sm"
+                        className="min-h-[36px]"
+                    >
+                      Salva quota
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="reactionEmojis" className="text-xs text-muted-foreground">Emoji reazioni (separate da spazi, max 8)</Label>
+                      <Input
+                          id="reactionEmojis"
+                          value={reactionEmojisInput}
+                          onChange={(e) => setReactionEmojisInput(e.target.value)}
+                          disabled={!hasPermission('manage_game_state')}
+                          className="w-56 min-h-[36px]"
+                      />
+                    </div>
+                    <Button
+                        onClick={handleSaveReactionEmojis}
+                        disabled={!hasPermission('manage_game_state') || !reactionEmojisInput.trim()}
+                        variant="outline"
+                        size="sm"
+                        className="min-h-[36px]"
+                    >
+                      Salva emoji
+                    </Button>
+                  </div>
+                </div>
               </CardContent>
             </Card>
 
@@ -773,6 +1857,30 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                         Messaggi
                       </TabsTrigger>
                   )}
+                  {hasPermission('moderate_messages') && (
+                      <TabsTrigger value="moderation" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
+                        <ShieldCheck className="w-4 h-4 mr-1.5" />
+                        Moderazione
+                        {moderationQueue.length > 0 && (
+                            <Badge variant="destructive" className="ml-1.5 h-5 px-1.5 text-xs">{moderationQueue.length}</Badge>
+                        )}
+                      </TabsTrigger>
+                  )}
+                  {hasPermission('moderate_messages') && (
+                      <TabsTrigger value="reports" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
+                        <Flag className="w-4 h-4 mr-1.5" />
+                        Segnalazioni
+                        {openReportsCount > 0 && (
+                            <Badge variant="destructive" className="ml-1.5 h-5 px-1.5 text-xs">{openReportsCount}</Badge>
+                        )}
+                      </TabsTrigger>
+                  )}
+                  {hasPermission('moderate_messages') && (
+                      <TabsTrigger value="blocked-terms" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
+                        <Ban className="w-4 h-4 mr-1.5" />
+                        Filtro Parole
+                      </TabsTrigger>
+                  )}
                   {hasPermission('send_broadcast') && (
                       <TabsTrigger value="broadcast" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
                         <Radio className="w-4 h-4 mr-1.5" />
@@ -797,6 +1905,12 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                         Sfide
                       </TabsTrigger>
                   )}
+                  {hasPermission('view_messages') && (
+                      <TabsTrigger value="events" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
+                        <CalendarDays className="w-4 h-4 mr-1.5" />
+                        Eventi
+                      </TabsTrigger>
+                  )}
                   {isAdmin && (
                       <TabsTrigger value="profilo" className="text-xs px-3 py-2 data-[state=active]:!bg-primary data-[state=active]:!text-primary-foreground data-[state=active]:!shadow-md transition-all duration-200">
                         <User className="w-4 h-4 mr-1.5" />
@@ -876,6 +1990,19 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                                   <Badge variant="secondary" className="mt-1 text-xs">
                                     {table.userCount} utenti
                                   </Badge>
+                                  <div className="flex items-center gap-2 mt-2">
+                                    <Input
+                                        key={`${table.tableNumber}-${table.messageQuota}`}
+                                        type="number"
+                                        min="1"
+                                        max="200"
+                                        placeholder={defaultMessageQuota}
+                                        defaultValue={table.messageQuota ?? ''}
+                                        onBlur={(e) => handleSetTableQuota(table, e.target.value)}
+                                        className="w-20 h-8 text-xs"
+                                    />
+                                    <span className="text-xs text-muted-foreground">msg/min</span>
+                                  </div>
                                 </div>
                                 <Button
                                     onClick={() => handleDeleteTable(table.tableNumber)}
@@ -909,39 +2036,327 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="px-4 sm:px-6">
+                    {hasPermission('moderate_messages') && (
+                        <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-4 p-3 border rounded-lg bg-muted/30">
+                          <div className="space-y-1">
+                            <Label htmlFor="sanction-minutes" className="text-xs">Durata sanzioni (minuti)</Label>
+                            <Input
+                                id="sanction-minutes"
+                                type="number"
+                                min="1"
+                                max="240"
+                                value={sanctionMinutes}
+                                onChange={(e) => setSanctionMinutes(e.target.value)}
+                                className="w-28"
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Silenzia: il tavolo non può scrivere. In ombra: i messaggi sembrano inviati ma non arrivano. Espelli: il giocatore esce e non può rientrare.
+                          </p>
+                        </div>
+                    )}
+                    {playerBans.length > 0 && (
+                        <div className="mb-4 space-y-2">
+                          <h3 className="font-medium text-sm">Giocatori espulsi</h3>
+                          {playerBans.map((ban) => (
+                              <div key={ban.id} className="flex flex-wrap items-center justify-between gap-2 p-2 border border-red-200 rounded-lg text-sm">
+                                <span>
+                                  {ban.firstName} {ban.lastName} · Tavolo {ban.tableId} · fino alle {new Date(ban.until).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                                  <span className="text-xs text-muted-foreground"> (da {ban.bannedBy})</span>
+                                </span>
+                                {hasPermission('moderate_messages') && (
+                                    <Button size="sm" variant="ghost" className="h-7" onClick={() => handleLiftBan(ban)}>
+                                      Revoca
+                                    </Button>
+                                )}
+                              </div>
+                          ))}
+                        </div>
+                    )}
+                    <ScrollArea className="h-80 sm:h-96">
+                      <div className="space-y-4 sm:space-y-6">
+                        {activeTables.map((table) => (
+                            <div key={table.tableNumber}>
+                              <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-3">
+                                <h3 className="font-medium text-sm sm:text-base">Tavolo {table.tableNumber}</h3>
+                                <Badge variant="outline" className="text-xs">{table.userCount} utenti</Badge>
+                                <div className="flex items-center gap-1">
+                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                                  <span className="text-xs text-green-600">Live</span>
+                                </div>
+                                {table.mutedUntil && (
+                                    <Badge variant="secondary" className="bg-slate-200 text-xs">
+                                      🔇 fino alle {new Date(table.mutedUntil).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                                    </Badge>
+                                )}
+                                {table.shadowMutedUntil && (
+                                    <Badge variant="secondary" className="bg-slate-200 text-xs">
+                                      👻 in ombra fino alle {new Date(table.shadowMutedUntil).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                                    </Badge>
+                                )}
+                                {hasPermission('moderate_messages') && (
+                                    <div className="flex items-center gap-1 ml-auto">
+                                      {table.mutedUntil ? (
+                                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleMuteTable(table.tableNumber, 0)}>
+                                            <Volume2 className="w-3.5 h-3.5 mr-1" />
+                                            Riattiva
+                                          </Button>
+                                      ) : (
+                                          <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={!sanctionMinutes} onClick={() => handleMuteTable(table.tableNumber, parseInt(sanctionMinutes))}>
+                                            <VolumeX className="w-3.5 h-3.5 mr-1" />
+                                            Silenzia
+                                          </Button>
+                                      )}
+                                      {table.shadowMutedUntil ? (
+                                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleMuteTable(table.tableNumber, 0, true)}>
+                                            <Ghost className="w-3.5 h-3.5 mr-1" />
+                                            Fine ombra
+                                          </Button>
+                                      ) : (
+                                          <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={!sanctionMinutes} onClick={() => handleMuteTable(table.tableNumber, parseInt(sanctionMinutes), true)}>
+                                            <Ghost className="w-3.5 h-3.5 mr-1" />
+                                            In ombra
+                                          </Button>
+                                      )}
+                                    </div>
+                                )}
+                              </div>
+                              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4 sm:mb-6">
+                                {table.users.map((user) => (
+                                    <div key={user.id} className="p-3 border rounded-lg flex items-start justify-between gap-2">
+                                      <div>
+                                        <div className="font-medium text-sm sm:text-base">{user.firstName} {user.lastName}</div>
+                                        <div className="text-xs sm:text-sm text-muted-foreground">
+                                          Connesso: {formatTimestamp(user.joinedAt)}
+                                        </div>
+                                      </div>
+                                      {hasPermission('moderate_messages') && (
+                                          <Button
+                                              size="sm"
+                                              variant="ghost"
+                                              className="h-7 px-2 text-destructive"
+                                              disabled={!sanctionMinutes}
+                                              onClick={() => handleKickUser(user, table.tableNumber)}
+                                              title="Espelli giocatore"
+                                          >
+                                            <UserX className="w-4 h-4" />
+                                          </Button>
+                                      )}
+                                    </div>
+                                ))}
+                                {table.users.length === 0 && (
+                                    <div className="text-muted-foreground col-span-full text-sm">
+                                      Nessun utente connesso
+                                    </div>
+                                )}
+                              </div>
+                              <Separator />
+                            </div>
+                        ))}
+                        {activeTables.length === 0 && (
+                            <div className="text-center text-muted-foreground py-8 text-sm">
+                              Nessun tavolo attivo
+                            </div>
+                        )}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Messages */}
+              <TabsContent value="messages">
+                <Card>
+                  <CardHeader className="px-4 sm:px-6">
+                    <CardTitle className="text-base sm:text-lg">Tutti i Messaggi ({totalMessages})</CardTitle>
+                    <CardDescription className="text-sm">
+                      🔍 Cronologia completa dei messaggi con visibilità ADMIN sui mittenti reali (anche per messaggi anonimi)
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="px-4 sm:px-6">
+                    <ScrollArea className="h-80 sm:h-96">
+                      <div className="space-y-4">
+                        {/* Raggruppati per conversazione: le risposte rientrate sotto il messaggio originale */}
+                        {groupThreads(allMessages).flatMap((thread) => thread.map((message, index) => (
+                            <div key={message.id} className={`p-3 sm:p-4 border rounded-lg ${index > 0 ? 'ml-4 sm:ml-8 border-l-4 border-l-primary/30' : ''} ${message.hidden ? 'opacity-60 bg-muted/50' : message.flagged ? 'border-red-300 bg-red-50/60' : ''}`}>
+                              <div className="flex flex-col sm:flex-row sm:items-start justify-between mb-2 gap-2">
+                                <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+                                  <Badge variant="outline" className="text-xs">
+                                    Tavolo {message.fromTable} → Tavolo {message.toTable}
+                                  </Badge>
+                                  {message.isAnonymous && (
+                                      <Badge variant="secondary" className="bg-orange-100 text-orange-800 text-xs">
+                                        📋 Anonimo
+                                      </Badge>
+                                  )}
+                                  {message.replyToId && (
+                                      <Badge variant="secondary" className="text-xs">
+                                        ↩️ Risposta{message.recipientName ? ` a ${message.recipientName}` : ''}
+                                      </Badge>
+                                  )}
+                                  {message.status === 'pending' && (
+                                      <Badge variant="secondary" className="bg-amber-100 text-amber-800 text-xs">
+                                        ⏳ In attesa
+                                      </Badge>
+                                  )}
+                                  {message.flagged && (
+                                      <Badge variant="secondary" className="bg-red-100 text-red-800 text-xs">
+                                        <Flag className="w-3 h-3 mr-1" />
+                                        Da rivedere{message.flaggedTerms && message.flaggedTerms.length > 0 ? `: ${message.flaggedTerms.join(', ')}` : ''}
+                                      </Badge>
+                                  )}
+                                  {message.status === 'shadowed' && (
+                                      <Badge variant="secondary" className="bg-slate-200 text-slate-700 text-xs">
+                                        👻 Non consegnato (silenziato in ombra)
+                                      </Badge>
+                                  )}
+                                  {message.status === 'rejected' && (
+                                      <Badge variant="secondary" className="bg-red-100 text-red-800 text-xs">
+                                        🚫 Rifiutato{message.moderatedBy ? ` da ${message.moderatedBy}` : ''}
+                                      </Badge>
+                                  )}
+                                </div>
+                                <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground whitespace-nowrap">
+                                  {formatTimestamp(message.timestamp)}
+                                  {hasPermission('moderate_messages') && (
+                                      message.hidden ? (
+                                          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => handleRestoreMessage(message)} title="Ripristina messaggio">
+                                            <Eye className="w-4 h-4" />
+                                          </Button>
+                                      ) : (
+                                          <Button size="sm" variant="ghost" className="h-7 px-2 text-destructive" onClick={() => handleHideMessage(message)} title="Nascondi messaggio">
+                                            <EyeOff className="w-4 h-4" />
+                                          </Button>
+                                      )
+                                  )}
+                                </div>
+                              </div>
+                              <p className={`text-sm mb-2 break-words ${message.hidden ? 'line-through' : ''}`}>{message.content}</p>
+                              {message.hiddenAt && (
+                                  <div className="text-xs text-muted-foreground mb-2">
+                                    🙈 Nascosto da {message.hiddenBy || 'staff'} il {formatTimestamp(message.hiddenAt)}
+                                    {message.hiddenReason && <> — {message.hiddenReason}</>}
+                                  </div>
+                              )}
+                              {!message.hidden && message.restoredAt && (
+                                  <div className="text-xs text-muted-foreground mb-2">
+                                    ↩️ Ripristinato da {message.restoredBy || 'staff'} il {formatTimestamp(message.restoredAt)}
+                                  </div>
+                              )}
+                              <div className="text-xs sm:text-sm bg-blue-50 p-2 sm:p-3 rounded border">
+                                {message.senderName ? (
+                                    <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2">
+                                      <strong className="text-blue-800 text-xs sm:text-sm">🔍 Mittente Reale (ADMIN VIEW):</strong>
+                                      <span className="text-blue-700 break-words">{message.senderName}</span>
+                                      {message.isAnonymous && (
+                                          <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200 text-xs mt-1 sm:mt-0 w-fit">
+                                            Inviato come Anonimo ai destinatari
+                                          </Badge>
+                                      )}
+                                    </div>
+                                ) : (
+                                    <span className="text-red-600 text-xs sm:text-sm break-words">⚠️ Mittente sconosciuto (dati mancanti nel database)</span>
+                                )}
+                              </div>
+                            </div>
+                        )))}
+                        {allMessages.length === 0 && (
+                            <div className="text-center text-muted-foreground py-8 text-sm">
+                              Nessun messaggio inviato
+                            </div>
+                        )}
+                        <LoadOlderMessages
+                            hasMore={hasOlderMessages}
+                            isLoading={isLoadingOlderMessages}
+                            onLoadMore={fetchOlderMessages}
+                        />
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Moderazione */}
+              <TabsContent value="moderation">
+                <Card>
+                  <CardHeader className="px-4 sm:px-6">
+                    <CardTitle className="text-base sm:text-lg">Coda di Moderazione ({moderationQueue.length})</CardTitle>
+                    <CardDescription className="text-sm">
+                      Con la pre-moderazione attiva i messaggi arrivano ai destinatari solo dopo l'approvazione dello staff
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="px-4 sm:px-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-end gap-4 p-3 border rounded-lg bg-muted/30">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                            id="pre-moderation"
+                            checked={preModeration}
+                            onCheckedChange={(checked) => updateModerationSettings({ preModeration: checked })}
+                        />
+                        <Label htmlFor="pre-moderation">Pre-moderazione attiva</Label>
+                      </div>
+                      <div className="flex items-end gap-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="auto-approve" className="text-xs">Auto-approvazione dopo (secondi, 0 = mai)</Label>
+                          <Input
+                              id="auto-approve"
+                              type="number"
+                              min="0"
+                              max="3600"
+                              value={autoApproveSeconds}
+                              onChange={(e) => setAutoApproveSeconds(e.target.value)}
+                              className="w-28"
+                          />
+                        </div>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateModerationSettings({ autoApproveSeconds: parseInt(autoApproveSeconds) })}
+                            disabled={autoApproveSeconds === ''}
+                        >
+                          Salva
+                        </Button>
+                      </div>
+                    </div>
+
                     <ScrollArea className="h-80 sm:h-96">
-                      <div className="space-y-4 sm:space-y-6">
-                        {activeTables.map((table) => (
-                            <div key={table.tableNumber}>
-                              <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-3">
-                                <h3 className="font-medium text-sm sm:text-base">Tavolo {table.tableNumber}</h3>
-                                <Badge variant="outline" className="text-xs">{table.userCount} utenti</Badge>
-                                <div className="flex items-center gap-1">
-                                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                                  <span className="text-xs text-green-600">Live</span>
+                      <div className="space-y-3">
+                        {moderationQueue.map((message) => (
+                            <div key={message.id} className="p-3 sm:p-4 border border-amber-200 rounded-lg">
+                              <div className="flex flex-col sm:flex-row sm:items-start justify-between mb-2 gap-2">
+                                <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+                                  <Badge variant="outline" className="text-xs">
+                                    Tavolo {message.fromTable} → Tavolo {message.toTable}
+                                  </Badge>
+                                  {message.isAnonymous && (
+                                      <Badge variant="secondary" className="bg-orange-100 text-orange-800 text-xs">
+                                        📋 Anonimo
+                                      </Badge>
+                                  )}
+                                  {message.senderName && (
+                                      <span className="text-xs text-muted-foreground">da {message.senderName}</span>
+                                  )}
+                                </div>
+                                <div className="text-xs sm:text-sm text-muted-foreground whitespace-nowrap">
+                                  {formatTimestamp(message.timestamp)}
                                 </div>
                               </div>
-                              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4 sm:mb-6">
-                                {table.users.map((user, index) => (
-                                    <div key={index} className="p-3 border rounded-lg">
-                                      <div className="font-medium text-sm sm:text-base">{user.firstName} {user.lastName}</div>
-                                      <div className="text-xs sm:text-sm text-muted-foreground">
-                                        Connesso: {formatTimestamp(user.joinedAt)}
-                                      </div>
-                                    </div>
-                                ))}
-                                {table.users.length === 0 && (
-                                    <div className="text-muted-foreground col-span-full text-sm">
-                                      Nessun utente connesso
-                                    </div>
-                                )}
+                              <p className="text-sm mb-3 break-words">{message.content}</p>
+                              <div className="flex gap-2">
+                                <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleModerateMessage(message.id, 'approve')}>
+                                  <Check className="w-4 h-4 mr-1" />
+                                  Approva
+                                </Button>
+                                <Button size="sm" variant="outline" className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground" onClick={() => handleModerateMessage(message.id, 'reject')}>
+                                  <X className="w-4 h-4 mr-1" />
+                                  Rifiuta
+                                </Button>
                               </div>
-                              <Separator />
                             </div>
                         ))}
-                        {activeTables.length === 0 && (
+                        {moderationQueue.length === 0 && (
                             <div className="text-center text-muted-foreground py-8 text-sm">
-                              Nessun tavolo attivo
+                              Nessun messaggio in attesa
                             </div>
                         )}
                       </div>
@@ -950,56 +2365,196 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                 </Card>
               </TabsContent>
 
-              {/* Messages */}
-              <TabsContent value="messages">
+              {/* Segnalazioni */}
+              <TabsContent value="reports">
                 <Card>
                   <CardHeader className="px-4 sm:px-6">
-                    <CardTitle className="text-base sm:text-lg">Tutti i Messaggi ({allMessages.length})</CardTitle>
+                    <CardTitle className="text-base sm:text-lg">Segnalazioni ({openReportsCount} aperte)</CardTitle>
                     <CardDescription className="text-sm">
-                      🔍 Cronologia completa dei messaggi con visibilità ADMIN sui mittenti reali (anche per messaggi anonimi)
+                      🔍 Messaggi segnalati dai tavoli destinatari, con il mittente reale anche per i messaggi anonimi
                     </CardDescription>
                   </CardHeader>
-                  <CardContent className="px-4 sm:px-6">
+                  <CardContent className="px-4 sm:px-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+                      <div className="flex gap-1">
+                        <Button
+                            size="sm"
+                            variant={reportsView === 'open' ? 'default' : 'outline'}
+                            onClick={() => { setReportsView('open'); fetchReports('open'); }}
+                        >
+                          Aperte
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant={reportsView === 'resolved' ? 'default' : 'outline'}
+                            onClick={() => { setReportsView('resolved'); fetchReports('resolved'); }}
+                        >
+                          Risolte
+                        </Button>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="report-mute-minutes" className="text-xs">Durata silenziamento (minuti)</Label>
+                        <Input
+                            id="report-mute-minutes"
+                            type="number"
+                            min="1"
+                            max="240"
+                            value={reportMuteMinutes}
+                            onChange={(e) => setReportMuteMinutes(e.target.value)}
+                            className="w-28"
+                        />
+                      </div>
+                    </div>
+
                     <ScrollArea className="h-80 sm:h-96">
-                      <div className="space-y-4">
-                        {allMessages.map((message) => (
-                            <div key={message.id} className="p-3 sm:p-4 border rounded-lg">
+                      <div className="space-y-3">
+                        {reports.map((report) => (
+                            <div key={report.id} className={`p-3 sm:p-4 border rounded-lg ${report.status === 'open' ? 'border-red-200' : 'opacity-75'}`}>
                               <div className="flex flex-col sm:flex-row sm:items-start justify-between mb-2 gap-2">
                                 <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+                                  <Badge variant="destructive" className="text-xs">
+                                    {REPORT_REASONS.find(r => r.value === report.reason)?.label || report.reason}
+                                  </Badge>
                                   <Badge variant="outline" className="text-xs">
-                                    Tavolo {message.fromTable} → Tavolo {message.toTable}
+                                    Tavolo {report.message.fromTable ?? '?'} → Tavolo {report.message.toTable}
                                   </Badge>
-                                  {message.isAnonymous && (
+                                  {report.message.isAnonymous && (
                                       <Badge variant="secondary" className="bg-orange-100 text-orange-800 text-xs">
                                         📋 Anonimo
                                       </Badge>
                                   )}
+                                  {report.message.hidden && (
+                                      <Badge variant="secondary" className="text-xs">Nascosto</Badge>
+                                  )}
+                                  {report.message.senderMutedUntil && (
+                                      <Badge variant="secondary" className="bg-slate-200 text-xs">
+                                        🔇 fino alle {new Date(report.message.senderMutedUntil).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                                      </Badge>
+                                  )}
                                 </div>
                                 <div className="text-xs sm:text-sm text-muted-foreground whitespace-nowrap">
-                                  {formatTimestamp(message.timestamp)}
+                                  {formatTimestamp(report.createdAt)}
                                 </div>
                               </div>
-                              <p className="text-sm mb-2 break-words">{message.content}</p>
-                              <div className="text-xs sm:text-sm bg-blue-50 p-2 sm:p-3 rounded border">
-                                {message.senderName ? (
-                                    <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2">
-                                      <strong className="text-blue-800 text-xs sm:text-sm">🔍 Mittente Reale (ADMIN VIEW):</strong>
-                                      <span className="text-blue-700 break-words">{message.senderName}</span>
-                                      {message.isAnonymous && (
-                                          <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200 text-xs mt-1 sm:mt-0 w-fit">
-                                            Inviato come Anonimo ai destinatari
-                                          </Badge>
-                                      )}
+                              <p className="text-sm mb-2 break-words">{report.message.content}</p>
+                              <div className="text-xs sm:text-sm bg-blue-50 p-2 sm:p-3 rounded border space-y-1">
+                                <div>
+                                  <strong className="text-blue-800">🔍 Mittente Reale:</strong>{' '}
+                                  <span className="text-blue-700 break-words">{report.message.senderName} (Tavolo {report.message.fromTable ?? '?'})</span>
+                                </div>
+                                <div className="text-muted-foreground">
+                                  Segnalato da {report.reporterName} (Tavolo {report.reporterTable})
+                                  {report.note && <>: <em className="break-words">“{report.note}”</em></>}
+                                </div>
+                                {report.actions.length > 0 && (
+                                    <div className="text-muted-foreground">
+                                      Azioni: {report.actions.map(a => ({ hide: 'nascosto', warn: 'avvisato', mute: 'silenziato' } as Record<string, string>)[a] || a).join(', ')}
+                                      {report.resolvedBy && ` · risolta da ${report.resolvedBy}`}
                                     </div>
-                                ) : (
-                                    <span className="text-red-600 text-xs sm:text-sm break-words">⚠️ Mittente sconosciuto (dati mancanti nel database)</span>
                                 )}
                               </div>
+                              {report.status === 'open' && (
+                                  <div className="flex flex-wrap gap-2 mt-3">
+                                    <Button size="sm" variant="outline" disabled={report.message.hidden} onClick={() => handleReportAction(report, 'hide')}>
+                                      <EyeOff className="w-4 h-4 mr-1" />
+                                      Nascondi
+                                    </Button>
+                                    <Button size="sm" variant="outline" disabled={!report.message.fromTable} onClick={() => handleReportAction(report, 'warn')}>
+                                      <AlertTriangle className="w-4 h-4 mr-1" />
+                                      Avvisa
+                                    </Button>
+                                    <Button size="sm" variant="outline" disabled={!report.message.fromTable || !reportMuteMinutes} onClick={() => handleReportAction(report, 'mute')}>
+                                      <VolumeX className="w-4 h-4 mr-1" />
+                                      Silenzia
+                                    </Button>
+                                    <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleReportAction(report, 'resolve')}>
+                                      <Check className="w-4 h-4 mr-1" />
+                                      Risolvi
+                                    </Button>
+                                  </div>
+                              )}
                             </div>
                         ))}
-                        {allMessages.length === 0 && (
+                        {reports.length === 0 && (
                             <div className="text-center text-muted-foreground py-8 text-sm">
-                              Nessun messaggio inviato
+                              {reportsView === 'open' ? 'Nessuna segnalazione aperta' : 'Nessuna segnalazione risolta'}
+                            </div>
+                        )}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Filtro Parole */}
+              <TabsContent value="blocked-terms">
+                <Card>
+                  <CardHeader className="px-4 sm:px-6">
+                    <CardTitle className="text-base sm:text-lg">Filtro Parole ({blockedTerms.length})</CardTitle>
+                    <CardDescription className="text-sm">
+                      Il confronto ignora maiuscole, accenti, leetspeak (es. 0 → o) e lettere ripetute. Un * finale accetta qualsiasi desinenza (es. stronz*)
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="px-4 sm:px-6 space-y-4">
+                    <form
+                        className="flex flex-col sm:flex-row gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          if (newBlockedTerm.trim()) saveBlockedTerm(newBlockedTerm, newBlockedTermAction);
+                        }}
+                    >
+                      <Input
+                          placeholder="Termine da filtrare"
+                          value={newBlockedTerm}
+                          onChange={(e) => setNewBlockedTerm(e.target.value)}
+                          maxLength={50}
+                      />
+                      <div className="flex gap-1">
+                        {BLOCKED_TERM_ACTIONS.map((option) => (
+                            <Button
+                                key={option.value}
+                                type="button"
+                                size="sm"
+                                variant={newBlockedTermAction === option.value ? 'default' : 'outline'}
+                                onClick={() => setNewBlockedTermAction(option.value)}
+                                title={option.description}
+                            >
+                              {option.label}
+                            </Button>
+                        ))}
+                      </div>
+                      <Button type="submit" size="sm" disabled={!newBlockedTerm.trim()}>
+                        Aggiungi
+                      </Button>
+                    </form>
+
+                    <ScrollArea className="h-72">
+                      <div className="space-y-2">
+                        {blockedTerms.map((term) => (
+                            <div key={term.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 sm:p-3 border rounded-lg">
+                              <span className="font-mono text-sm break-all">{term.term}</span>
+                              <div className="flex items-center gap-1">
+                                {BLOCKED_TERM_ACTIONS.map((option) => (
+                                    <Button
+                                        key={option.value}
+                                        size="sm"
+                                        variant={term.action === option.value ? 'default' : 'ghost'}
+                                        className="h-8 text-xs"
+                                        onClick={() => term.action !== option.value && saveBlockedTerm(term.term, option.value)}
+                                        title={option.description}
+                                    >
+                                      {option.label}
+                                    </Button>
+                                ))}
+                                <Button size="sm" variant="ghost" className="h-8 text-destructive" onClick={() => handleDeleteBlockedTerm(term)}>
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </div>
+                        ))}
+                        {blockedTerms.length === 0 && (
+                            <div className="text-center text-muted-foreground py-8 text-sm">
+                              Nessun termine configurato
                             </div>
                         )}
                       </div>
@@ -1149,7 +2704,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
 
               {/* Leaderboard */}
               <TabsContent value="leaderboard">
-                <div className="max-w-2xl mx-auto">
+                <div className="max-w-2xl mx-auto space-y-4 sm:space-y-6">
                   <Card>
                     <CardHeader className="px-4 sm:px-6 text-center">
                       <CardTitle className="text-lg sm:text-xl flex items-center justify-center gap-2">
@@ -1157,7 +2712,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                         Classifica Tavoli
                       </CardTitle>
                       <CardDescription className="text-sm mt-2">
-                        Top 10 tavoli - Punteggi: msg (0.5pt) | ❤️ (2pt) | 🔥 (1.5pt) | 👍 (1pt) | 😂 (0.5pt)
+                        Top 10 tavoli - Tocca un tavolo per vedere da dove arrivano i suoi punti
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="px-4 sm:px-6">
@@ -1167,7 +2722,8 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                               {leaderboard.map((entry, index) => (
                                   <div
                                       key={entry.tableId}
-                                      className={`flex items-center justify-between gap-3 p-3 sm:p-4 border rounded-lg overflow-hidden ${
+                                      onClick={() => fetchScoreLedger(entry.tableId)}
+                                      className={`flex items-center justify-between gap-3 p-3 sm:p-4 border rounded-lg overflow-hidden cursor-pointer hover:shadow-sm ${
                                           index === 0 ? 'bg-gradient-to-r from-yellow-50 to-amber-50 border-yellow-300' :
                                               index === 1 ? 'bg-gradient-to-r from-gray-50 to-slate-50 border-gray-300' :
                                                   index === 2 ? 'bg-gradient-to-r from-orange-50 to-amber-50 border-orange-300' :
@@ -1186,7 +2742,7 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                                       <div className="min-w-0 flex-1">
                                         <div className="font-semibold text-sm sm:text-base truncate">Tavolo {entry.tableId}</div>
                                         <div className="text-xs sm:text-sm text-muted-foreground">
-                                          {entry.points} {entry.points === 1 ? 'punto' : 'punti'}
+                                          {entry.points} {entry.points === 1 ? 'punto' : 'punti'} · {entry.messageCount} {entry.messageCount === 1 ? 'messaggio' : 'messaggi'}
                                         </div>
                                       </div>
                                     </div>
@@ -1225,6 +2781,97 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                       </div>
                     </CardContent>
                   </Card>
+
+                  {/* Registro punti del tavolo selezionato */}
+                  {scoreLedger && (
+                      <Card>
+                        <CardHeader className="px-4 sm:px-6">
+                          <div className="flex items-center justify-between gap-2">
+                            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                              <ListOrdered className="w-5 h-5" />
+                              Registro Punti - Tavolo {scoreLedger.tableId}
+                            </CardTitle>
+                            <Button variant="ghost" size="sm" onClick={() => setScoreLedger(null)}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          <CardDescription className="text-sm">
+                            Totale: {scoreLedger.total} {scoreLedger.total === 1 ? 'punto' : 'punti'}
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="px-4 sm:px-6 space-y-4">
+                          <div className="flex flex-wrap gap-2">
+                            {scoreLedger.breakdown.map((row) => (
+                                <Badge key={row.reason} variant="outline" className="text-xs">
+                                  {row.label} ×{row.count}: {row.points > 0 ? '+' : ''}{row.points}
+                                </Badge>
+                            ))}
+                          </div>
+                          <ScrollArea className="h-64">
+                            {scoreLedger.entries.length > 0 ? (
+                                <div className="space-y-2 pr-4">
+                                  {scoreLedger.entries.map((entry) => (
+                                      <div key={entry.id} className="flex items-center justify-between gap-3 p-2 border rounded-lg text-sm">
+                                        <div className="min-w-0">
+                                          <div className="truncate">{entry.label}</div>
+                                          <div className="text-xs text-muted-foreground">{formatTimestamp(entry.createdAt)}</div>
+                                        </div>
+                                        <span className={`font-semibold flex-shrink-0 ${entry.points < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                                          {entry.points > 0 ? '+' : ''}{entry.points}
+                                        </span>
+                                      </div>
+                                  ))}
+                                </div>
+                            ) : (
+                                <p className="text-center text-muted-foreground py-8 text-sm">Nessuna voce nel registro</p>
+                            )}
+                          </ScrollArea>
+                        </CardContent>
+                      </Card>
+                  )}
+
+                  {/* Pesi del punteggio */}
+                  {scoringRules.length > 0 && (
+                      <Card>
+                        <CardHeader className="px-4 sm:px-6">
+                          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                            <Edit className="w-5 h-5" />
+                            Pesi del Punteggio
+                          </CardTitle>
+                          <CardDescription className="text-sm">
+                            I nuovi pesi valgono solo per i punti assegnati da ora in poi (0 = voce disattivata)
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="px-4 sm:px-6 space-y-3">
+                          {scoringRules.map((rule) => (
+                              <div key={rule.key} className="flex items-center justify-between gap-3">
+                                <Label htmlFor={`weight-${rule.key}`} className="text-sm">
+                                  {rule.label} {rule.penalty && <span className="text-destructive">(penalità)</span>}
+                                </Label>
+                                <Input
+                                    id={`weight-${rule.key}`}
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    value={scoringWeights[rule.key] ?? ''}
+                                    onChange={(e) => setScoringWeights(prev => ({ ...prev, [rule.key]: e.target.value }))}
+                                    disabled={!hasPermission('manage_game_state')}
+                                    className="w-24 min-h-[44px]"
+                                />
+                              </div>
+                          ))}
+                          {hasPermission('manage_game_state') && (
+                              <Button
+                                  onClick={handleSaveScoringWeights}
+                                  disabled={isSavingWeights}
+                                  className="w-full min-h-[44px]"
+                              >
+                                {isSavingWeights ? 'Salvataggio...' : 'Salva Pesi'}
+                              </Button>
+                          )}
+                        </CardContent>
+                      </Card>
+                  )}
                 </div>
               </TabsContent>
 
@@ -1268,14 +2915,68 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                         <select
                             id="challengeType"
                             value={challengeType}
-                            onChange={(e) => setChallengeType(e.target.value as any)}
+                            onChange={(e) => handleChallengeTypeChange(e.target.value)}
+                            className="w-full px-3 py-2 text-sm border rounded-md"
+                        >
+                          {challengeTypes.map((type) => (
+                              <option key={type.type} value={type.type}>{type.label}</option>
+                          ))}
+                        </select>
+                        {selectedChallengeType && (
+                            <p className="text-xs text-muted-foreground">{selectedChallengeType.description}</p>
+                        )}
+                      </div>
+                      {selectedChallengeType?.params.map((param) => (
+                          <div key={param.key} className="space-y-2">
+                            <Label htmlFor={`challengeParam-${param.key}`} className="text-sm">
+                              {param.label}{param.required ? '' : ' (opzionale)'}
+                            </Label>
+                            <Input
+                                id={`challengeParam-${param.key}`}
+                                type={param.type === 'number' ? 'number' : 'text'}
+                                min={param.min}
+                                max={param.max}
+                                maxLength={param.maxLength}
+                                value={challengeParams[param.key] ?? ''}
+                                onChange={(e) => setChallengeParams(prev => ({ ...prev, [param.key]: e.target.value }))}
+                                placeholder={param.placeholder ?? (param.default !== undefined ? String(param.default) : '')}
+                                className="text-sm"
+                            />
+                            {param.secret && (
+                                <p className="text-xs text-muted-foreground">Non viene mostrato ai giocatori</p>
+                            )}
+                          </div>
+                      ))}
+                      <div className="space-y-2">
+                        <Label htmlFor="challengeTieBreak" className="text-sm">In caso di pareggio</Label>
+                        <select
+                            id="challengeTieBreak"
+                            value={challengeTieBreak}
+                            onChange={(e) => setChallengeTieBreak(e.target.value)}
                             className="w-full px-3 py-2 text-sm border rounded-md"
                         >
-                          <option value="most_messages">Più Messaggi Inviati</option>
-                          <option value="most_reactions">Più Reazioni Ricevute</option>
-                          <option value="speed">Prima a 5 Messaggi (Velocità)</option>
+                          {TIE_BREAK_RULES.map((rule) => (
+                              <option key={rule.value} value={rule.value}>{rule.label}</option>
+                          ))}
                         </select>
+                        <p className="text-xs text-muted-foreground">
+                          {TIE_BREAK_RULES.find(rule => rule.value === challengeTieBreak)?.description}
+                        </p>
                       </div>
+                      {challengeTieBreak === 'sudden_death' && (
+                          <div className="space-y-2">
+                            <Label htmlFor="challengeSuddenDeath" className="text-sm">Durata spareggio (minuti)</Label>
+                            <Input
+                                id="challengeSuddenDeath"
+                                type="number"
+                                min="1"
+                                max="10"
+                                value={challengeSuddenDeathMinutes}
+                                onChange={(e) => setChallengeSuddenDeathMinutes(e.target.value)}
+                                className="text-sm"
+                            />
+                          </div>
+                      )}
                       <div className="space-y-2">
                         <Label htmlFor="challengeDuration" className="text-sm">Durata (minuti)</Label>
                         <Input
@@ -1310,13 +3011,36 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                         />
                       </div>
                       <Button
-                          onClick={handleCreateChallenge}
+                          onClick={() => handleCreateChallenge()}
                           disabled={isCreatingChallenge}
                           className="w-full min-h-[40px]"
                       >
                         <Trophy className="w-4 h-4 mr-2" />
                         {isCreatingChallenge ? 'Creazione...' : 'Crea Sfida'}
                       </Button>
+                      <div className="flex items-end gap-2 pt-2 border-t">
+                        <div className="space-y-2 w-32">
+                          <Label htmlFor="challengeOffset" className="text-sm">Avvio a +min</Label>
+                          <Input
+                              id="challengeOffset"
+                              type="number"
+                              min="0"
+                              max="600"
+                              value={challengeOffset}
+                              onChange={(e) => setChallengeOffset(e.target.value)}
+                              className="text-sm"
+                          />
+                        </div>
+                        <Button
+                            onClick={() => handleCreateChallenge(true)}
+                            disabled={isCreatingChallenge}
+                            variant="outline"
+                            className="flex-1 min-h-[40px]"
+                        >
+                          <ListOrdered className="w-4 h-4 mr-2" />
+                          Aggiungi alla Scaletta
+                        </Button>
+                      </div>
                     </CardContent>
                   </Card>
 
@@ -1374,20 +3098,57 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                                           )}
                                           <div className="flex flex-wrap gap-2">
                                             <Badge variant="secondary" className="text-xs">
-                                              {challenge.type === 'most_messages' && '📨 Più Messaggi'}
-                                              {challenge.type === 'most_reactions' && '❤️ Più Reazioni'}
-                                              {challenge.type === 'speed' && '⚡ Velocità'}
-                                            </Badge>
-                                            <Badge variant={timeLeft <= 1 ? 'destructive' : 'default'} className="text-xs">
-                                              <Clock className="w-3 h-3 mr-1" />
-                                              {timeLeft} min
+                                              {challenge.typeLabel}
                                             </Badge>
+                                            {challenge.extendedAt && (
+                                                <Badge variant="destructive" className="text-xs">⚔️ Spareggio</Badge>
+                                            )}
+                                            {isAwaitingJudgement(challenge) ? (
+                                                <Badge variant="destructive" className="text-xs">⚖️ In attesa del verdetto</Badge>
+                                            ) : (
+                                                <Badge variant={timeLeft <= 1 ? 'destructive' : 'default'} className="text-xs">
+                                                  <Clock className="w-3 h-3 mr-1" />
+                                                  {timeLeft} min
+                                                </Badge>
+                                            )}
                                             <Badge variant="outline" className="text-xs">
                                               Badge: {challenge.badgeName}
                                             </Badge>
                                           </div>
                                         </div>
                                       </div>
+                                      {challenge.judging && (
+                                          <div className="space-y-2 mt-3">
+                                            <p className="text-xs font-medium text-muted-foreground">
+                                              Partecipazioni ({(challengeSubmissions[challenge.id] || []).length})
+                                            </p>
+                                            {(challengeSubmissions[challenge.id] || []).map((submission) => (
+                                                <div key={submission.id} className="p-2 border rounded-lg bg-background text-sm">
+                                                  <div className="flex items-center justify-between gap-2 mb-1">
+                                                    <span className="font-medium text-xs">
+                                                      Tavolo {submission.fromTable} → {submission.toTable}
+                                                    </span>
+                                                    {challenge.judging === 'vote' && (
+                                                        <Badge variant="secondary" className="text-xs">
+                                                          {submission.votes} {submission.votes === 1 ? 'voto' : 'voti'}
+                                                        </Badge>
+                                                    )}
+                                                  </div>
+                                                  <p className="break-words whitespace-pre-wrap">{submission.content}</p>
+                                                  {challenge.judging === 'staff' && (
+                                                      <Button
+                                                          onClick={() => handleJudgeChallenge(challenge.id, submission)}
+                                                          size="sm"
+                                                          className="w-full mt-2"
+                                                      >
+                                                        <Trophy className="w-4 h-4 mr-2" />
+                                                        Scegli come vincitore
+                                                      </Button>
+                                                  )}
+                                                </div>
+                                            ))}
+                                          </div>
+                                      )}
                                       <Button
                                           onClick={() => handleEndChallenge(challenge.id)}
                                           variant="destructive"
@@ -1404,9 +3165,160 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
                       </ScrollArea>
                     </CardContent>
                   </Card>
+
+                  {/* Playlist */}
+                  <Card className="lg:col-span-2">
+                    <CardHeader className="px-4 sm:px-6">
+                      <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                        <ListOrdered className="w-5 h-5 text-primary" />
+                        Scaletta della Serata
+                      </CardTitle>
+                      <CardDescription className="text-sm">
+                        {playlist.elapsedSeconds === null
+                            ? 'Le sfide partono da sole, contando dall\'inizio del gioco'
+                            : `Tempo di gioco: ${Math.floor(playlist.elapsedSeconds / 60)} min${playlist.gameStatus === 'paused' ? ' (in pausa: la scaletta è ferma)' : ''}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="px-4 sm:px-6">
+                      {playlist.items.length === 0 ? (
+                          <div className="text-center text-muted-foreground py-8">
+                            <p className="text-sm">Nessuna sfida in scaletta</p>
+                          </div>
+                      ) : (
+                          <div className="space-y-2">
+                            {playlist.items.map((item) => {
+                              const isNext = item.id === playlist.nextItemId;
+
+                              return (
+                                  <div
+                                      key={item.id}
+                                      className={`flex flex-wrap items-center gap-3 p-3 border rounded-lg ${
+                                          isNext ? 'border-primary bg-primary/5' : item.status !== 'pending' ? 'opacity-60' : ''
+                                      }`}
+                                  >
+                                    <Badge variant={isNext ? 'default' : 'outline'} className="font-mono">
+                                      +{Math.floor(item.startsAtSecond / 60)}'
+                                    </Badge>
+                                    <div className="flex-1 min-w-0">
+                                      <div className="font-medium text-sm truncate">
+                                        {item.badgeEmoji} {item.title}
+                                      </div>
+                                      <div className="text-xs text-muted-foreground">
+                                        {item.typeLabel} · {item.durationMinutes} min
+                                        {item.delayMinutes > 0 && ` · ritardata di ${item.delayMinutes} min`}
+                                      </div>
+                                    </div>
+                                    {item.status === 'launched' && <Badge variant="secondary">Avviata</Badge>}
+                                    {item.status === 'skipped' && <Badge variant="outline">Saltata</Badge>}
+                                    {item.status === 'pending' && (
+                                        <div className="flex gap-1">
+                                          <Button onClick={() => handlePlaylistAction(item.id, 'delay')} variant="outline" size="sm" title="Ritarda di 5 minuti">
+                                            <Timer className="w-4 h-4 mr-1" />
+                                            +5'
+                                          </Button>
+                                          <Button onClick={() => handlePlaylistAction(item.id, 'skip')} variant="outline" size="sm" title="Salta">
+                                            <SkipForward className="w-4 h-4" />
+                                          </Button>
+                                        </div>
+                                    )}
+                                    <Button onClick={() => handlePlaylistAction(item.id, 'delete')} variant="ghost" size="sm" title="Rimuovi">
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                              );
+                            })}
+                          </div>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  {/* Ended Challenges */}
+                  <Card className="lg:col-span-2">
+                    <CardHeader className="px-4 sm:px-6">
+                      <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                        <Trophy className="w-5 h-5 text-muted-foreground" />
+                        Sfide Concluse
+                      </CardTitle>
+                      <CardDescription className="text-sm">
+                        Vincitori e classifiche della serata - ogni sfida si può rilanciare identica o rifesteggiare sui TV
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="px-4 sm:px-6">
+                      {endedChallenges.length === 0 ? (
+                          <div className="text-center text-muted-foreground py-8">
+                            <p className="text-sm">Nessuna sfida conclusa</p>
+                          </div>
+                      ) : (
+                          <ScrollArea className="h-[400px]">
+                            <div className="space-y-3">
+                              {endedChallenges.map((challenge) => {
+                                const winners = challengeWinners(challenge);
+                                const unit = challenge.result?.unit ?? 'messaggi';
+
+                                return (
+                                    <div key={challenge.id} className="p-3 border rounded-lg">
+                                      <div className="flex items-start justify-between gap-3">
+                                        <div className="flex-1 min-w-0">
+                                          <div className="flex items-center gap-2 mb-1">
+                                            <span className="text-xl">{challenge.badgeEmoji}</span>
+                                            <h3 className="font-semibold text-sm truncate">{challenge.title}</h3>
+                                            <Badge variant="secondary" className="text-xs">{challenge.typeLabel}</Badge>
+                                          </div>
+                                          <p className="text-xs text-muted-foreground">
+                                            {challenge.endedAt && `Conclusa alle ${new Date(challenge.endedAt).toLocaleTimeString('it-IT', {
+                                              hour: '2-digit',
+                                              minute: '2-digit'
+                                            })} · `}
+                                            {winners.length === 0
+                                                ? 'Nessun vincitore'
+                                                : `${winners.length > 1 ? 'Vincitori' : 'Vincitore'}: Tavolo ${winners.join(', ')}`}
+                                            {challenge.result?.suddenDeath && ' (spareggio)'}
+                                          </p>
+                                          {(challenge.result?.ranking.length ?? 0) > 0 && (
+                                              <div className="flex flex-wrap gap-1 mt-2">
+                                                {challenge.result!.ranking.slice(0, 5).map((entry) => (
+                                                    <Badge key={entry.tableId} variant="outline" className="text-xs">
+                                                      {entry.rank}° {entry.tableId} · {formatChallengeScore(unit, entry.score)}
+                                                    </Badge>
+                                                ))}
+                                              </div>
+                                          )}
+                                        </div>
+                                        <div className="flex flex-col gap-2">
+                                          <Button
+                                              onClick={() => handleRerunChallenge(challenge.id)}
+                                              variant="outline"
+                                              size="sm"
+                                          >
+                                            <RotateCcw className="w-4 h-4 mr-1" />
+                                            Ripeti
+                                          </Button>
+                                          <Button
+                                              onClick={() => handleReplayCelebration(challenge.id)}
+                                              variant="outline"
+                                              size="sm"
+                                          >
+                                            <MonitorPlay className="w-4 h-4 mr-1" />
+                                            Sul TV
+                                          </Button>
+                                        </div>
+                                      </div>
+                                    </div>
+                                );
+                              })}
+                            </div>
+                          </ScrollArea>
+                      )}
+                    </CardContent>
+                  </Card>
                 </div>
               </TabsContent>
 
+              {/* Archivio eventi */}
+              <TabsContent value="events">
+                <EventArchive />
+              </TabsContent>
+
               {/* Profilo e Staff */}
               <TabsContent value="profilo">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
@@ -1595,83 +3507,133 @@ export function AdminPanel({ adminName, onLogout, isAdmin = true, isStaff = fals
 
               {/* TV Display */}
               <TabsContent value="tv-display">
-                <Card>
-                  <CardHeader className="px-4 sm:px-6">
-                    <CardTitle className="text-base sm:text-lg flex items-center gap-2">
-                      <Radio className="w-5 h-5 text-purple-500" />
-                      Display TV
-                    </CardTitle>
-                    <CardDescription className="text-sm">
-                      Mostra classifica e statistiche su grande schermo
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-6 px-4 sm:px-6">
-                    {/* TV Display URL */}
-                    <div className="space-y-3">
-                      <Label className="text-sm font-semibold">URL per TV Display</Label>
-                      <div className="p-4 bg-gradient-to-r from-purple-50 to-pink-50 border-2 border-purple-200 rounded-lg">
-                        <p className="text-xs text-muted-foreground mb-2">
-                          Apri questo URL su un browser del TV/proiettore:
-                        </p>
-                        <div className="flex items-center gap-2">
-                          <code className="flex-1 p-3 bg-white border rounded text-sm font-mono break-all">
-                            {window.location.origin}?tv
-                          </code>
-                          <Button
-                              onClick={() => {
-                                navigator.clipboard.writeText(`${window.location.origin}?tv`);
-                                toast.success('URL copiato!');
-                              }}
-                              variant="outline"
-                              size="sm"
-                          >
-                            Copia
-                          </Button>
+                <div className="space-y-4 sm:space-y-6">
+                  <Card>
+                    <CardHeader className="px-4 sm:px-6">
+                      <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                        <Radio className="w-5 h-5 text-purple-500" />
+                        Display TV
+                      </CardTitle>
+                      <CardDescription className="text-sm">
+                        Mostra classifica e statistiche su grande schermo
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6 px-4 sm:px-6">
+                      {/* TV Display URL */}
+                      <div className="space-y-3">
+                        <Label className="text-sm font-semibold">URL per TV Display</Label>
+                        <div className="p-4 bg-gradient-to-r from-purple-50 to-pink-50 border-2 border-purple-200 rounded-lg">
+                          <p className="text-xs text-muted-foreground mb-2">
+                            {displayLink
+                                ? 'Apri questo URL sul browser del TV/proiettore (non serve fare login):'
+                                : 'Genera un token display qui sotto per ottenere il link del TV. Senza token il TV funziona solo su un browser con login admin/staff:'}
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <code className="flex-1 p-3 bg-white border rounded text-sm font-mono break-all">
+                              {displayLink ?? `${window.location.origin}?tv`}
+                            </code>
+                            <Button
+                                onClick={() => {
+                                  navigator.clipboard.writeText(displayLink ?? `${window.location.origin}?tv`);
+                                  toast.success('URL copiato!');
+                                }}
+                                variant="outline"
+                                size="sm"
+                            >
+                              Copia
+                            </Button>
+                          </div>
                         </div>
                       </div>
-                    </div>
 
-                    {/* Open TV Display */}
-                    <div className="space-y-3">
-                      <Button
-                          onClick={() => window.open(`${window.location.origin}?tv`, '_blank')}
-                          className="w-full min-h-[48px] text-base"
-                      >
-                        <Radio className="w-5 h-5 mr-2" />
-                        Apri TV Display in Nuova Finestra
-                      </Button>
-                    </div>
+                      {/* Token display (solo admin) */}
+                      {isAdmin && (
+                          <div className="space-y-3">
+                            <Label className="text-sm font-semibold">Token display</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Credenziale di sola lettura per un TV: mostra classifica, messaggi e sfide senza accesso al pannello
+                            </p>
+                            <div className="flex gap-2">
+                              <Input
+                                  value={newDisplayName}
+                                  onChange={(e) => setNewDisplayName(e.target.value)}
+                                  placeholder="Es. Proiettore sala"
+                                  maxLength={50}
+                              />
+                              <Button onClick={handleCreateDisplayToken} disabled={!newDisplayName.trim()}>
+                                Genera
+                              </Button>
+                            </div>
+                            {displayTokens.length > 0 && (
+                                <div className="space-y-2">
+                                  {displayTokens.map((display) => (
+                                      <div key={display.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                                        <div className="min-w-0">
+                                          <div className="font-medium text-sm truncate">{display.name}</div>
+                                          <div className="text-xs text-muted-foreground">
+                                            Creato da {display.createdBy} · {display.lastUsedAt ? `ultimo accesso ${formatTimestamp(display.lastUsedAt)}` : 'mai usato'}
+                                          </div>
+                                        </div>
+                                        {display.revokedAt ? (
+                                            <Badge variant="outline">Revocato</Badge>
+                                        ) : (
+                                            <Button onClick={() => handleRevokeDisplayToken(display)} variant="outline" size="sm" className="text-destructive">
+                                              <Trash2 className="w-4 h-4 mr-1" />
+                                              Revoca
+                                            </Button>
+                                        )}
+                                      </div>
+                                  ))}
+                                </div>
+                            )}
+                          </div>
+                      )}
 
-                    {/* Info */}
-                    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
-                      <h4 className="font-semibold text-sm flex items-center gap-2">
-                        <Radio className="w-4 h-4 text-blue-500" />
-                        Cosa mostra il TV Display:
-                      </h4>
-                      <ul className="text-xs text-muted-foreground space-y-1 ml-6 list-disc">
-                        <li>Top 5 tavoli della classifica in tempo reale</li>
-                        <li>Ultimi 3 messaggi broadcast dall'amministrazione</li>
-                        <li>Statistiche live: messaggi totali, utenti attivi, tavoli, reazioni</li>
-                        <li>Design ottimizzato per visualizzazione a distanza</li>
-                        <li>Aggiornamento automatico ogni 5 secondi</li>
-                      </ul>
-                    </div>
+                      {/* Open TV Display */}
+                      <div className="space-y-3">
+                        <Button
+                            onClick={() => window.open(displayLink ?? `${window.location.origin}?tv`, '_blank')}
+                            className="w-full min-h-[48px] text-base"
+                        >
+                          <Radio className="w-5 h-5 mr-2" />
+                          Apri TV Display in Nuova Finestra
+                        </Button>
+                      </div>
 
-                    {/* Tips */}
-                    <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                      <h4 className="font-semibold text-sm flex items-center gap-2 mb-2">
-                        <Trophy className="w-4 h-4 text-green-500" />
-                        Suggerimenti:
-                      </h4>
-                      <ul className="text-xs text-muted-foreground space-y-1 ml-6 list-disc">
-                        <li>Usa F11 sul browser per visualizzazione a schermo intero</li>
-                        <li>Assicurati che il TV sia connesso alla rete</li>
-                        <li>La pagina si aggiorna automaticamente, non serve ricaricare</li>
-                        <li>Posiziona il TV in un punto visibile a tutti</li>
-                      </ul>
-                    </div>
-                  </CardContent>
-                </Card>
+                      {/* Info */}
+                      <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+                        <h4 className="font-semibold text-sm flex items-center gap-2">
+                          <Radio className="w-4 h-4 text-blue-500" />
+                          Cosa mostra il TV Display:
+                        </h4>
+                        <ul className="text-xs text-muted-foreground space-y-1 ml-6 list-disc">
+                          <li>Top 5 tavoli della classifica in tempo reale</li>
+                          <li>Ultimi 3 messaggi broadcast dall'amministrazione</li>
+                          <li>Statistiche live: messaggi totali, utenti attivi, tavoli, reazioni</li>
+                          <li>Bacheca: solo i messaggi che i tavoli chiedono di mostrare, dopo l'approvazione dello staff</li>
+                          <li>Design ottimizzato per visualizzazione a distanza</li>
+                          <li>Aggiornamento automatico ogni 5 secondi con una sola richiesta leggera</li>
+                        </ul>
+                      </div>
+
+                      {/* Tips */}
+                      <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                        <h4 className="font-semibold text-sm flex items-center gap-2 mb-2">
+                          <Trophy className="w-4 h-4 text-green-500" />
+                          Suggerimenti:
+                        </h4>
+                        <ul className="text-xs text-muted-foreground space-y-1 ml-6 list-disc">
+                          <li>Usa F11 sul browser per visualizzazione a schermo intero</li>
+                          <li>Assicurati che il TV sia connesso alla rete</li>
+                          <li>La pagina si aggiorna automaticamente, non serve ricaricare</li>
+                          <li>Posiziona il TV in un punto visibile a tutti</li>
+                        </ul>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <TvScreens />
+                  <TvWallModeration />
+                </div>
               </TabsContent>
             </Tabs>
           </div>
@@ -0,0 +1,114 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Trophy } from 'lucide-react';
+
+export interface ChallengeRankingEntry {
+  tableId: string;
+  score: number;
+  rank: number;
+}
+
+export interface EndedChallenge {
+  id: string;
+  title: string;
+  typeLabel?: string;
+  startedAt?: string;
+  badgeName: string;
+  badgeEmoji: string;
+  winner: string | null;
+  endedAt: string | null;
+  result: {
+    metric: string;
+    unit: string;
+    winners?: string[];
+    suddenDeath?: boolean;
+    ranking: ChallengeRankingEntry[];
+  } | null;
+}
+
+// Vincitori della sfida (più di uno se a pari merito)
+export function challengeWinners(challenge: EndedChallenge): string[] {
+  const ranking = challenge.result?.ranking ?? [];
+  return challenge.result?.winners ?? ranking.filter(entry => entry.rank === 1).map(entry => entry.tableId);
+}
+
+// Punteggio con l'unità dichiarata dal tipo di sfida
+export function formatChallengeScore(unit: string, score: number): string {
+  return unit === 's' ? `${score}s` : `${score} ${unit}`;
+}
+
+interface ChallengeCelebrationProps {
+  challenge: EndedChallenge | null;
+  currentTable: string;
+  onClose: () => void;
+}
+
+/**
+ * Festeggiamento di fine sfida: vincitore, premio e prime posizioni
+ */
+export function ChallengeCelebration({ challenge, currentTable, onClose }: ChallengeCelebrationProps) {
+  const ranking = challenge?.result?.ranking ?? [];
+  const winners = challenge ? challengeWinners(challenge) : [];
+  const isWinner = winners.includes(currentTable);
+  const ownEntry = ranking.find(entry => entry.tableId === currentTable);
+  const unit = challenge?.result?.unit ?? 'messaggi';
+
+  return (
+    <Dialog open={!!challenge} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        {challenge && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 text-xl">
+                <Trophy className="w-6 h-6 text-yellow-500" />
+                Sfida terminata: {challenge.title}
+              </DialogTitle>
+              <DialogDescription>
+                {winners.length === 0
+                  ? 'Nessun tavolo ha partecipato a questa sfida'
+                  : isWinner
+                    ? `Complimenti! Il vostro tavolo vince ${challenge.badgeEmoji} ${challenge.badgeName}`
+                    : `${challenge.badgeEmoji} ${challenge.badgeName} va ${winners.length > 1 ? 'ai tavoli' : 'al tavolo'} ${winners.join(', ')}`}
+                {challenge.result?.suddenDeath && ' (dopo lo spareggio)'}
+              </DialogDescription>
+            </DialogHeader>
+
+            {isWinner && (
+              <div className="text-center text-6xl animate-bounce py-2">
+                {challenge.badgeEmoji || '🏆'}
+              </div>
+            )}
+
+            {ranking.length > 0 && (
+              <div className="space-y-2">
+                {ranking.slice(0, 5).map((entry) => (
+                  <div
+                    key={entry.tableId}
+                    className={`flex items-center justify-between rounded-lg border p-2 ${
+                      entry.tableId === currentTable ? 'border-yellow-400 bg-yellow-50' : ''
+                    }`}
+                  >
+                    <span className="font-medium">
+                      {entry.rank === 1 ? '🥇' : entry.rank === 2 ? '🥈' : entry.rank === 3 ? '🥉' : `${entry.rank}°`} Tavolo {entry.tableId}
+                    </span>
+                    <Badge variant="secondary">{formatChallengeScore(unit, entry.score)}</Badge>
+                  </div>
+                ))}
+                {ownEntry && ownEntry.rank > 5 && (
+                  <p className="text-sm text-muted-foreground text-center">
+                    Il vostro tavolo è arrivato {ownEntry.rank}° ({formatChallengeScore(unit, ownEntry.score)})
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={onClose}>Chiudi</Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Vote } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { useStreamEvent } from '../utils/game-stream';
+import { fetchChallengeSubmissions, isChallengeOpen, type ChallengeSubmission } from '../utils/challenge-submissions';
+
+interface ChallengeVoteDialogProps {
+  challenge: { id: string; title: string; badgeEmoji: string; active: boolean; endsAt: string } | null;
+  currentTable: string;
+  onClose: () => void;
+}
+
+/**
+ * Partecipazioni di una sfida a votazione: ogni tavolo vota una sola volta,
+ * mai per il proprio messaggio
+ */
+export function ChallengeVoteDialog({ challenge, currentTable, onClose }: ChallengeVoteDialogProps) {
+  const [submissions, setSubmissions] = useState<ChallengeSubmission[]>([]);
+  const [myVote, setMyVote] = useState<string | null>(null);
+  const [votingId, setVotingId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!challenge) return;
+    const data = await fetchChallengeSubmissions(challenge.id);
+    if (data) {
+      setSubmissions(data.submissions);
+      setMyVote(data.myVote);
+    }
+  };
+
+  useEffect(() => {
+    setSubmissions([]);
+    setMyVote(null);
+    refresh();
+  }, [challenge?.id]);
+
+  useStreamEvent('challenge-votes', (data: { challengeId: string }) => {
+    if (data.challengeId === challenge?.id) refresh();
+  });
+
+  const handleVote = async (messageId: string) => {
+    if (!challenge) return;
+
+    setVotingId(messageId);
+    try {
+      const response = await fetch(buildApiUrl(`challenges/${challenge.id}/vote`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ messageId })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setMyVote(messageId);
+        toast.success('Voto registrato!');
+        refresh();
+      } else {
+        toast.error(data.error || 'Errore nel voto');
+      }
+    } catch (error) {
+      console.error('Error voting:', error);
+      toast.error('Errore di connessione');
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  const isOpen = challenge ? isChallengeOpen(challenge) : false;
+
+  return (
+    <Dialog open={challenge !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="w-5 h-5 text-primary" />
+            {challenge?.badgeEmoji} {challenge?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {myVote
+              ? 'Il tuo tavolo ha già votato: segui i voti in diretta'
+              : isOpen
+                ? 'Vota la partecipazione migliore: ogni tavolo ha un solo voto'
+                : 'La votazione è chiusa'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {submissions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8 text-sm">
+              Nessuna partecipazione ancora
+            </p>
+          ) : (
+            <div className="space-y-3 pr-1">
+              {submissions.map((submission) => {
+                const isOwn = submission.fromTable === currentTable;
+                const isMine = myVote === submission.id;
+
+                return (
+                  <div
+                    key={submission.id}
+                    className={`p-3 border rounded-lg ${isMine ? 'border-primary bg-primary/5' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="text-sm font-medium">
+                        Tavolo {submission.fromTable}
+                        {submission.publicSenderName ? ` · ${submission.publicSenderName}` : ''}
+                      </span>
+                      <Badge variant="secondary">
+                        {submission.votes} {submission.votes === 1 ? 'voto' : 'voti'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm break-words whitespace-pre-wrap">{submission.content}</p>
+                    {!isOwn && !myVote && isOpen && (
+                      <Button
+                        size="sm"
+                        className="w-full mt-2"
+                        onClick={() => handleVote(submission.id)}
+                        disabled={votingId !== null}
+                      >
+                        {votingId === submission.id ? 'Invio...' : 'Vota'}
+                      </Button>
+                    )}
+                    {isOwn && (
+                      <p className="text-xs text-muted-foreground mt-2">La partecipazione del tuo tavolo</p>
+                    )}
+                    {isMine && (
+                      <p className="text-xs text-primary mt-2">Il tuo voto</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
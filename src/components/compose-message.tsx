@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Textarea } from "./ui/textarea";
@@ -6,29 +6,84 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Label } from "./ui/label";
 import { Switch } from "./ui/switch";
 import { GameStatusBanner } from "./game-status-banner";
-import { Send, ArrowLeft } from "lucide-react";
+import { Send, ArrowLeft, CornerDownRight, Trophy, MonitorPlay } from "lucide-react";
 import { PaperPlaneLoading } from "./paper-plane-loading";
+import { TableBadgeIcons } from "./table-badge-icons";
+import { useTableBadges } from '../utils/table-badges';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { isChallengeOpen, JUDGING_HINTS, type ChallengeJudging } from '../utils/challenge-submissions';
 import logoImage from "figma:asset/61ee33e759d51e4543a7ff86753e250797659b2b.png";
 
+// Messaggio a cui si risponde: solo i campi mostrati nell'intestazione della risposta
+export interface ReplyTarget {
+  id: string;
+  content: string;
+  fromTable: string | null;
+  isAnonymous: boolean;
+  publicSenderName?: string;
+}
+
 interface ComposeMessageProps {
   currentTable: string;
   userFirstName: string;
-  gameStatus: { status: string; startedAt?: string; pausedAt?: string };
+  gameStatus: { status: string; startedAt?: string; pausedAt?: string; slowModeSeconds?: number };
   availableTables: string[]; // Lista dinamica dei tavoli disponibili (A1, B2, DJ, etc.)
+  replyTo?: ReplyTarget | null; // Messaggio a cui si risponde
   onSendMessage: (message: {
     content: string;
     toTable: string;
     senderName?: string;
     isAnonymous: boolean;
+    replyToId?: string;
+    challengeId?: string;
+    showOnWall: boolean;
   }) => void;
   onBack: () => void;
 }
 
-export function ComposeMessage({ currentTable, userFirstName, gameStatus, availableTables, onSendMessage, onBack }: ComposeMessageProps) {
+// Sfida aperta alle partecipazioni (a giudizio dello staff o a votazione)
+interface JudgingChallenge {
+  id: string;
+  title: string;
+  badgeEmoji: string;
+  active: boolean;
+  endsAt: string;
+  judging: ChallengeJudging | null;
+}
+
+export function ComposeMessage({ currentTable, userFirstName, gameStatus, availableTables, replyTo, onSendMessage, onBack }: ComposeMessageProps) {
   const [content, setContent] = useState("");
-  const [toTable, setToTable] = useState<string>("");
+  // Una risposta torna sempre al tavolo del mittente originale
+  const [toTable, setToTable] = useState<string>(replyTo?.fromTable || "");
   const [isAnonymous, setIsAnonymous] = useState(true);
+  // Richiesta di comparire sulla bacheca del TV (lo staff decide): mostra il tavolo, quindi mai anonima
+  const [showOnWall, setShowOnWall] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [judgingChallenges, setJudgingChallenges] = useState<JudgingChallenge[]>([]);
+  const [challengeId, setChallengeId] = useState('none');
+  const tableBadges = useTableBadges();
+
+  // Sfide a cui il messaggio può partecipare
+  useEffect(() => {
+    const fetchJudgingChallenges = async () => {
+      try {
+        const response = await fetch(buildApiUrl('challenges/active'), {
+          headers: getApiHeaders()
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setJudgingChallenges((data.challenges || []).filter((c: JudgingChallenge) => c.judging && isChallengeOpen(c)));
+        }
+      } catch (error) {
+        console.error('Error fetching challenges:', error);
+      }
+    };
+
+    fetchJudgingChallenges();
+  }, []);
+
+  const selectedChallenge = judgingChallenges.find(c => c.id === challengeId);
 
   // Filtra solo i tavoli diversi dal tavolo corrente
   const tables = availableTables.filter(t => t !== currentTable);
@@ -45,13 +100,18 @@ export function ComposeMessage({ currentTable, userFirstName, gameStatus, availa
         content: content.trim(),
         toTable: toTable, // Ora è alfanumerico (A1, B2, DJ, etc.)
         senderName: isAnonymous ? undefined : userFirstName,
-        isAnonymous
+        isAnonymous,
+        replyToId: replyTo?.id,
+        challengeId: selectedChallenge?.id,
+        showOnWall: showOnWall && !isAnonymous
       });
 
       // Reset form solo dopo successo
       setContent("");
       setToTable("");
       setIsAnonymous(true);
+      setShowOnWall(false);
+      setChallengeId('none');
     } catch (error) {
       console.error('Errore durante invio:', error);
       // L'errore è già gestito in App.tsx con toast
@@ -89,28 +149,45 @@ export function ComposeMessage({ currentTable, userFirstName, gameStatus, availa
               <div className="bg-white p-1 rounded-full shadow-sm">
                 <img src={logoImage} alt="Messenger Game" className="w-6 h-6" />
               </div>
-              Scrivi un Messaggio
+              {replyTo ? 'Rispondi al Messaggio' : 'Scrivi un Messaggio'}
             </CardTitle>
             <CardDescription>
-              Dal Tavolo {currentTable} - Invia un messaggio a un altro tavolo
+              {replyTo
+                ? `Dal Tavolo ${currentTable} - La risposta arriverà a chi ti ha scritto`
+                : `Dal Tavolo ${currentTable} - Invia un messaggio a un altro tavolo`}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="toTable">Tavolo destinatario</Label>
-              <Select value={toTable} onValueChange={setToTable} disabled={!isGameActive}>
-                <SelectTrigger className="disabled:opacity-50">
-                  <SelectValue placeholder="Seleziona il tavolo destinatario" />
-                </SelectTrigger>
-                <SelectContent>
-                  {tables.map((table) => (
-                    <SelectItem key={table} value={table.toString()}>
-                      Tavolo {table}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {replyTo ? (
+              <div className="flex items-start gap-2 text-sm bg-muted/50 rounded-md p-3 border-l-4 border-primary/40">
+                <CornerDownRight className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {replyTo.isAnonymous
+                      ? `Messaggio anonimo dal Tavolo ${replyTo.fromTable}`
+                      : `${replyTo.publicSenderName || 'Messaggio'} dal Tavolo ${replyTo.fromTable}`}
+                  </p>
+                  <p className="italic text-muted-foreground break-words line-clamp-3">{replyTo.content}</p>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="toTable">Tavolo destinatario</Label>
+                <Select value={toTable} onValueChange={setToTable} disabled={!isGameActive}>
+                  <SelectTrigger className="disabled:opacity-50">
+                    <SelectValue placeholder="Seleziona il tavolo destinatario" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tables.map((table) => (
+                      <SelectItem key={table} value={table.toString()}>
+                        Tavolo {table}
+                        <TableBadgeIcons badges={tableBadges[table]} className="ml-1" />
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -130,8 +207,55 @@ export function ComposeMessage({ currentTable, userFirstName, gameStatus, availa
                   />
                 </div>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="show-on-wall" className="flex items-center gap-2">
+                    <MonitorPlay className="w-4 h-4 text-blue-600" />
+                    Mostra sul maxischermo
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {isAnonymous
+                      ? "Disponibile solo per i messaggi non anonimi"
+                      : "Se lo staff lo approva, il messaggio compare sul TV con il tuo tavolo"}
+                  </p>
+                </div>
+                <Switch
+                  id="show-on-wall"
+                  checked={showOnWall && !isAnonymous}
+                  onCheckedChange={setShowOnWall}
+                  disabled={!isGameActive || isAnonymous}
+                />
+              </div>
             </div>
 
+            {judgingChallenges.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="challenge" className="flex items-center gap-2">
+                  <Trophy className="w-4 h-4 text-yellow-600" />
+                  Partecipa a una sfida
+                </Label>
+                <Select value={challengeId} onValueChange={setChallengeId} disabled={!isGameActive}>
+                  <SelectTrigger id="challenge" className="disabled:opacity-50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nessuna sfida</SelectItem>
+                    {judgingChallenges.map((challenge) => (
+                      <SelectItem key={challenge.id} value={challenge.id}>
+                        {challenge.badgeEmoji} {challenge.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedChallenge?.judging && (
+                  <p className="text-xs text-muted-foreground">
+                    {JUDGING_HINTS[selectedChallenge.judging]}. Ogni tavolo partecipa con un solo messaggio, visibile a tutti.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="message">Il tuo messaggio</Label>
               <Textarea
@@ -146,6 +270,11 @@ export function ComposeMessage({ currentTable, userFirstName, gameStatus, availa
               <p className="text-sm text-muted-foreground text-right">
                 {content.length}/500 caratteri
               </p>
+              {(gameStatus.slowModeSeconds || 0) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  🐢 Modalità lenta: il tuo tavolo può inviare un messaggio ogni {gameStatus.slowModeSeconds} secondi
+                </p>
+              )}
             </div>
 
             <Button 
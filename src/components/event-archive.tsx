@@ -0,0 +1,285 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { CalendarDays, RefreshCw, Trophy, MessageCircle, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { mergeMessages, messagePageQuery } from '../utils/message-cursor';
+import { LoadOlderMessages } from './load-older-messages';
+import { challengeWinners, type EndedChallenge } from './challenge-celebration';
+
+export interface GameEvent {
+  id: string;
+  name: string;
+  date: string;
+  status: 'not_started' | 'active' | 'paused' | 'ended';
+  startedAt: string | null;
+  endedAt: string | null;
+  current: boolean;
+  messageCount?: number;
+  userCount?: number;
+  challengeCount?: number;
+}
+
+interface EventDetail {
+  event: GameEvent;
+  statusChanges: Array<{ status: string; changedAt: string; changedBy: string | null }>;
+  leaderboard: Array<{ tableId: string; points: number }>;
+  challenges: EndedChallenge[];
+  messageCount: number;
+}
+
+interface ArchivedMessage {
+  id: string;
+  content: string;
+  fromTable: string | null;
+  toTable: string;
+  senderName?: string;
+  timestamp: string;
+  isBroadcast?: boolean;
+  status?: string;
+  hidden?: boolean;
+}
+
+export const EVENT_STATUS_LABELS: Record<string, string> = {
+  not_started: 'Non iniziato',
+  active: 'In corso',
+  paused: 'In pausa',
+  ended: 'Terminato'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('it-IT');
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('it-IT', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Archivio delle serate: elenco degli eventi e dettaglio in sola lettura
+ * (storico degli stati, classifica, sfide e messaggi)
+ */
+export function EventArchive() {
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [detail, setDetail] = useState<EventDetail | null>(null);
+  const [messages, setMessages] = useState<ArchivedMessage[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+
+  const fetchEvents = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/events'), { headers: getApiHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events || []);
+      }
+    } catch (error) {
+      console.error('Error fetching events:', error);
+    }
+  };
+
+  // Una pagina di messaggi dell'evento (dal più recente); before = cursore per i più vecchi
+  const fetchEventMessages = async (eventId: string, before?: string) => {
+    setIsLoadingMessages(true);
+    try {
+      const query = messagePageQuery({ before, limit: 50 });
+      const separator = query ? '&' : '?';
+      const response = await fetch(buildApiUrl(`admin/all-messages${query}${separator}eventId=${eventId}`), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMessages(prev => mergeMessages(before ? prev : [], data.messages || [], 'desc'));
+        setHasMoreMessages(data.hasMore);
+      }
+    } catch (error) {
+      console.error('Error fetching event messages:', error);
+    } finally {
+      setIsLoadingMessages(false);
+    }
+  };
+
+  const handleSelectEvent = async (eventId: string) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/events/${eventId}`), { headers: getApiHeaders() });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setDetail(data);
+        setMessages([]);
+        fetchEventMessages(eventId);
+      } else {
+        toast.error(data.error || 'Errore nel caricamento dell\'evento');
+      }
+    } catch (error) {
+      console.error('Error fetching event:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader className="px-4 sm:px-6">
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Eventi
+          </CardTitle>
+          <CardDescription className="text-sm">
+            Tutte le serate: quelle passate restano consultabili in sola lettura
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="px-4 sm:px-6">
+          {events.length > 0 ? (
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  onClick={() => handleSelectEvent(event.id)}
+                  className={`flex items-center justify-between gap-3 p-3 border rounded-lg cursor-pointer hover:shadow-sm ${
+                    detail?.event.id === event.id ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="font-semibold text-sm truncate">{event.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDate(event.date)} · {event.messageCount ?? 0} messaggi · {event.userCount ?? 0} giocatori · {event.challengeCount ?? 0} sfide
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {event.current && <Badge>In corso</Badge>}
+                    <Badge variant="outline">{EVENT_STATUS_LABELS[event.status] ?? event.status}</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground py-8 text-sm">Nessun evento</p>
+          )}
+
+          <Button onClick={fetchEvents} variant="outline" className="w-full mt-4 min-h-[44px]">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Aggiorna
+          </Button>
+        </CardContent>
+      </Card>
+
+      {detail && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            <Card>
+              <CardHeader className="px-4 sm:px-6">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  {detail.event.name}
+                </CardTitle>
+                <CardDescription className="text-sm">
+                  {formatDate(detail.event.date)} · {detail.messageCount} messaggi
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6 space-y-2">
+                {detail.statusChanges.map((change, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{EVENT_STATUS_LABELS[change.status] ?? change.status}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDateTime(change.changedAt)}{change.changedBy ? ` · ${change.changedBy}` : ''}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="px-4 sm:px-6">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-yellow-500" />
+                  Classifica
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6 space-y-2">
+                {detail.leaderboard.length > 0 ? (
+                  detail.leaderboard.map((entry, index) => (
+                    <div key={entry.tableId} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`} Tavolo {entry.tableId}</span>
+                      <Badge variant="secondary">{entry.points} {entry.points === 1 ? 'punto' : 'punti'}</Badge>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">Nessun punteggio</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="px-4 sm:px-6">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                Sfide
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 sm:px-6 space-y-2">
+              {detail.challenges.length > 0 ? (
+                detail.challenges.map((challenge) => {
+                  const winners = challengeWinners(challenge);
+                  return (
+                    <div key={challenge.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg text-sm">
+                      <span className="min-w-0 truncate">{challenge.badgeEmoji} {challenge.title}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {winners.length > 0 ? `Vince: ${winners.map(table => `Tavolo ${table}`).join(', ')}` : 'Nessun vincitore'}
+                      </span>
+                    </div>
+                  );
+                })
+              ) : (
+                <p className="text-sm text-muted-foreground">Nessuna sfida</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="px-4 sm:px-6">
+              <CardTitle className="text-base flex items-center gap-2">
+                <MessageCircle className="w-5 h-5" />
+                Messaggi
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 sm:px-6">
+              <ScrollArea className="h-96">
+                <div className="space-y-2 pr-4">
+                  {messages.map((message) => (
+                    <div key={message.id} className={`p-3 border rounded-lg text-sm ${message.hidden ? 'opacity-60' : ''}`}>
+                      <div className="flex items-center justify-between gap-2 mb-1 text-xs text-muted-foreground">
+                        <span>
+                          {message.isBroadcast ? 'Amministrazione' : `Tavolo ${message.fromTable}`} → Tavolo {message.toTable}
+                          {message.senderName && !message.isBroadcast ? ` · ${message.senderName}` : ''}
+                        </span>
+                        <span>{formatDateTime(message.timestamp)}</span>
+                      </div>
+                      <p className="break-words whitespace-pre-wrap">{message.content}</p>
+                      {message.status && message.status !== 'approved' && (
+                        <Badge variant="outline" className="mt-1 text-xs">{message.status}</Badge>
+                      )}
+                    </div>
+                  ))}
+                  {messages.length === 0 && !isLoadingMessages && (
+                    <p className="text-center text-muted-foreground py-8 text-sm">Nessun messaggio</p>
+                  )}
+                  <LoadOlderMessages
+                    hasMore={hasMoreMessages}
+                    isLoading={isLoadingMessages}
+                    onLoadMore={() => fetchEventMessages(detail.event.id, messages[messages.length - 1]?.id)}
+                  />
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { Button } from './ui/button';
+
+interface LoadOlderMessagesProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Fondo della lista messaggi: quando diventa visibile carica la pagina precedente
+ * Il pulsante resta come alternativa se l'osservatore non scatta (es. lista corta)
+ */
+export function LoadOlderMessages({ hasMore, isLoading, onLoadMore }: LoadOlderMessagesProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="py-3 text-center">
+      {isLoading ? (
+        <span className="text-sm text-muted-foreground">Caricamento messaggi precedenti...</span>
+      ) : (
+        <Button variant="ghost" size="sm" onClick={onLoadMore}>
+          Carica messaggi precedenti
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { Label } from "./ui/label";
 import { Users, Lock, User } from "lucide-react";
 import { PaperPlaneLoading } from "./paper-plane-loading";
 import logoImage from "figma:asset/61ee33e759d51e4543a7ff86753e250797659b2b.png";
-import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { buildApiUrl, getApiHeaders, apiErrorMessage } from '../utils/api-helper';
 
 interface LoginFormProps {
   onLogin: (data: {
@@ -77,13 +77,22 @@ export function LoginForm({ onLogin }: LoginFormProps) {
       const response = await fetch(buildApiUrl('validate-table-code'), {
         method: 'POST',
         headers: getApiHeaders(),
-        body: JSON.stringify({ tableCode: code })
+        body: JSON.stringify({
+          tableCode: code,
+          firstName: firstName.trim(),
+          lastName: lastName.trim()
+        })
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        return { valid: false, error: data.error || 'Errore nella validazione del codice' };
+        return { valid: false, error: apiErrorMessage(data, 'Errore nella validazione del codice') };
+      }
+
+      // Token di sessione del giocatore: identifica tavolo e utente nelle richieste successive
+      if (data.token) {
+        localStorage.setItem('authToken', data.token);
       }
 
       return { valid: data.valid, tableNumber: data.tableNumber };
@@ -2,12 +2,21 @@ import { useState, useEffect } from "react";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
-import { MessageCard } from "./message-card";
+import { MessageCard, DEFAULT_REACTION_EMOJIS } from "./message-card";
 import { GameStatusBanner } from "./game-status-banner";
 import { CountdownBanner } from "./countdown-banner";
-import { Mail, Plus, RefreshCw, LogOut, Bell, Users, Trophy } from "lucide-react";
+import { LoadOlderMessages } from "./load-older-messages";
+import { ChallengeCelebration, challengeWinners, type EndedChallenge } from "./challenge-celebration";
+import { TableBadgeIcons } from "./table-badge-icons";
+import { ChallengeVoteDialog } from "./challenge-vote-dialog";
+import { Mail, Plus, RefreshCw, LogOut, Bell, Users, Trophy, Hourglass, Vote } from "lucide-react";
+import { toast } from "sonner@2.0.3";
 import logoImage from "figma:asset/61ee33e759d51e4543a7ff86753e250797659b2b.png";
 import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { useStreamEvent } from '../utils/game-stream';
+import { groupThreads } from '../utils/message-threads';
+import { useTableBadges } from '../utils/table-badges';
+import { isChallengeOpen, isAwaitingJudgement, JUDGING_HINTS, type ChallengeJudging } from '../utils/challenge-submissions';
 
 interface Challenge {
   id: string;
@@ -19,6 +28,9 @@ interface Challenge {
   active: boolean;
   badgeName: string;
   badgeEmoji: string;
+  extendedAt?: string | null; // Spareggio in corso
+  judging?: ChallengeJudging | null; // Vincitore scelto dallo staff o votato dai tavoli
+  awaitingJudgement?: boolean; // Scaduta, in attesa del verdetto dello staff
 }
 
 interface Message {
@@ -30,12 +42,20 @@ interface Message {
   timestamp: Date;
   isAnonymous: boolean;
   isBroadcast?: boolean;
-  reactions?: {
-    heart: number;
-    thumbsup: number;
-    fire: number;
-    laugh: number;
-  };
+  reactions?: Record<string, number>;
+  myReactions?: string[];
+  threadId?: string | null; // Conversazione a cui appartiene una risposta
+  addressedTo?: string | null;
+  replyTo?: { id: string; content: string | null; fromTable: string | null } | null;
+}
+
+// Messaggio inviato dal giocatore in attesa di approvazione (pre-moderazione)
+interface PendingMessage {
+  id: string;
+  content: string;
+  toTable: string;
+  timestamp: string;
+  isAnonymous: boolean;
 }
 
 interface MessageBoardProps {
@@ -46,6 +66,11 @@ interface MessageBoardProps {
   onComposeMessage: () => void;
   onLogout: () => void;
   onRefresh: () => void;
+  streamConnected?: boolean; // Se true gli aggiornamenti arrivano dallo stream e il polling è sospeso
+  hasOlderMessages?: boolean; // Ci sono messaggi più vecchi non ancora caricati
+  isLoadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  onReplyToMessage?: (message: Message) => void;
 }
 
 export function MessageBoard({
@@ -55,7 +80,12 @@ export function MessageBoard({
   gameStatus,
   onComposeMessage,
   onLogout,
-  onRefresh
+  onRefresh,
+  streamConnected = false,
+  hasOlderMessages = false,
+  isLoadingOlderMessages = false,
+  onLoadOlderMessages,
+  onReplyToMessage
 }: MessageBoardProps) {
   const [lastMessageCount, setLastMessageCount] = useState(messages.length);
   const [hasNewMessages, setHasNewMessages] = useState(false);
@@ -63,6 +93,17 @@ export function MessageBoard({
   const [lastUserCount, setLastUserCount] = useState(0);
   const [countdown, setCountdown] = useState<{active: boolean; endsAt?: string; message?: string}>({ active: false });
   const [activeChallenges, setActiveChallenges] = useState<Challenge[]>([]);
+  const [endedChallenge, setEndedChallenge] = useState<EndedChallenge | null>(null);
+  const [pastChallenges, setPastChallenges] = useState<EndedChallenge[]>([]);
+  const [votingChallenge, setVotingChallenge] = useState<Challenge | null>(null);
+  const tableBadges = useTableBadges();
+  const myBadges = tableBadges[currentTable] || [];
+  // Bacheca: tavoli con più badge in cima
+  const trophyTables = Object.entries(tableBadges)
+    .filter(([, badges]) => badges.length > 0)
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const [reactionEmojis, setReactionEmojis] = useState<string[]>(DEFAULT_REACTION_EMOJIS);
+  const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
 
   // Fetch connected users for current table
   const fetchConnectedUsers = async () => {
@@ -96,6 +137,22 @@ export function MessageBoard({
     }
   };
 
+  // Fetch ended challenges (chi ha vinto prima nella serata)
+  const fetchPastChallenges = async () => {
+    try {
+      const response = await fetch(buildApiUrl('challenges?status=ended'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPastChallenges(data.challenges || []);
+      }
+    } catch (error) {
+      console.error('Error fetching past challenges:', error);
+    }
+  };
+
   // Fetch active challenges
   const fetchChallenges = async () => {
     try {
@@ -112,6 +169,95 @@ export function MessageBoard({
     }
   };
 
+  // Fetch emoji di reazione consentite
+  const fetchReactionEmojis = async () => {
+    try {
+      const response = await fetch(buildApiUrl('reaction-emojis'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setReactionEmojis(data.emojis);
+      }
+    } catch (error) {
+      console.error('Error fetching reaction emojis:', error);
+    }
+  };
+
+  // Fetch messaggi inviati in attesa di approvazione
+  const fetchPendingMessages = async () => {
+    try {
+      const response = await fetch(buildApiUrl('pending-messages'), {
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPendingMessages(data.messages || []);
+      }
+    } catch (error) {
+      console.error('Error fetching pending messages:', error);
+    }
+  };
+
+  // Aggiornamenti in tempo reale dallo stream
+  useStreamEvent('open', () => {
+    fetchConnectedUsers();
+    fetchCountdown();
+    fetchChallenges();
+    fetchPastChallenges();
+    fetchReactionEmojis();
+    fetchPendingMessages();
+  });
+
+  // Un messaggio del tavolo è stato moderato: lo toglie dall'attesa se era del giocatore
+  useStreamEvent('message-moderated', (data: { id: string; status: 'approved' | 'rejected'; toTable: string }) => {
+    const wasMine = pendingMessages.some(m => m.id === data.id);
+    setPendingMessages(prev => prev.filter(m => m.id !== data.id));
+    if (!wasMine) return;
+
+    if (data.status === 'approved') {
+      toast.success(`Il tuo messaggio al Tavolo ${data.toTable} è stato consegnato`);
+    } else {
+      toast.error(`Il tuo messaggio al Tavolo ${data.toTable} non è stato approvato`);
+    }
+  });
+
+  useStreamEvent('reaction-emojis', (data) => {
+    setReactionEmojis(data.emojis);
+  });
+
+  useStreamEvent('table-users', (data) => {
+    setConnectedUsers(data.users || []);
+  });
+
+  useStreamEvent('countdown', (data) => {
+    setCountdown(data);
+  });
+
+  useStreamEvent('challenge-start', (challenge: Challenge) => {
+    setActiveChallenges(prev => [challenge, ...prev.filter(c => c.id !== challenge.id)]);
+  });
+
+  useStreamEvent('challenge-extended', (challenge: Challenge & { tiedTables: string[] }) => {
+    setActiveChallenges(prev => [challenge, ...prev.filter(c => c.id !== challenge.id)]);
+    toast.info(`⚔️ Spareggio: ${challenge.title}`, {
+      description: challenge.tiedTables.includes(currentTable)
+        ? 'Il vostro tavolo è a pari merito: avete ancora qualche minuto per vincere!'
+        : `Pari merito tra i tavoli ${challenge.tiedTables.join(', ')}`
+    });
+  });
+
+  useStreamEvent('challenge-end', (challenge: Challenge & EndedChallenge) => {
+    setActiveChallenges(prev => prev.filter(c => c.id !== challenge.id));
+    setVotingChallenge(prev => (prev?.id === challenge.id ? null : prev));
+    if (challenge.result) {
+      setEndedChallenge(challenge);
+      setPastChallenges(prev => [challenge, ...prev.filter(c => c.id !== challenge.id)]);
+    }
+  });
+
   useEffect(() => {
     if (messages.length > lastMessageCount) {
       // New message arrived
@@ -131,38 +277,38 @@ export function MessageBoard({
     setLastUserCount(connectedUsers.length);
   }, [connectedUsers.length, lastUserCount]);
 
-  // Auto-refresh connected users every 10 seconds (ridotto da 4 per performance)
+  // Initial fetch
   useEffect(() => {
-    fetchConnectedUsers(); // Initial fetch
+    fetchConnectedUsers();
+    fetchCountdown();
+    fetchChallenges();
+    fetchPastChallenges();
+    fetchReactionEmojis();
+    fetchPendingMessages();
+  }, [currentTable]);
+
+  // Polling di fallback quando lo stream non è connesso
+  useEffect(() => {
+    if (streamConnected) return;
 
+    // Auto-refresh connected users every 10 seconds (ridotto da 4 per performance)
     const usersInterval = setInterval(() => {
       fetchConnectedUsers();
+      fetchPastChallenges();
     }, 10000); // Cambiato da 4000 a 10000
 
-    return () => clearInterval(usersInterval);
-  }, [currentTable]);
-
-  // Auto-refresh countdown every 5 seconds
-  useEffect(() => {
-    fetchCountdown(); // Initial fetch
-
-    const countdownInterval = setInterval(() => {
+    // Auto-refresh countdown and challenges every 5 seconds
+    const liveInterval = setInterval(() => {
       fetchCountdown();
-    }, 5000);
-
-    return () => clearInterval(countdownInterval);
-  }, []);
-
-  // Auto-refresh challenges every 5 seconds
-  useEffect(() => {
-    fetchChallenges(); // Initial fetch
-
-    const challengesInterval = setInterval(() => {
       fetchChallenges();
+      fetchPendingMessages();
     }, 5000);
 
-    return () => clearInterval(challengesInterval);
-  }, []);
+    return () => {
+      clearInterval(usersInterval);
+      clearInterval(liveInterval);
+    };
+  }, [currentTable, streamConnected]);
 
   const unreadMessages = messages.filter(m => {
     // Simple unread logic - in real app this would be tracked properly
@@ -207,18 +353,38 @@ export function MessageBoard({
                         <div>
                           <CardTitle className="text-xl flex items-center gap-2">
                             {challenge.badgeEmoji} {challenge.title}
+                            {challenge.extendedAt && (
+                              <Badge variant="destructive">⚔️ Spareggio</Badge>
+                            )}
                           </CardTitle>
                           <CardDescription className="mt-1">
                             {challenge.description}
                           </CardDescription>
                         </div>
                       </div>
-                      <Badge variant="destructive" className="text-lg font-mono px-4 py-2">
-                        ⏱️ {minutesLeft}:{secondsLeft.toString().padStart(2, '0')}
-                      </Badge>
+                      {isAwaitingJudgement(challenge) ? (
+                        <Badge variant="secondary" className="text-sm px-3 py-2">
+                          ⚖️ Verdetto in arrivo
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive" className="text-lg font-mono px-4 py-2">
+                          ⏱️ {minutesLeft}:{secondsLeft.toString().padStart(2, '0')}
+                        </Badge>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent>
+                    {challenge.judging && isChallengeOpen(challenge) && (
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                        <p className="text-sm text-yellow-800">{JUDGING_HINTS[challenge.judging]}</p>
+                        {challenge.judging === 'vote' && (
+                          <Button size="sm" onClick={() => setVotingChallenge(challenge)} className="shrink-0">
+                            <Vote className="w-4 h-4 mr-2" />
+                            Vota
+                          </Button>
+                        )}
+                      </div>
+                    )}
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-muted-foreground">
                         Premio: <strong className="text-yellow-700">{challenge.badgeName}</strong>
@@ -258,7 +424,7 @@ export function MessageBoard({
             <div className="hidden sm:flex gap-2">
               <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-green-50 border border-green-200">
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span className="text-sm text-green-600">Auto-refresh attivo</span>
+                <span className="text-sm text-green-600">{streamConnected ? 'Connesso in tempo reale' : 'Auto-refresh attivo'}</span>
               </div>
               <Button 
                 variant="outline" 
@@ -377,6 +543,34 @@ export function MessageBoard({
           </div>
         )}
 
+        {/* Messaggi in attesa di approvazione */}
+        {pendingMessages.length > 0 && (
+          <Card className="mb-6 border-amber-300 bg-amber-50/60">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-amber-800">
+                <Hourglass className="w-5 h-5" />
+                In attesa di approvazione
+              </CardTitle>
+              <CardDescription>
+                Lo staff deve approvare {pendingMessages.length === 1 ? 'il tuo messaggio' : `i tuoi ${pendingMessages.length} messaggi`} prima della consegna
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {pendingMessages.map((message) => (
+                <div key={message.id} className="p-3 border border-amber-200 rounded-lg bg-white/70">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span>Al Tavolo {message.toTable}{message.isAnonymous ? ' · anonimo' : ''}</span>
+                    <span>
+                      {new Date(message.timestamp).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-sm break-words">{message.content}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Connected Users */}
         <Card className="mb-6">
           <CardHeader>
@@ -419,6 +613,98 @@ export function MessageBoard({
           </CardContent>
         </Card>
 
+        {/* Trophy Case */}
+        {trophyTables.length > 0 && (
+          <Card className="mb-6 border-yellow-300">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-yellow-500" />
+                Bacheca dei Trofei
+              </CardTitle>
+              <CardDescription>
+                {myBadges.length === 0
+                  ? 'Il vostro tavolo non ha ancora vinto badge: partecipate alle sfide!'
+                  : `Il vostro tavolo ha vinto ${myBadges.length} badge`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {myBadges.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {myBadges.map((badge) => (
+                    <div key={badge.challengeId} className="flex items-center gap-3 p-3 border border-yellow-300 rounded-lg bg-yellow-50">
+                      <span className="text-3xl">{badge.emoji}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{badge.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {badge.challengeTitle} · {new Date(badge.awardedAt).toLocaleTimeString('it-IT', {
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {trophyTables.map(([tableId, badges]) => (
+                  <Badge
+                    key={tableId}
+                    variant={tableId === currentTable ? 'default' : 'outline'}
+                    className="text-sm gap-1"
+                  >
+                    Tavolo {tableId}
+                    <TableBadgeIcons badges={badges} max={5} />
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Past Challenges */}
+        {pastChallenges.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-muted-foreground" />
+                Sfide Concluse
+              </CardTitle>
+              <CardDescription>Tocca una sfida per vedere la classifica</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {pastChallenges.map((challenge) => {
+                const winners = challengeWinners(challenge);
+                const ownEntry = challenge.result?.ranking.find(entry => entry.tableId === currentTable);
+
+                return (
+                  <button
+                    key={challenge.id}
+                    type="button"
+                    onClick={() => setEndedChallenge(challenge)}
+                    className="w-full flex items-center gap-3 p-3 border rounded-lg text-left hover:bg-muted/40 transition-colors"
+                  >
+                    <span className="text-2xl">{challenge.badgeEmoji}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{challenge.title}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {winners.length === 0
+                          ? 'Nessun vincitore'
+                          : `${winners.length > 1 ? 'Vincitori' : 'Vincitore'}: Tavolo ${winners.join(', ')}`}
+                      </div>
+                    </div>
+                    {ownEntry && (
+                      <Badge variant={ownEntry.rank === 1 ? 'default' : 'outline'}>
+                        {ownEntry.rank}°
+                      </Badge>
+                    )}
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Messages */}
         <Card>
           <CardHeader>
@@ -458,22 +744,47 @@ export function MessageBoard({
               </div>
             ) : (
               <div className="space-y-4">
-                {messages
-                  .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-                  .map((message) => (
-                    <MessageCard
-                      key={message.id}
-                      message={message}
-                      currentTable={currentTable}
-                      onReactionAdded={onRefresh}
-                    />
-                  ))
-                }
+                {/* Conversazioni: la più recente in alto, i messaggi di ciascuna in ordine cronologico */}
+                {groupThreads(messages).map((thread) => (
+                  <div key={thread[0].threadId || thread[0].id}>
+                    {thread.map((message, index) => (
+                      <div key={message.id} className={index > 0 ? 'ml-4 sm:ml-8 pl-3 border-l-2 border-primary/30' : ''}>
+                        <MessageCard
+                          message={message}
+                          currentTable={currentTable}
+                          reactionEmojis={reactionEmojis}
+                          onReactionAdded={onRefresh}
+                          onReply={onReplyToMessage}
+                          senderBadges={message.fromTable ? tableBadges[message.fromTable] : undefined}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {onLoadOlderMessages && (
+                  <LoadOlderMessages
+                    hasMore={hasOlderMessages}
+                    isLoading={isLoadingOlderMessages}
+                    onLoadMore={onLoadOlderMessages}
+                  />
+                )}
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <ChallengeVoteDialog
+        challenge={votingChallenge}
+        currentTable={currentTable}
+        onClose={() => setVotingChallenge(null)}
+      />
+
+      <ChallengeCelebration
+        challenge={endedChallenge}
+        currentTable={currentTable}
+        onClose={() => setEndedChallenge(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
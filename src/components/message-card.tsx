@@ -1,9 +1,12 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
-import { Mail, User, Clock, Heart, ThumbsUp, Flame, Laugh } from "lucide-react";
+import { Mail, User, Clock, Flag, Reply, CornerDownRight } from "lucide-react";
 import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { ReportMessageDialog } from "./report-message-dialog";
+import { TableBadgeIcons } from "./table-badge-icons";
+import type { TableBadge } from '../utils/table-badges';
 
 interface Message {
   id: string;
@@ -14,23 +17,36 @@ interface Message {
   timestamp: Date;
   isAnonymous: boolean;
   isBroadcast?: boolean;
-  reactions?: {
-    heart: number;
-    thumbsup: number;
-    fire: number;
-    laugh: number;
-  };
+  reactions?: Record<string, number>; // Conteggio per emoji
+  myReactions?: string[]; // Emoji con cui il giocatore ha già reagito
+  addressedTo?: string | null; // Risposta rivolta a chi aveva scritto il messaggio originale
+  replyTo?: { id: string; content: string | null; fromTable: string | null } | null; // Messaggio citato
 }
 
 interface MessageCardProps {
   message: Message;
   currentTable?: string;
+  reactionEmojis?: string[]; // Emoji consentite dall'admin
   onReactionAdded?: () => void;
+  onReply?: (message: Message) => void;
+  senderBadges?: TableBadge[]; // Badge vinti dal tavolo del mittente
 }
 
-export function MessageCard({ message, currentTable, onReactionAdded }: MessageCardProps) {
-  const [reactions, setReactions] = useState(message.reactions || { heart: 0, thumbsup: 0, fire: 0, laugh: 0 });
-  const [userReaction, setUserReaction] = useState<string | null>(null);
+export const DEFAULT_REACTION_EMOJIS = ['❤️', '👍', '🔥', '😂'];
+
+export function MessageCard({ message, currentTable, reactionEmojis = DEFAULT_REACTION_EMOJIS, onReactionAdded, onReply, senderBadges }: MessageCardProps) {
+  const [reactions, setReactions] = useState<Record<string, number>>(message.reactions || {});
+  const [myReactions, setMyReactions] = useState<string[]>(message.myReactions || []);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  // Allinea i contatori quando arrivano aggiornamenti dallo stream
+  useEffect(() => {
+    if (message.reactions) setReactions(message.reactions);
+  }, [message.reactions]);
+
+  useEffect(() => {
+    if (message.myReactions) setMyReactions(message.myReactions);
+  }, [message.myReactions]);
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('it-IT', {
@@ -39,7 +55,7 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
     });
   };
 
-  const handleReaction = async (reactionType: 'heart' | 'thumbsup' | 'fire' | 'laugh') => {
+  const handleReaction = async (emoji: string) => {
     if (!currentTable) return;
 
     try {
@@ -50,8 +66,7 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
           headers: getApiHeaders(),
           body: JSON.stringify({
             messageId: message.id,
-            reaction: reactionType,
-            tableNumber: currentTable
+            emoji
           })
         }
       );
@@ -59,7 +74,7 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
       if (response.ok) {
         const data = await response.json();
         setReactions(data.reactions);
-        setUserReaction(data.userReaction);
+        setMyReactions(data.myReactions);
         onReactionAdded?.();
       }
     } catch (error) {
@@ -67,13 +82,6 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
     }
   };
 
-  const reactionButtons = [
-    { type: 'heart' as const, icon: Heart, color: 'text-red-500', label: '❤️' },
-    { type: 'thumbsup' as const, icon: ThumbsUp, color: 'text-blue-500', label: '👍' },
-    { type: 'fire' as const, icon: Flame, color: 'text-orange-500', label: '🔥' },
-    { type: 'laugh' as const, icon: Laugh, color: 'text-yellow-500', label: '😂' },
-  ];
-
   return (
     <Card className="mb-4 hover:shadow-lg transition-all duration-300 animate-in fade-in slide-in-from-bottom-2">
       <CardHeader className="pb-3">
@@ -95,10 +103,13 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
                 </span>
               </div>
             ) : (
-              <Badge variant="default" className="bg-primary text-primary-foreground">
-                <User className="w-3 h-3 mr-1" />
-                {message.publicSenderName || `Tavolo ${message.fromTable}`}
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant="default" className="bg-primary text-primary-foreground">
+                  <User className="w-3 h-3 mr-1" />
+                  {message.publicSenderName || `Tavolo ${message.fromTable}`}
+                </Badge>
+                <TableBadgeIcons badges={senderBadges} />
+              </div>
             )}
           </div>
           <div className="flex items-center gap-1 text-sm text-muted-foreground">
@@ -108,21 +119,34 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {/* Messaggio a cui si risponde: scritto dal nostro tavolo */}
+        {message.replyTo && (
+          <div className="flex items-start gap-2 text-sm text-muted-foreground bg-muted/50 rounded-md p-2 border-l-4 border-primary/40">
+            <CornerDownRight className="w-4 h-4 mt-0.5 shrink-0" />
+            <div className="min-w-0">
+              <span className="font-medium">
+                In risposta {message.addressedTo ? `a ${message.addressedTo}` : 'al vostro messaggio'}
+              </span>
+              <p className="italic truncate">{message.replyTo.content ?? 'Messaggio rimosso'}</p>
+            </div>
+          </div>
+        )}
+
         <p className="text-lg leading-relaxed">{message.content}</p>
 
         {/* Reactions */}
         {currentTable && (
           <div className="flex flex-wrap gap-2 pt-2 border-t">
-            {reactionButtons.map(({ type, icon: Icon, color, label }) => {
-              const isSelected = userReaction === type;
-              const hasReactions = reactions[type] > 0;
+            {reactionEmojis.map((emoji) => {
+              const isSelected = myReactions.includes(emoji);
+              const hasReactions = (reactions[emoji] || 0) > 0;
 
               return (
                 <Button
-                  key={type}
+                  key={emoji}
                   variant="ghost"
                   size="sm"
-                  onClick={() => handleReaction(type)}
+                  onClick={() => handleReaction(emoji)}
                   className={`h-8 px-2 transition-all ${
                     isSelected
                       ? 'bg-primary text-primary-foreground border-2 border-primary scale-110'
@@ -131,14 +155,48 @@ export function MessageCard({ message, currentTable, onReactionAdded }: MessageC
                         : ''
                   }`}
                 >
-                  <Icon className={`w-4 h-4 ${isSelected ? 'text-primary-foreground' : color} mr-1`} />
-                  <span className="text-xs font-semibold">{reactions[type] || 0}</span>
+                  <span className="text-base leading-none mr-1">{emoji}</span>
+                  <span className="text-xs font-semibold">{reactions[emoji] || 0}</span>
                 </Button>
               );
             })}
+
+            {/* Risposta al mittente, anche se anonimo */}
+            {!message.isBroadcast && message.fromTable && onReply && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onReply(message)}
+                className="h-8 px-2 ml-auto"
+              >
+                <Reply className="w-4 h-4 mr-1" />
+                <span className="text-xs">Rispondi</span>
+              </Button>
+            )}
+
+            {/* Segnalazione allo staff (non per i messaggi dell'amministrazione) */}
+            {!message.isBroadcast && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsReportOpen(true)}
+                className={`h-8 px-2 text-muted-foreground hover:text-destructive ${message.fromTable && onReply ? '' : 'ml-auto'}`}
+                title="Segnala messaggio"
+              >
+                <Flag className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
+
+      {!message.isBroadcast && (
+        <ReportMessageDialog
+          messageId={message.id}
+          isOpen={isReportOpen}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Flag } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+
+// Motivi di segnalazione (stesse chiavi del backend)
+export const REPORT_REASONS: Array<{ value: string; label: string }> = [
+  { value: 'harassment', label: 'Molestie' },
+  { value: 'offensive', label: 'Linguaggio offensivo' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'other', label: 'Altro' }
+];
+
+interface ReportMessageDialogProps {
+  messageId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ReportMessageDialog({ messageId, isOpen, onClose }: ReportMessageDialogProps) {
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleClose = () => {
+    setReason('');
+    setNote('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(buildApiUrl('report-message'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ messageId, reason, note: note.trim() || undefined })
+      });
+
+      if (response.ok) {
+        toast.success('Segnalazione inviata', {
+          description: 'Lo staff la esaminerà al più presto'
+        });
+        handleClose();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || 'Errore nell\'invio della segnalazione');
+      }
+    } catch (error) {
+      console.error('Error reporting message:', error);
+      toast.error('Errore di connessione');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5 text-destructive" />
+            Segnala messaggio
+          </DialogTitle>
+          <DialogDescription>
+            La segnalazione arriva solo allo staff: il mittente non saprà chi l'ha inviata
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {REPORT_REASONS.map((option) => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  variant={reason === option.value ? 'default' : 'outline'}
+                  onClick={() => setReason(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-note">Dettagli (facoltativo)</Label>
+            <Textarea
+              id="report-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              rows={3}
+              placeholder="Racconta allo staff cosa è successo"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleClose} disabled={isSending}>
+              Annulla
+            </Button>
+            <Button variant="destructive" onClick={handleSubmit} disabled={!reason || isSending}>
+              {isSending ? 'Invio...' : 'Invia segnalazione'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ interface StaffPermissions {
     manage_challenges: boolean;
     manage_tv: boolean;
     manage_game_state: boolean;
+    moderate_messages: boolean;
 }
 
 const PERMISSION_LABELS: Record<keyof StaffPermissions, string> = {
@@ -30,6 +31,7 @@ const PERMISSION_LABELS: Record<keyof StaffPermissions, string> = {
     manage_challenges: 'Gestione Sfide',
     manage_tv: 'Controllo TV Display',
     manage_game_state: 'Controllo Stato Gioco',
+    moderate_messages: 'Moderazione Messaggi',
 };
 
 const DEFAULT_PERMISSIONS: StaffPermissions = {
@@ -42,6 +44,7 @@ const DEFAULT_PERMISSIONS: StaffPermissions = {
     manage_challenges: false,
     manage_tv: false,
     manage_game_state: false,
+    moderate_messages: false,
 };
 
 interface StaffModalProps {
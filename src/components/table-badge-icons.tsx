@@ -0,0 +1,32 @@
+import type { TableBadge } from '../utils/table-badges';
+
+interface TableBadgeIconsProps {
+  badges?: TableBadge[];
+  max?: number;
+  className?: string;
+}
+
+/**
+ * Emoji dei badge vinti da un tavolo (i più recenti), con nome e sfida al passaggio del mouse
+ */
+export function TableBadgeIcons({ badges, max = 3, className = '' }: TableBadgeIconsProps) {
+  if (!badges || badges.length === 0) return null;
+
+  const visible = badges.slice(-max).reverse();
+  const hidden = badges.length - visible.length;
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${className}`}>
+      {visible.map((badge) => (
+        <span key={badge.challengeId} title={`${badge.name} · ${badge.challengeTitle}`}>
+          {badge.emoji}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="text-xs text-muted-foreground" title={`${badges.length} badge vinti`}>
+          +{hidden}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,136 @@
+import { challengeWinners, formatChallengeScore, type EndedChallenge } from './challenge-celebration';
+
+const CONFETTI_COLORS = ['#fbbf24', '#f97316', '#ec4899', '#60a5fa', '#34d399', '#fde047'];
+const CONFETTI_COUNT = 40;
+
+// Ordine sul podio: secondo, primo, terzo
+const PODIUM_STEPS = [
+  { position: 1, medal: '🥈', height: '16vh', color: '#d1d5db', delay: 1.6 },
+  { position: 0, medal: '🥇', height: '24vh', color: '#fbbf24', delay: 2.2 },
+  { position: 2, medal: '🥉', height: '11vh', color: '#fb923c', delay: 1.0 }
+];
+
+/**
+ * Annuncio a tutto schermo di fine sfida: premio, tavolo vincitore e podio con i punteggi
+ * (il TV torna alla scena normale quando il componente viene smontato)
+ */
+export function TvCelebration({ challenge }: { challenge: EndedChallenge }) {
+  const ranking = challenge.result?.ranking ?? [];
+  const unit = challenge.result?.unit ?? 'messaggi';
+  const winners = challengeWinners(challenge);
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      zIndex: 50,
+      overflow: 'hidden',
+      background: 'radial-gradient(circle at 50% 30%, #312e81 0%, #1e1b4b 60%, #0f172a 100%)',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      color: 'white',
+      textAlign: 'center',
+      animation: 'fadeIn 0.5s ease-out'
+    }}>
+      <style>{`
+        @keyframes confettiFall {
+          0% { transform: translateY(-10vh) rotate(0deg); opacity: 1; }
+          100% { transform: translateY(110vh) rotate(720deg); opacity: 0.7; }
+        }
+
+        @keyframes celebrationPop {
+          0% { transform: scale(0); opacity: 0; }
+          60% { transform: scale(1.25); opacity: 1; }
+          100% { transform: scale(1); }
+        }
+
+        @keyframes podiumRise {
+          0% { transform: scaleY(0); }
+          100% { transform: scaleY(1); }
+        }
+      `}</style>
+
+      {/* Coriandoli: posizioni fisse per indice, così non cambiano a ogni render */}
+      {Array.from({ length: CONFETTI_COUNT }, (_, index) => (
+        <div key={index} style={{
+          position: 'absolute',
+          top: 0,
+          left: `${(index * 37) % 100}vw`,
+          width: '1.2vh',
+          height: '2vh',
+          background: CONFETTI_COLORS[index % CONFETTI_COLORS.length],
+          borderRadius: '0.2vh',
+          animation: `confettiFall ${3 + (index % 5) * 0.6}s linear ${(index % 10) * 0.4}s infinite`
+        }} />
+      ))}
+
+      <div style={{ fontSize: '16vh', lineHeight: 1, animation: 'celebrationPop 0.9s ease-out both' }}>
+        {challenge.badgeEmoji || '🏆'}
+      </div>
+      <div style={{ fontSize: '3vh', fontWeight: 700, textTransform: 'uppercase', letterSpacing: '0.4vw', marginTop: '2vh', opacity: 0.85 }}>
+        Sfida terminata{challenge.result?.suddenDeath ? ' dopo lo spareggio' : ''}
+      </div>
+      <div style={{ fontSize: '5.5vh', fontWeight: 900, marginTop: '1vh' }}>
+        {challenge.title}
+      </div>
+
+      {winners.length === 0 ? (
+        <div style={{ fontSize: '5vh', fontWeight: 700, marginTop: '4vh' }}>
+          Nessun vincitore
+        </div>
+      ) : (
+        <>
+          <div style={{
+            fontSize: '9vh',
+            fontWeight: 900,
+            marginTop: '2vh',
+            color: '#fde047',
+            textShadow: '0 6px 24px rgba(0,0,0,0.5)',
+            animation: 'celebrationPop 0.8s ease-out 0.5s both'
+          }}>
+            Tavolo {winners.join(' & ')}
+          </div>
+          <div style={{ fontSize: '3.5vh', fontWeight: 600, marginTop: '0.5vh' }}>
+            {winners.length > 1 ? 'vincono' : 'vince'} {challenge.badgeEmoji} {challenge.badgeName}
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'center', gap: '2vw', marginTop: '5vh' }}>
+            {PODIUM_STEPS.map(({ position, medal, height, color, delay }) => {
+              const entry = ranking[position];
+              if (!entry) return <div key={medal} style={{ width: '18vw' }} />;
+
+              return (
+                <div key={medal} style={{ width: '18vw', display: 'flex', flexDirection: 'column', alignItems: 'center', animation: `fadeIn 0.6s ease-out ${delay}s both` }}>
+                  <div style={{ fontSize: '7vh', lineHeight: 1 }}>{medal}</div>
+                  <div style={{ fontSize: '4vh', fontWeight: 900, margin: '1vh 0 0.5vh' }}>Tavolo {entry.tableId}</div>
+                  <div style={{ fontSize: '2.6vh', fontWeight: 600, opacity: 0.9, marginBottom: '1vh' }}>
+                    {formatChallengeScore(unit, entry.score)}
+                  </div>
+                  <div style={{
+                    width: '100%',
+                    height,
+                    background: color,
+                    borderRadius: '1.5vh 1.5vh 0 0',
+                    transformOrigin: 'bottom',
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    justifyContent: 'center',
+                    paddingTop: '1.5vh',
+                    fontSize: '6vh',
+                    fontWeight: 900,
+                    color: '#111827',
+                    animation: `podiumRise 0.7s ease-out ${delay}s both`
+                  }}>
+                    {entry.rank}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,51 +1,46 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Trophy, MessageSquare, Users, Radio } from 'lucide-react';
-import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
-
-interface LeaderboardEntry {
-  tableId: string;
-  points: number;
-}
-
-interface BroadcastMessage {
-  id: string;
-  content: string;
-  timestamp: string;
-}
-
-interface Challenge {
-  id: string;
-  title: string;
-  description: string;
-  type: string;
-  startedAt: string;
-  endsAt: string;
-  active: boolean;
-  badgeName: string;
-  badgeEmoji: string;
-}
-
-interface RecentMessage {
-  id: string;
-  content: string;
-  fromTable: string;
-  toTable: string;
-  timestamp: string;
-  isAnonymous: boolean;
-}
+import { buildApiUrl, getDisplayHeaders } from '../utils/api-helper';
+import { type EndedChallenge } from './challenge-celebration';
+import { TvCelebration } from './tv-celebration';
+import { type TableBadges } from '../utils/table-badges';
+import { isAwaitingJudgement, type ChallengeSubmission } from '../utils/challenge-submissions';
+import { useStreamEvent, useTvStream } from '../utils/game-stream';
+import { DEFAULT_TV_STATE, TV_THEMES, getTvScreenKey, resolveTvScene, type TvState } from '../utils/tv-scenes';
+import {
+  TvAnnouncementScene,
+  TvChallengeScene,
+  TvCountdownScene,
+  TvLeaderboardScene,
+  TvPodiumScene,
+  TvWallScene,
+  type BroadcastMessage,
+  type Challenge,
+  type LeaderboardEntry,
+  type WallMessage,
+  type TvCountdown
+} from './tv-scenes';
+
+// Durata del festeggiamento a schermo e "freschezza" massima di una sfida conclusa
+const CELEBRATION_DURATION_MS = 15000;
+const CELEBRATION_MAX_AGE_MS = 2 * 60 * 1000;
 
 interface LiveStats {
   totalMessages: number;
   totalUsers: number;
   totalReactions: number;
+  topReaction?: string | null; // Emoji più usata
   activeTables: number;
 }
 
 export function TVDisplay() {
+  // Schermo scelto dal link (?tv=bar), fisso per tutta la vita della pagina
+  const [screenKey] = useState(getTvScreenKey);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [broadcasts, setBroadcasts] = useState<BroadcastMessage[]>([]);
   const [challenges, setChallenges] = useState<Challenge[]>([]);
-  const [recentMessages, setRecentMessages] = useState<RecentMessage[]>([]);
+  const [challengeVotes, setChallengeVotes] = useState<Record<string, ChallengeSubmission[]>>({});
+  const [wall, setWall] = useState<WallMessage[]>([]);
   const [stats, setStats] = useState<LiveStats>({
     totalMessages: 0,
     totalUsers: 0,
@@ -53,147 +48,59 @@ export function TVDisplay() {
     activeTables: 0
   });
   const [currentTime, setCurrentTime] = useState(new Date());
-
-  // Fetch leaderboard data
-  const fetchLeaderboard = async () => {
+  const [celebration, setCelebration] = useState<EndedChallenge | null>(null);
+  const lastCelebratedId = useRef<string | null>(null);
+  const [tableBadges, setTableBadges] = useState<TableBadges>({});
+  // Token mancante/revocato oppure schermo non registrato dallo staff
+  const [accessError, setAccessError] = useState<'denied' | 'unknown-screen' | null>(null);
+  const [tvState, setTvState] = useState<TvState>(DEFAULT_TV_STATE);
+  const [countdown, setCountdown] = useState<TvCountdown>({ active: false });
+
+  // Tutto il contenuto del TV in una sola richiesta (token display o sessione staff)
+  const fetchSnapshot = async () => {
     try {
-      const response = await fetch(
-        buildApiUrl('admin/table-stats'),
-        {
-          headers: getApiHeaders()
-        }
-      );
+      const response = await fetch(buildApiUrl(`tv/snapshot?screen=${encodeURIComponent(screenKey)}`), {
+        headers: getDisplayHeaders()
+      });
 
-      if (response.ok) {
-        const data = await response.json();
-        setLeaderboard(data.leaderboard.slice(0, 5));
+      if (response.status === 401 || response.status === 403 || response.status === 404) {
+        setAccessError(response.status === 404 ? 'unknown-screen' : 'denied');
+        return;
       }
-    } catch (error) {
-      console.error('Error fetching leaderboard:', error);
-    }
-  };
-
-  // Fetch broadcast messages and recent messages
-  const fetchBroadcasts = async () => {
-    try {
-      const response = await fetch(
-        buildApiUrl('admin/all-messages'),
-        {
-          headers: getApiHeaders()
-        }
-      );
 
       if (response.ok) {
         const data = await response.json();
-
-        // Deduplicate broadcasts - show only unique messages based on content+timestamp
-        const broadcastMap = new Map<string, any>();
-        data.messages
-          .filter((msg: any) => msg.isBroadcast)
-          .forEach((msg: any) => {
-            // Create unique key based on content (broadcast messages with same content are duplicates)
-            const key = msg.content.trim();
-            // Keep only the first occurrence (or the one with earliest timestamp)
-            if (!broadcastMap.has(key)) {
-              broadcastMap.set(key, msg);
-            }
-          });
-
-        const uniqueBroadcasts = Array.from(broadcastMap.values())
-          .slice(0, 3)
-          .map((msg: any) => ({
-            id: msg.id,
-            content: msg.content,
-            timestamp: msg.timestamp
-          }));
-        setBroadcasts(uniqueBroadcasts);
-
-        // Get recent messages (not broadcasts)
-        const recentMsgs = data.messages
-          .filter((msg: any) => !msg.isBroadcast)
-          .slice(0, 6)
-          .map((msg: any) => ({
-            id: msg.id,
-            content: msg.content,
-            fromTable: msg.fromTable,
-            toTable: msg.toTable,
-            timestamp: msg.timestamp,
-            isAnonymous: msg.isAnonymous
-          }));
-        setRecentMessages(recentMsgs);
-      }
-    } catch (error) {
-      console.error('Error fetching broadcasts:', error);
-    }
-  };
-
-  // Fetch live statistics
-  const fetchStats = async () => {
-    try {
-      const messagesResponse = await fetch(
-        buildApiUrl('admin/all-messages'),
-        {
-          headers: getApiHeaders()
+        setAccessError(null);
+        setLeaderboard(data.leaderboard);
+        setBroadcasts(data.broadcasts);
+        setWall(data.wall);
+        setStats(data.stats);
+        setChallenges(data.challenges);
+        setChallengeVotes(data.challengeVotes);
+        setTableBadges(data.badges);
+        setTvState(data.tv);
+        setCountdown(data.countdown);
+
+        // Festeggia una volta sola ogni sfida appena conclusa
+        const challenge: EndedChallenge | null = data.latestResult;
+        if (!challenge || !challenge.endedAt || challenge.id === lastCelebratedId.current) return;
+
+        lastCelebratedId.current = challenge.id;
+        if (Date.now() - new Date(challenge.endedAt).getTime() < CELEBRATION_MAX_AGE_MS) {
+          setCelebration(challenge);
         }
-      );
-
-      const tablesResponse = await fetch(
-        buildApiUrl('admin/active-tables'),
-        {
-          headers: getApiHeaders()
-        }
-      );
-
-      if (messagesResponse.ok && tablesResponse.ok) {
-        const messagesData = await messagesResponse.json();
-        const tablesData = await tablesResponse.json();
-
-        let totalReactions = 0;
-        messagesData.messages.forEach((msg: any) => {
-          if (msg.reactions) {
-            totalReactions +=
-              (msg.reactions.heart || 0) +
-              (msg.reactions.thumbsup || 0) +
-              (msg.reactions.fire || 0) +
-              (msg.reactions.laugh || 0);
-          }
-        });
-
-        let totalUsers = 0;
-        tablesData.activeTables.forEach((table: any) => {
-          totalUsers += table.userCount;
-        });
-
-        setStats({
-          totalMessages: messagesData.messages.filter((m: any) => !m.isBroadcast).length,
-          totalUsers: totalUsers,
-          totalReactions: totalReactions,
-          activeTables: tablesData.activeTables.length
-        });
       }
     } catch (error) {
-      console.error('Error fetching stats:', error);
+      console.error('Error fetching TV snapshot:', error);
     }
   };
 
-  // Fetch active challenges
-  const fetchChallenges = async () => {
-    try {
-      const response = await fetch(
-        buildApiUrl('challenges/active'),
-        {
-          headers: getApiHeaders()
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        setChallenges(data.challenges || []);
-      }
-    } catch (error) {
-      console.error('Error fetching challenges:', error);
-    }
-  };
+  // Nasconde il festeggiamento dopo qualche secondo
+  useEffect(() => {
+    if (!celebration) return;
+    const timeout = setTimeout(() => setCelebration(null), CELEBRATION_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [celebration]);
 
   // Update time every second
   useEffect(() => {
@@ -205,21 +112,32 @@ export function TVDisplay() {
 
   // Initial load and refresh every 5 seconds
   useEffect(() => {
-    fetchLeaderboard();
-    fetchBroadcasts();
-    fetchStats();
-    fetchChallenges();
-
-    const interval = setInterval(() => {
-      fetchLeaderboard();
-      fetchBroadcasts();
-      fetchStats();
-      fetchChallenges();
-    }, 5000);
+    fetchSnapshot();
+
+    const interval = setInterval(fetchSnapshot, 5000);
 
     return () => clearInterval(interval);
   }, []);
 
+  // Stream dei TV: la scena cambia subito, gli eventi di gioco anticipano il polling
+  useTvStream(screenKey);
+  useStreamEvent('tv-scene', (data: TvState) => setTvState(data));
+  useStreamEvent('tv-wall', (data: { messages: WallMessage[] }) => setWall(data.messages));
+  useStreamEvent('countdown', (data: TvCountdown) => setCountdown(data));
+  useStreamEvent('open', fetchSnapshot);
+  useStreamEvent('challenge-start', fetchSnapshot);
+  useStreamEvent('challenge-end', (data: EndedChallenge) => {
+    // Festeggia subito, senza aspettare il prossimo snapshot
+    lastCelebratedId.current = data.id;
+    setCelebration(data);
+    fetchSnapshot();
+  });
+  useStreamEvent('tv-celebration', (data: EndedChallenge) => setCelebration(data));
+  useStreamEvent('challenge-extended', fetchSnapshot);
+  useStreamEvent('challenge-votes', fetchSnapshot);
+
+  const scene = resolveTvScene(tvState, currentTime);
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString('it-IT', {
@@ -228,14 +146,45 @@ export function TVDisplay() {
     });
   };
 
+  const background = (TV_THEMES[tvState.theme] ?? TV_THEMES.default).background;
+
+  // Link senza token valido (o token revocato) o schermo sconosciuto: il TV non mostra nulla
+  if (accessError) {
+    return (
+      <div style={{
+        width: '100vw',
+        height: '100vh',
+        background: 'linear-gradient(135deg, #1e1b4b 0%, #312e81 50%, #1e40af 100%)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '3vh',
+        color: 'white',
+        textAlign: 'center',
+        padding: '0 10vw'
+      }}>
+        <Radio style={{ width: '12vh', height: '12vh', opacity: 0.6 }} />
+        <h1 style={{ fontSize: '5vh', fontWeight: '900', margin: 0 }}>
+          {accessError === 'denied' ? 'Display non autorizzato' : `Schermo "${screenKey}" non registrato`}
+        </h1>
+        <p style={{ fontSize: '2.8vh', opacity: 0.8, margin: 0 }}>
+          {accessError === 'denied'
+            ? 'Apri il link con il token display generato nella sezione TV Display del pannello admin'
+            : 'Registra lo schermo nella sezione TV Display del pannello admin: il TV si collega da solo'}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div style={{
       width: '100vw',
       height: '100vh',
       overflow: 'hidden',
-      background: 'linear-gradient(135deg, #1e1b4b 0%, #312e81 50%, #1e40af 100%)',
+      background,
       display: 'grid',
-      gridTemplateRows: '10vh 18vh 72vh',
+      gridTemplateRows: scene === 'overview' ? '10vh 18vh 72vh' : '10vh 90vh',
       gap: '0',
       padding: '0',
       margin: '0'
@@ -283,426 +232,478 @@ export function TVDisplay() {
         </div>
       </div>
 
-      {/* STATS BAR */}
-      <div style={{ padding: '0 2vw 2vh 2vw' }}>
-        <div style={{
-          height: '100%',
-          display: 'grid',
-          gridTemplateColumns: 'repeat(4, 1fr)',
-          gap: '2vw'
-        }}>
-          {/* Messaggi */}
-          <div style={{
-            background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
-            borderRadius: '1.8vh',
-            padding: '1.5vh 1.5vw',
-            border: '5px solid #60a5fa',
-            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '0.5vh'
-          }}>
-            <MessageSquare style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
-            <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
-              {stats.totalMessages}
-            </div>
-            <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
-              MESSAGGI
-            </div>
-          </div>
-
-          {/* Utenti */}
-          <div style={{
-            background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
-            borderRadius: '1.8vh',
-            padding: '1.5vh 1.5vw',
-            border: '5px solid #34d399',
-            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '0.5vh'
-          }}>
-            <Users style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
-            <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
-              {stats.totalUsers}
-            </div>
-            <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
-              UTENTI
-            </div>
-          </div>
-
-          {/* Tavoli */}
-          <div style={{
-            background: 'linear-gradient(135deg, #a855f7 0%, #ec4899 100%)',
-            borderRadius: '1.8vh',
-            padding: '1.5vh 1.5vw',
-            border: '5px solid #c084fc',
-            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '0.5vh'
-          }}>
-            <Trophy style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
-            <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
-              {stats.activeTables}
-            </div>
-            <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
-              TAVOLI
-            </div>
-          </div>
-
-          {/* Reazioni */}
-          <div style={{
-            background: 'linear-gradient(135deg, #ef4444 0%, #f43f5e 100%)',
-            borderRadius: '1.8vh',
-            padding: '1.5vh 1.5vw',
-            border: '5px solid #f87171',
-            boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            gap: '0.5vh'
-          }}>
-            <div style={{ fontSize: '4.5vh' }}>❤️</div>
-            <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
-              {stats.totalReactions}
-            </div>
-            <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
-              REAZIONI
-            </div>
-          </div>
-        </div>
-      </div>
-
-      {/* MAIN CONTENT - 3 COLONNE */}
-      <div style={{
-        padding: '0 2vw 2vh 2vw',
-        display: 'grid',
-        gridTemplateColumns: 'repeat(3, 1fr)',
-        gap: '2vw',
-        overflow: 'hidden',
-        maxHeight: '100%'
-      }}>
-        {/* COLONNA SINISTRA: CLASSIFICA */}
-        <div style={{
-          background: 'white',
-          borderRadius: '2vh',
-          padding: '2vh 1.8vw',
-          border: '5px solid #fbbf24',
-          boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
-          overflow: 'hidden',
-          display: 'flex',
-          flexDirection: 'column',
-          maxHeight: '100%'
-        }}>
-          <div style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '1.5vw',
-            marginBottom: '2.5vh',
-            paddingBottom: '2vh',
-            borderBottom: '4px solid #fbbf24'
-          }}>
+      {scene === 'overview' ? (
+        <>
+          {/* STATS BAR */}
+          <div style={{ padding: '0 2vw 2vh 2vw' }}>
             <div style={{
-              width: '6vh',
-              height: '6vh',
-              background: '#fbbf24',
-              borderRadius: '1.2vh',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+              height: '100%',
+              display: 'grid',
+              gridTemplateColumns: 'repeat(4, 1fr)',
+              gap: '2vw'
             }}>
-              <Trophy style={{ width: '4vh', height: '4vh', color: '#78350f' }} />
-            </div>
-            <div>
-              <h2 style={{ fontSize: '4.5vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
-                TOP 5
-              </h2>
-              <p style={{ fontSize: '1.8vh', fontWeight: '700', color: '#4b5563', margin: '0.8vh 0 0 0' }}>
-                Msg 0.5 • ❤️ 2 • 🔥 1.5 • 👍 1 • 😂 0.5
-              </p>
-            </div>
-          </div>
+              {/* Messaggi */}
+              <div style={{
+                background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
+                borderRadius: '1.8vh',
+                padding: '1.5vh 1.5vw',
+                border: '5px solid #60a5fa',
+                boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '0.5vh'
+              }}>
+                <MessageSquare style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
+                <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
+                  {stats.totalMessages}
+                </div>
+                <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
+                  MESSAGGI
+                </div>
+              </div>
 
-          <div style={{ flex: 1, overflow: 'hidden' }}>
-            {leaderboard.length === 0 ? (
-              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
-                <div style={{ textAlign: 'center' }}>
-                  <Trophy style={{ width: '10vh', height: '10vh', color: '#d1d5db', margin: '0 auto 2vh' }} />
-                  <p style={{ fontSize: '3vh', color: '#9ca3af', fontWeight: '700' }}>Nessun dato</p>
+              {/* Utenti */}
+              <div style={{
+                background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+                borderRadius: '1.8vh',
+                padding: '1.5vh 1.5vw',
+                border: '5px solid #34d399',
+                boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '0.5vh'
+              }}>
+                <Users style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
+                <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
+                  {stats.totalUsers}
+                </div>
+                <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
+                  UTENTI
                 </div>
               </div>
-            ) : (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
-                {leaderboard.map((entry, index) => {
-                  const medals = ['🥇', '🥈', '🥉'];
-                  const bgColors = [
-                    'linear-gradient(90deg, #fbbf24 0%, #f97316 100%)',
-                    'linear-gradient(90deg, #d1d5db 0%, #9ca3af 100%)',
-                    'linear-gradient(90deg, #fb923c 0%, #ef4444 100%)',
-                    'linear-gradient(90deg, #bfdbfe 0%, #93c5fd 100%)',
-                    'linear-gradient(90deg, #bfdbfe 0%, #93c5fd 100%)'
-                  ];
-                  const borderColors = ['#f59e0b', '#6b7280', '#ea580c', '#60a5fa', '#60a5fa'];
-
-                  return (
-                    <div
-                      key={entry.tableId}
-                      style={{
-                        background: bgColors[index],
-                        borderRadius: '1.5vh',
-                        padding: '2vh 1.5vw',
-                        border: `5px solid ${borderColors[index]}`,
-                        boxShadow: '0 6px 20px rgba(0,0,0,0.3)',
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '1.5vw',
-                        animation: `slideIn 0.6s ease-out ${index * 0.1}s both`
-                      }}
-                    >
-                      <div style={{
-                        width: '7vh',
-                        height: '7vh',
-                        background: '#111827',
-                        borderRadius: '1.2vh',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        fontSize: '4.5vh',
-                        boxShadow: '0 4px 12px rgba(0,0,0,0.4)',
-                        flexShrink: 0
-                      }}>
-                        {medals[index] || `${index + 1}`}
-                      </div>
 
-                      <div style={{ flex: 1, minWidth: 0 }}>
-                        <div style={{ fontSize: '3.8vh', fontWeight: '900', color: '#111827', lineHeight: '1' }}>
-                          T.{entry.tableId}
-                        </div>
-                      </div>
+              {/* Tavoli */}
+              <div style={{
+                background: 'linear-gradient(135deg, #a855f7 0%, #ec4899 100%)',
+                borderRadius: '1.8vh',
+                padding: '1.5vh 1.5vw',
+                border: '5px solid #c084fc',
+                boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '0.5vh'
+              }}>
+                <Trophy style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />
+                <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
+                  {stats.activeTables}
+                </div>
+                <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
+                  TAVOLI
+                </div>
+              </div>
 
-                      <div style={{ fontSize: '6vh', fontWeight: '900', color: '#111827', flexShrink: 0, lineHeight: '1' }}>
-                        {entry.points}
-                      </div>
-                    </div>
-                  );
-                })}
+              {/* Reazioni */}
+              <div style={{
+                background: 'linear-gradient(135deg, #ef4444 0%, #f43f5e 100%)',
+                borderRadius: '1.8vh',
+                padding: '1.5vh 1.5vw',
+                border: '5px solid #f87171',
+                boxShadow: '0 8px 24px rgba(0,0,0,0.4)',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '0.5vh'
+              }}>
+                <div style={{ fontSize: '4.5vh' }}>{stats.topReaction || '❤️'}</div>
+                <div style={{ fontSize: '5.5vh', fontWeight: '900', color: 'white', textShadow: '3px 3px 6px rgba(0,0,0,0.4)', lineHeight: '1' }}>
+                  {stats.totalReactions}
+                </div>
+                <div style={{ fontSize: '2vh', fontWeight: '900', color: 'white', textTransform: 'uppercase', letterSpacing: '0.15vw' }}>
+                  REAZIONI
+                </div>
               </div>
-            )}
+            </div>
           </div>
-        </div>
 
-        {/* COLONNA CENTRO: SFIDE */}
-        <div style={{
-          background: 'white',
-          borderRadius: '2vh',
-          padding: '2vh 1.8vw',
-          border: '5px solid #f59e0b',
-          boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
-          overflow: 'hidden',
-          display: 'flex',
-          flexDirection: 'column',
-          maxHeight: '100%'
-        }}>
+          {/* MAIN CONTENT - 3 COLONNE */}
           <div style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '1.5vw',
-            marginBottom: '2.5vh',
-            paddingBottom: '2vh',
-            borderBottom: '4px solid #f59e0b'
+            padding: '0 2vw 2vh 2vw',
+            display: 'grid',
+            gridTemplateColumns: 'repeat(3, 1fr)',
+            gap: '2vw',
+            overflow: 'hidden',
+            maxHeight: '100%'
           }}>
+            {/* COLONNA SINISTRA: CLASSIFICA */}
             <div style={{
-              width: '6vh',
-              height: '6vh',
-              background: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
-              borderRadius: '1.2vh',
+              background: 'white',
+              borderRadius: '2vh',
+              padding: '2vh 1.8vw',
+              border: '5px solid #fbbf24',
+              boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+              overflow: 'hidden',
               display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+              flexDirection: 'column',
+              maxHeight: '100%'
             }}>
-              <Trophy style={{ width: '4vh', height: '4vh', color: 'white' }} />
-            </div>
-            <h2 style={{ fontSize: '4.5vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
-              SFIDE ATTIVE
-            </h2>
-          </div>
-
-          <div style={{ flex: 1, overflow: 'hidden' }}>
-            {challenges.length === 0 ? (
-              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
-                <div style={{ textAlign: 'center' }}>
-                  <Trophy style={{ width: '10vh', height: '10vh', color: '#d1d5db', margin: '0 auto 2vh' }} />
-                  <p style={{ fontSize: '3vh', color: '#9ca3af', fontWeight: '700' }}>Nessuna sfida attiva</p>
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '1.5vw',
+                marginBottom: '2.5vh',
+                paddingBottom: '2vh',
+                borderBottom: '4px solid #fbbf24'
+              }}>
+                <div style={{
+                  width: '6vh',
+                  height: '6vh',
+                  background: '#fbbf24',
+                  borderRadius: '1.2vh',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+                }}>
+                  <Trophy style={{ width: '4vh', height: '4vh', color: '#78350f' }} />
+                </div>
+                <div>
+                  <h2 style={{ fontSize: '4.5vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
+                    TOP 5
+                  </h2>
+                  <p style={{ fontSize: '1.8vh', fontWeight: '700', color: '#4b5563', margin: '0.8vh 0 0 0' }}>
+                    Msg 0.5 • ❤️ 2 • 🔥 1.5 • 👍 1 • 😂 0.5
+                  </p>
                 </div>
               </div>
-            ) : (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
-                {challenges.map((challenge, index) => {
-                  const now = new Date();
-                  const endsAt = new Date(challenge.endsAt);
-                  const timeLeft = Math.max(0, Math.floor((endsAt.getTime() - now.getTime()) / 1000));
-                  const minutesLeft = Math.floor(timeLeft / 60);
-                  const secondsLeft = timeLeft % 60;
-
-                  return (
-                    <div
-                      key={challenge.id}
-                      style={{
-                        background: 'linear-gradient(90deg, #fef3c7 0%, #fde68a 100%)',
-                        borderRadius: '1.5vh',
-                        padding: '2.5vh 1.8vw',
-                        border: '4px solid #fbbf24',
-                        boxShadow: '0 6px 16px rgba(0,0,0,0.25)',
-                        animation: `pulse 2s ease-in-out ${index * 0.2}s infinite`
-                      }}
-                    >
-                      <div style={{ display: 'flex', alignItems: 'center', gap: '1vw', marginBottom: '1.5vh' }}>
-                        <div style={{
-                          padding: '0.8vh 1.2vw',
-                          background: 'linear-gradient(90deg, #f59e0b 0%, #d97706 100%)',
-                          borderRadius: '1vh',
-                          color: 'white',
-                          fontSize: '1.6vh',
-                          fontWeight: '900',
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: '0.8vw'
-                        }}>
-                          <Trophy style={{ width: '2vh', height: '2vh' }} />
-                          SFIDA
-                        </div>
-                        <span style={{
-                          fontSize: '1.6vh',
-                          fontWeight: '900',
-                          color: '#dc2626',
-                          background: '#fee2e2',
-                          padding: '0.5vh 1vw',
-                          borderRadius: '0.8vh'
-                        }}>
-                          ⏱️ {minutesLeft}:{secondsLeft.toString().padStart(2, '0')}
-                        </span>
-                      </div>
-                      <h3 style={{ fontSize: '2.8vh', lineHeight: '1.3', color: '#111827', fontWeight: '900', margin: '0 0 1vh 0' }}>
-                        {challenge.badgeEmoji} {challenge.title}
-                      </h3>
-                      {challenge.description && (
-                        <p style={{ fontSize: '2vh', lineHeight: '1.4', color: '#374151', fontWeight: '600', margin: 0 }}>
-                          {challenge.description}
-                        </p>
-                      )}
+
+              <div style={{ flex: 1, overflow: 'hidden' }}>
+                {leaderboard.length === 0 ? (
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+                    <div style={{ textAlign: 'center' }}>
+                      <Trophy style={{ width: '10vh', height: '10vh', color: '#d1d5db', margin: '0 auto 2vh' }} />
+                      <p style={{ fontSize: '3vh', color: '#9ca3af', fontWeight: '700' }}>Nessun dato</p>
                     </div>
-                  );
-                })}
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
+                    {leaderboard.slice(0, 5).map((entry, index) => {
+                      const medals = ['🥇', '🥈', '🥉'];
+                      const bgColors = [
+                        'linear-gradient(90deg, #fbbf24 0%, #f97316 100%)',
+                        'linear-gradient(90deg, #d1d5db 0%, #9ca3af 100%)',
+                        'linear-gradient(90deg, #fb923c 0%, #ef4444 100%)',
+                        'linear-gradient(90deg, #bfdbfe 0%, #93c5fd 100%)',
+                        'linear-gradient(90deg, #bfdbfe 0%, #93c5fd 100%)'
+                      ];
+                      const borderColors = ['#f59e0b', '#6b7280', '#ea580c', '#60a5fa', '#60a5fa'];
+
+                      return (
+                        <div
+                          key={entry.tableId}
+                          style={{
+                            background: bgColors[index],
+                            borderRadius: '1.5vh',
+                            padding: '2vh 1.5vw',
+                            border: `5px solid ${borderColors[index]}`,
+                            boxShadow: '0 6px 20px rgba(0,0,0,0.3)',
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '1.5vw',
+                            animation: `slideIn 0.6s ease-out ${index * 0.1}s both`
+                          }}
+                        >
+                          <div style={{
+                            width: '7vh',
+                            height: '7vh',
+                            background: '#111827',
+                            borderRadius: '1.2vh',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            fontSize: '4.5vh',
+                            boxShadow: '0 4px 12px rgba(0,0,0,0.4)',
+                            flexShrink: 0
+                          }}>
+                            {medals[index] || `${index + 1}`}
+                          </div>
+
+                          <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ fontSize: '3.8vh', fontWeight: '900', color: '#111827', lineHeight: '1' }}>
+                              T.{entry.tableId}
+                            </div>
+                            {tableBadges[entry.tableId]?.length > 0 && (
+                              <div style={{ fontSize: '2.6vh', lineHeight: '1', marginTop: '0.6vh', whiteSpace: 'nowrap', overflow: 'hidden' }}>
+                                {tableBadges[entry.tableId].slice(-4).map(badge => badge.emoji).join(' ')}
+                                {tableBadges[entry.tableId].length > 4 && ` +${tableBadges[entry.tableId].length - 4}`}
+                              </div>
+                            )}
+                          </div>
+
+                          <div style={{ fontSize: '6vh', fontWeight: '900', color: '#111827', flexShrink: 0, lineHeight: '1' }}>
+                            {entry.points}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        {/* COLONNA DESTRA: ANNUNCI */}
-        <div style={{
-          background: 'white',
-          borderRadius: '2vh',
-          padding: '2vh 1.8vw',
-          border: '5px solid #a855f7',
-          boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
-          overflow: 'hidden',
-          display: 'flex',
-          flexDirection: 'column',
-          maxHeight: '100%'
-        }}>
+            {/* COLONNA CENTRO: SFIDE */}
             <div style={{
+              background: 'white',
+              borderRadius: '2vh',
+              padding: '2vh 1.8vw',
+              border: '5px solid #f59e0b',
+              boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+              overflow: 'hidden',
               display: 'flex',
-              alignItems: 'center',
-              gap: '1.5vw',
-              marginBottom: '2.5vh',
-              paddingBottom: '2vh',
-              borderBottom: '4px solid #a855f7'
+              flexDirection: 'column',
+              maxHeight: '100%'
             }}>
               <div style={{
-                width: '6vh',
-                height: '6vh',
-                background: 'linear-gradient(135deg, #a855f7 0%, #ec4899 100%)',
-                borderRadius: '1.2vh',
                 display: 'flex',
                 alignItems: 'center',
-                justifyContent: 'center',
-                boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+                gap: '1.5vw',
+                marginBottom: '2.5vh',
+                paddingBottom: '2vh',
+                borderBottom: '4px solid #f59e0b'
               }}>
-                <Radio style={{ width: '4vh', height: '4vh', color: 'white' }} />
-              </div>
-              <div>
-                <h2 style={{ fontSize: '4vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
-                  ANNUNCI
+                <div style={{
+                  width: '6vh',
+                  height: '6vh',
+                  background: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
+                  borderRadius: '1.2vh',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+                }}>
+                  <Trophy style={{ width: '4vh', height: '4vh', color: 'white' }} />
+                </div>
+                <h2 style={{ fontSize: '4.5vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
+                  SFIDE ATTIVE
                 </h2>
-                <p style={{ fontSize: '1.6vh', fontWeight: '700', color: '#6b7280', margin: '0.8vh 0 0 0' }}>
-                  Dalla direzione
-                </p>
+              </div>
+
+              <div style={{ flex: 1, overflow: 'hidden' }}>
+                {challenges.length === 0 ? (
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+                    <div style={{ textAlign: 'center' }}>
+                      <Trophy style={{ width: '10vh', height: '10vh', color: '#d1d5db', margin: '0 auto 2vh' }} />
+                      <p style={{ fontSize: '3vh', color: '#9ca3af', fontWeight: '700' }}>Nessuna sfida attiva</p>
+                    </div>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
+                    {challenges.map((challenge, index) => {
+                      const now = new Date();
+                      const endsAt = new Date(challenge.endsAt);
+                      const timeLeft = Math.max(0, Math.floor((endsAt.getTime() - now.getTime()) / 1000));
+                      const minutesLeft = Math.floor(timeLeft / 60);
+                      const secondsLeft = timeLeft % 60;
+
+                      return (
+                        <div
+                          key={challenge.id}
+                          style={{
+                            background: 'linear-gradient(90deg, #fef3c7 0%, #fde68a 100%)',
+                            borderRadius: '1.5vh',
+                            padding: '2.5vh 1.8vw',
+                            border: '4px solid #fbbf24',
+                            boxShadow: '0 6px 16px rgba(0,0,0,0.25)',
+                            animation: `pulse 2s ease-in-out ${index * 0.2}s infinite`
+                          }}
+                        >
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '1vw', marginBottom: '1.5vh' }}>
+                            <div style={{
+                              padding: '0.8vh 1.2vw',
+                              background: 'linear-gradient(90deg, #f59e0b 0%, #d97706 100%)',
+                              borderRadius: '1vh',
+                              color: 'white',
+                              fontSize: '1.6vh',
+                              fontWeight: '900',
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: '0.8vw'
+                            }}>
+                              <Trophy style={{ width: '2vh', height: '2vh' }} />
+                              {challenge.extendedAt ? 'SPAREGGIO' : 'SFIDA'}
+                            </div>
+                            <span style={{
+                              fontSize: '1.6vh',
+                              fontWeight: '900',
+                              color: '#dc2626',
+                              background: '#fee2e2',
+                              padding: '0.5vh 1vw',
+                              borderRadius: '0.8vh'
+                            }}>
+                              {isAwaitingJudgement(challenge)
+                                ? '⚖️ VERDETTO IN ARRIVO'
+                                : `⏱️ ${minutesLeft}:${secondsLeft.toString().padStart(2, '0')}`}
+                            </span>
+                          </div>
+                          <h3 style={{ fontSize: '2.8vh', lineHeight: '1.3', color: '#111827', fontWeight: '900', margin: '0 0 1vh 0' }}>
+                            {challenge.badgeEmoji} {challenge.title}
+                          </h3>
+                          {challenge.description && (
+                            <p style={{ fontSize: '2vh', lineHeight: '1.4', color: '#374151', fontWeight: '600', margin: 0 }}>
+                              {challenge.description}
+                            </p>
+                          )}
+                          {challenge.judging === 'vote' && (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.8vh', marginTop: '1.5vh' }}>
+                              {(challengeVotes[challenge.id] || []).length === 0 ? (
+                                <p style={{ fontSize: '1.8vh', color: '#92400e', fontWeight: '700', margin: 0 }}>
+                                  🗳️ Iscrivete un messaggio e votate il migliore!
+                                </p>
+                              ) : (
+                                (challengeVotes[challenge.id] || []).slice(0, 3).map((submission) => (
+                                  <div key={submission.id} style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'space-between',
+                                    gap: '1vw',
+                                    background: 'rgba(255,255,255,0.7)',
+                                    borderRadius: '0.8vh',
+                                    padding: '0.8vh 1vw'
+                                  }}>
+                                    <span style={{ fontSize: '1.8vh', fontWeight: '800', color: '#111827', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                      Tavolo {submission.fromTable}: {submission.content}
+                                    </span>
+                                    <span style={{ fontSize: '2vh', fontWeight: '900', color: '#b45309', flexShrink: 0 }}>
+                                      🗳️ {submission.votes}
+                                    </span>
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             </div>
 
-            <div style={{ flex: 1, overflow: 'hidden' }}>
-              {broadcasts.length === 0 ? (
-                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
-                  <div style={{ textAlign: 'center' }}>
-                    <Radio style={{ width: '8vh', height: '8vh', color: '#d1d5db', margin: '0 auto 1.5vh' }} />
-                    <p style={{ fontSize: '2.5vh', color: '#9ca3af', fontWeight: '700' }}>Nessun annuncio</p>
+            {/* COLONNA DESTRA: ANNUNCI */}
+            <div style={{
+              background: 'white',
+              borderRadius: '2vh',
+              padding: '2vh 1.8vw',
+              border: '5px solid #a855f7',
+              boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+              overflow: 'hidden',
+              display: 'flex',
+              flexDirection: 'column',
+              maxHeight: '100%'
+            }}>
+                <div style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1.5vw',
+                  marginBottom: '2.5vh',
+                  paddingBottom: '2vh',
+                  borderBottom: '4px solid #a855f7'
+                }}>
+                  <div style={{
+                    width: '6vh',
+                    height: '6vh',
+                    background: 'linear-gradient(135deg, #a855f7 0%, #ec4899 100%)',
+                    borderRadius: '1.2vh',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    boxShadow: '0 4px 12px rgba(0,0,0,0.2)'
+                  }}>
+                    <Radio style={{ width: '4vh', height: '4vh', color: 'white' }} />
+                  </div>
+                  <div>
+                    <h2 style={{ fontSize: '4vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
+                      ANNUNCI
+                    </h2>
+                    <p style={{ fontSize: '1.6vh', fontWeight: '700', color: '#6b7280', margin: '0.8vh 0 0 0' }}>
+                      Dalla direzione
+                    </p>
                   </div>
                 </div>
-              ) : (
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
-                  {/* Broadcast Messages */}
-                  {broadcasts.map((broadcast, index) => (
-                    <div
-                      key={broadcast.id}
-                      style={{
-                        background: 'linear-gradient(90deg, #f3e8ff 0%, #fce7f3 100%)',
-                        borderRadius: '1.5vh',
-                        padding: '2.5vh 1.8vw',
-                        border: '4px solid #d8b4fe',
-                        boxShadow: '0 6px 16px rgba(0,0,0,0.25)',
-                        animation: `pulse 2s ease-in-out ${index * 0.2}s infinite`
-                      }}
-                    >
-                      <div style={{ display: 'flex', alignItems: 'center', gap: '1vw', marginBottom: '1.5vh' }}>
-                        <div style={{
-                          padding: '0.8vh 1.2vw',
-                          background: 'white',
-                          borderRadius: '1vh',
-                          color: '#111827',
-                          fontSize: '1.6vh',
-                          fontWeight: '900',
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: '0.8vw',
-                          border: '2px solid #9333ea'
-                        }}>
-                          <Radio style={{ width: '2vh', height: '2vh', color: '#9333ea' }} />
-                          AMMINISTRAZIONE
-                        </div>
-                        <span style={{ fontSize: '1.5vh', fontWeight: '700', color: '#6b7280' }}>
-                          {formatTime(broadcast.timestamp)}
-                        </span>
+
+                <div style={{ flex: 1, overflow: 'hidden' }}>
+                  {broadcasts.length === 0 ? (
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+                      <div style={{ textAlign: 'center' }}>
+                        <Radio style={{ width: '8vh', height: '8vh', color: '#d1d5db', margin: '0 auto 1.5vh' }} />
+                        <p style={{ fontSize: '2.5vh', color: '#9ca3af', fontWeight: '700' }}>Nessun annuncio</p>
                       </div>
-                      <p style={{ fontSize: '2.5vh', lineHeight: '1.5', color: '#111827', fontWeight: '700', margin: 0 }}>
-                        {broadcast.content}
-                      </p>
                     </div>
-                  ))}
+                  ) : (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '2vh' }}>
+                      {/* Broadcast Messages */}
+                      {broadcasts.map((broadcast, index) => (
+                        <div
+                          key={broadcast.id}
+                          style={{
+                            background: 'linear-gradient(90deg, #f3e8ff 0%, #fce7f3 100%)',
+                            borderRadius: '1.5vh',
+                            padding: '2.5vh 1.8vw',
+                            border: '4px solid #d8b4fe',
+                            boxShadow: '0 6px 16px rgba(0,0,0,0.25)',
+                            animation: `pulse 2s ease-in-out ${index * 0.2}s infinite`
+                          }}
+                        >
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '1vw', marginBottom: '1.5vh' }}>
+                            <div style={{
+                              padding: '0.8vh 1.2vw',
+                              background: 'white',
+                              borderRadius: '1vh',
+                              color: '#111827',
+                              fontSize: '1.6vh',
+                              fontWeight: '900',
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: '0.8vw',
+                              border: '2px solid #9333ea'
+                            }}>
+                              <Radio style={{ width: '2vh', height: '2vh', color: '#9333ea' }} />
+                              AMMINISTRAZIONE
+                            </div>
+                            <span style={{ fontSize: '1.5vh', fontWeight: '700', color: '#6b7280' }}>
+                              {formatTime(broadcast.timestamp)}
+                            </span>
+                          </div>
+                          <p style={{ fontSize: '2.5vh', lineHeight: '1.5', color: '#111827', fontWeight: '700', margin: 0 }}>
+                            {broadcast.content}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              )}
+              </div>
             </div>
-          </div>
-        </div>
+        </>
+      ) : scene === 'leaderboard' ? (
+        <TvLeaderboardScene leaderboard={leaderboard} tableBadges={tableBadges} />
+      ) : scene === 'wall' ? (
+        <TvWallScene messages={wall} tableBadges={tableBadges} now={currentTime} />
+      ) : scene === 'challenge' ? (
+        <TvChallengeScene challenges={challenges} challengeVotes={challengeVotes} now={currentTime} />
+      ) : scene === 'countdown' ? (
+        <TvCountdownScene countdown={countdown} now={currentTime} />
+      ) : scene === 'announcement' ? (
+        <TvAnnouncementScene announcement={tvState.announcement} broadcasts={broadcasts} />
+      ) : (
+        <TvPodiumScene leaderboard={leaderboard} tableBadges={tableBadges} />
+      )}
 
       <style>{`
         @keyframes slideIn {
@@ -751,6 +752,9 @@ export function TVDisplay() {
           overflow: hidden;
         }
       `}</style>
+
+      {/* FESTEGGIAMENTO FINE SFIDA */}
+      {celebration && tvState.content === 'all' && <TvCelebration challenge={celebration} />}
     </div>
   );
 }
@@ -0,0 +1,363 @@
+import type { ReactNode } from 'react';
+import { Trophy, MessageSquare, Timer, Radio, Pin } from 'lucide-react';
+import { isAwaitingJudgement, type ChallengeJudging, type ChallengeSubmission } from '../utils/challenge-submissions';
+import type { TableBadges } from '../utils/table-badges';
+
+export interface LeaderboardEntry {
+  tableId: string;
+  points: number;
+}
+
+export interface BroadcastMessage {
+  id: string;
+  content: string;
+  timestamp: string;
+}
+
+export interface Challenge {
+  id: string;
+  title: string;
+  description: string;
+  type: string;
+  startedAt: string;
+  endsAt: string;
+  active: boolean;
+  badgeName: string;
+  badgeEmoji: string;
+  extendedAt?: string | null; // Spareggio in corso
+  judging?: ChallengeJudging | null;
+  awaitingJudgement?: boolean;
+}
+
+// Messaggio approvato dallo staff per la bacheca del TV (il mittente ha dato il consenso)
+export interface WallMessage {
+  id: string;
+  content: string;
+  fromTable: string | null;
+  toTable: string;
+  senderName: string | null;
+  timestamp: string;
+  pinned: boolean;
+}
+
+export interface TvCountdown {
+  active: boolean;
+  endsAt?: string;
+  message?: string;
+}
+
+// Tempo rimanente in formato m:ss
+export function formatTimeLeft(endsAt: string, now: Date): string {
+  const timeLeft = Math.max(0, Math.floor((new Date(endsAt).getTime() - now.getTime()) / 1000));
+  return `${Math.floor(timeLeft / 60)}:${(timeLeft % 60).toString().padStart(2, '0')}`;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Riquadro a tutto schermo di una scena (sotto l'intestazione del TV)
+ */
+function ScenePanel({ title, icon, color, children }: { title: string; icon: ReactNode; color: string; children: ReactNode }) {
+  return (
+    <div style={{ padding: '0 2vw 2vh 2vw', height: '100%', boxSizing: 'border-box' }}>
+      <div style={{
+        height: '100%',
+        boxSizing: 'border-box',
+        background: 'white',
+        borderRadius: '2vh',
+        padding: '3vh 3vw',
+        border: `5px solid ${color}`,
+        boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+        overflow: 'hidden',
+        display: 'flex',
+        flexDirection: 'column',
+        animation: 'fadeIn 0.6s ease-out'
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '1.5vw',
+          marginBottom: '3vh',
+          paddingBottom: '2vh',
+          borderBottom: `4px solid ${color}`
+        }}>
+          <div style={{
+            width: '7vh',
+            height: '7vh',
+            background: color,
+            borderRadius: '1.2vh',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}>
+            {icon}
+          </div>
+          <h2 style={{ fontSize: '5.5vh', fontWeight: '900', color: '#111827', margin: 0, lineHeight: '1' }}>
+            {title}
+          </h2>
+        </div>
+        <div style={{ flex: 1, overflow: 'hidden' }}>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EmptyScene({ text }: { text: string }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+      <p style={{ fontSize: '4vh', color: '#9ca3af', fontWeight: '700' }}>{text}</p>
+    </div>
+  );
+}
+
+function BadgeEmojis({ tableId, tableBadges }: { tableId: string; tableBadges: TableBadges }) {
+  const badges = tableBadges[tableId] ?? [];
+  if (badges.length === 0) return null;
+
+  return (
+    <span style={{ fontSize: '3vh', marginLeft: '1vw' }}>
+      {badges.slice(-4).map(badge => badge.emoji).join(' ')}
+      {badges.length > 4 && ` +${badges.length - 4}`}
+    </span>
+  );
+}
+
+/**
+ * Classifica completa (fino a 10 tavoli, su due colonne)
+ */
+export function TvLeaderboardScene({ leaderboard, tableBadges }: { leaderboard: LeaderboardEntry[]; tableBadges: TableBadges }) {
+  const medals = ['🥇', '🥈', '🥉'];
+
+  return (
+    <ScenePanel title="CLASSIFICA" color="#fbbf24" icon={<Trophy style={{ width: '4.5vh', height: '4.5vh', color: '#78350f' }} />}>
+      {leaderboard.length === 0 ? (
+        <EmptyScene text="Nessun punteggio ancora" />
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gridAutoFlow: 'column', gridTemplateRows: 'repeat(5, 1fr)', gap: '2vh 2vw', height: '100%' }}>
+          {leaderboard.map((entry, index) => (
+            <div key={entry.tableId} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '1.5vw',
+              padding: '0 2vw',
+              borderRadius: '1.5vh',
+              background: index < 3 ? 'linear-gradient(90deg, #fef3c7 0%, #fde68a 100%)' : '#f3f4f6',
+              animation: `slideIn 0.6s ease-out ${index * 0.08}s both`
+            }}>
+              <span style={{ fontSize: '5vh', width: '6vh', textAlign: 'center' }}>{medals[index] || index + 1}</span>
+              <span style={{ flex: 1, fontSize: '4.5vh', fontWeight: '900', color: '#111827', whiteSpace: 'nowrap', overflow: 'hidden' }}>
+                Tavolo {entry.tableId}
+                <BadgeEmojis tableId={entry.tableId} tableBadges={tableBadges} />
+              </span>
+              <span style={{ fontSize: '5.5vh', fontWeight: '900', color: '#111827' }}>{entry.points}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
+
+// Messaggi della bacheca mostrati insieme e secondi prima di passare ai successivi
+const WALL_PAGE_SIZE = 4;
+const WALL_PAGE_SECONDS = 10;
+
+function WallCard({ message, tableBadges, large, index }: { message: WallMessage; tableBadges: TableBadges; large?: boolean; index: number }) {
+  return (
+    <div style={{
+      background: large ? 'linear-gradient(135deg, #fef3c7 0%, #fde68a 100%)' : 'linear-gradient(135deg, #dbeafe 0%, #e0e7ff 100%)',
+      borderRadius: '1.5vh',
+      border: `4px solid ${large ? '#fbbf24' : '#93c5fd'}`,
+      padding: '2.5vh 1.8vw',
+      display: 'flex',
+      flexDirection: 'column',
+      overflow: 'hidden',
+      gridColumn: large ? '1 / -1' : undefined,
+      animation: `slideIn 0.6s ease-out ${index * 0.1}s both`
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', fontSize: '2.6vh', fontWeight: '900', color: large ? '#92400e' : '#1e40af', marginBottom: '1.5vh' }}>
+        {large && <Pin style={{ width: '2.8vh', height: '2.8vh', marginRight: '0.8vw' }} />}
+        Tavolo {message.fromTable}
+        {message.fromTable && <BadgeEmojis tableId={message.fromTable} tableBadges={tableBadges} />}
+        <span style={{ marginLeft: '1vw', fontWeight: '700' }}>
+          {message.senderName ? `${message.senderName} ` : ''}→ Tavolo {message.toTable} · {formatTime(message.timestamp)}
+        </span>
+      </div>
+      <p style={{ fontSize: large ? '4vh' : '3.2vh', lineHeight: '1.4', color: '#111827', fontWeight: '700', margin: 0, overflow: 'hidden' }}>
+        {message.content}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Bacheca dei messaggi approvati dallo staff: il fissato resta in cima,
+ * gli altri scorrono a gruppi
+ */
+export function TvWallScene({ messages, tableBadges, now }: { messages: WallMessage[]; tableBadges: TableBadges; now: Date }) {
+  const pinned = messages.find(message => message.pinned);
+  const others = messages.filter(message => !message.pinned);
+
+  const pageSize = pinned ? WALL_PAGE_SIZE / 2 : WALL_PAGE_SIZE;
+  const pageCount = Math.max(1, Math.ceil(others.length / pageSize));
+  const page = Math.floor(now.getTime() / 1000 / WALL_PAGE_SECONDS) % pageCount;
+  const visible = others.slice(page * pageSize, (page + 1) * pageSize);
+
+  return (
+    <ScenePanel title="BACHECA MESSAGGI" color="#3b82f6" icon={<MessageSquare style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />}>
+      {messages.length === 0 ? (
+        <EmptyScene text='Scegli "Mostra sul maxischermo" quando scrivi un messaggio!' />
+      ) : (
+        <div key={page} style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gridTemplateRows: 'repeat(2, 1fr)', gap: '2vh 2vw', height: '100%' }}>
+          {pinned && <WallCard message={pinned} tableBadges={tableBadges} large index={0} />}
+          {visible.map((message, index) => (
+            <WallCard key={message.id} message={message} tableBadges={tableBadges} index={index + 1} />
+          ))}
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
+
+/**
+ * Sfida attiva più recente in primo piano, con tempo rimanente e voti
+ */
+export function TvChallengeScene({ challenges, challengeVotes, now }: {
+  challenges: Challenge[];
+  challengeVotes: Record<string, ChallengeSubmission[]>;
+  now: Date;
+}) {
+  const challenge = challenges[0];
+
+  return (
+    <ScenePanel title={challenge?.extendedAt ? 'SPAREGGIO' : 'SFIDA IN CORSO'} color="#f59e0b" icon={<Trophy style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />}>
+      {!challenge ? (
+        <EmptyScene text="Nessuna sfida attiva" />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '100%', textAlign: 'center', gap: '2.5vh' }}>
+          <div style={{ fontSize: '14vh', lineHeight: 1 }}>{challenge.badgeEmoji}</div>
+          <div style={{ fontSize: '7vh', fontWeight: '900', color: '#111827', lineHeight: 1.1 }}>{challenge.title}</div>
+          {challenge.description && (
+            <div style={{ fontSize: '3.5vh', fontWeight: '600', color: '#374151', maxWidth: '70vw' }}>{challenge.description}</div>
+          )}
+          <div style={{ fontSize: '8vh', fontWeight: '900', color: '#dc2626' }}>
+            {isAwaitingJudgement(challenge)
+              ? '⚖️ VERDETTO IN ARRIVO'
+              : `⏱️ ${formatTimeLeft(challenge.endsAt, now)}`}
+          </div>
+          {challenge.judging === 'vote' && (challengeVotes[challenge.id] || []).length > 0 && (
+            <div style={{ display: 'flex', gap: '2vw' }}>
+              {(challengeVotes[challenge.id] || []).map((submission) => (
+                <div key={submission.id} style={{ background: '#fef3c7', borderRadius: '1.5vh', padding: '1.5vh 2vw', fontSize: '3vh', fontWeight: '800', color: '#111827' }}>
+                  Tavolo {submission.fromTable} · 🗳️ {submission.votes}
+                </div>
+              ))}
+            </div>
+          )}
+          {challenges.length > 1 && (
+            <div style={{ fontSize: '2.5vh', fontWeight: '700', color: '#6b7280' }}>
+              + {challenges.length - 1} {challenges.length === 2 ? 'altra sfida attiva' : 'altre sfide attive'}
+            </div>
+          )}
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
+
+/**
+ * Countdown a schermo intero
+ */
+export function TvCountdownScene({ countdown, now }: { countdown: TvCountdown; now: Date }) {
+  const isRunning = countdown.active && countdown.endsAt;
+
+  return (
+    <ScenePanel title="COUNTDOWN" color="#ef4444" icon={<Timer style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />}>
+      {!isRunning ? (
+        <EmptyScene text="Nessun countdown attivo" />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '100%', gap: '3vh' }}>
+          <div style={{ fontSize: '5vh', fontWeight: '800', color: '#374151' }}>{countdown.message}</div>
+          <div style={{ fontSize: '30vh', fontWeight: '900', color: '#dc2626', lineHeight: 1, fontVariantNumeric: 'tabular-nums' }}>
+            {formatTimeLeft(countdown.endsAt!, now)}
+          </div>
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
+
+/**
+ * Annuncio dello staff (o, se manca il testo, l'ultimo broadcast)
+ */
+export function TvAnnouncementScene({ announcement, broadcasts }: { announcement: string | null; broadcasts: BroadcastMessage[] }) {
+  const text = announcement || broadcasts[0]?.content;
+
+  return (
+    <ScenePanel title="ANNUNCIO" color="#a855f7" icon={<Radio style={{ width: '4.5vh', height: '4.5vh', color: 'white' }} />}>
+      {!text ? (
+        <EmptyScene text="Nessun annuncio" />
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%', textAlign: 'center', padding: '0 4vw' }}>
+          <p style={{ fontSize: '8vh', lineHeight: 1.25, fontWeight: '900', color: '#111827', margin: 0 }}>{text}</p>
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
+
+/**
+ * Podio dei primi tre tavoli della classifica
+ */
+export function TvPodiumScene({ leaderboard, tableBadges }: { leaderboard: LeaderboardEntry[]; tableBadges: TableBadges }) {
+  // Ordine sul podio: secondo, primo, terzo
+  const steps = [
+    { entry: leaderboard[1], medal: '🥈', height: '40%', color: '#d1d5db' },
+    { entry: leaderboard[0], medal: '🥇', height: '60%', color: '#fbbf24' },
+    { entry: leaderboard[2], medal: '🥉', height: '28%', color: '#fb923c' }
+  ];
+
+  return (
+    <ScenePanel title="PODIO" color="#fbbf24" icon={<Trophy style={{ width: '4.5vh', height: '4.5vh', color: '#78350f' }} />}>
+      {leaderboard.length === 0 ? (
+        <EmptyScene text="Nessun punteggio ancora" />
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'center', gap: '2vw', height: '100%' }}>
+          {steps.map(({ entry, medal, height, color }) => (
+            <div key={medal} style={{ width: '22vw', height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', alignItems: 'center' }}>
+              {entry && (
+                <>
+                  <div style={{ fontSize: '9vh', lineHeight: 1 }}>{medal}</div>
+                  <div style={{ fontSize: '5vh', fontWeight: '900', color: '#111827', margin: '1vh 0' }}>Tavolo {entry.tableId}</div>
+                  <div style={{ fontSize: '3vh', minHeight: '3.5vh' }}>
+                    {(tableBadges[entry.tableId] ?? []).slice(-4).map(badge => badge.emoji).join(' ')}
+                  </div>
+                  <div style={{
+                    width: '100%',
+                    height,
+                    marginTop: '1vh',
+                    background: color,
+                    borderRadius: '1.5vh 1.5vh 0 0',
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    justifyContent: 'center',
+                    paddingTop: '2vh',
+                    fontSize: '7vh',
+                    fontWeight: '900',
+                    color: '#111827',
+                    animation: 'fadeIn 1s ease-out'
+                  }}>
+                    {entry.points}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </ScenePanel>
+  );
+}
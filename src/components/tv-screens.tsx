@@ -0,0 +1,416 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Separator } from './ui/separator';
+import { Tv, Play, Square, X, Trash2, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import {
+  MAIN_TV_SCREEN,
+  TV_CONTENT_FILTERS,
+  TV_SCENE_LABELS,
+  TV_THEMES,
+  type TvContentFilter,
+  type TvRotationStep,
+  type TvScene,
+  type TvState,
+  type TvTheme
+} from '../utils/tv-scenes';
+
+// Schermo registrato con il numero di TV collegati in questo momento
+interface TvScreen extends TvState {
+  online: number;
+}
+
+// Lo stato "online" segue le connessioni aperte dei TV
+const SCREENS_REFRESH_MS = 10000;
+
+const screenLink = (key: string) => `${window.location.origin}?tv${key === MAIN_TV_SCREEN ? '' : `=${key}`}`;
+
+/**
+ * Schermi TV con nome (?tv=bar): quali sono collegati, tema, contenuti,
+ * scena fissa o rotazione di ciascuno
+ */
+export function TvScreens() {
+  const [screens, setScreens] = useState<TvScreen[]>([]);
+  const [selectedKey, setSelectedKey] = useState(MAIN_TV_SCREEN);
+  const [announcement, setAnnouncement] = useState('');
+  const [rotation, setRotation] = useState<TvRotationStep[]>([]);
+  const [newScreenKey, setNewScreenKey] = useState('');
+  const [newScreenName, setNewScreenName] = useState('');
+
+  const selected = screens.find(screen => screen.key === selectedKey);
+  const allowedScenes = selected ? TV_CONTENT_FILTERS[selected.content].scenes : [];
+
+  // Bozze di annuncio e rotazione dello schermo selezionato
+  const selectScreen = (screen: TvScreen) => {
+    setSelectedKey(screen.key);
+    setAnnouncement(screen.announcement || '');
+    setRotation(screen.rotation);
+  };
+
+  // select = schermo da selezionare dopo il caricamento (senza, le bozze restano intatte)
+  const fetchScreens = async (select?: string) => {
+    try {
+      const response = await fetch(buildApiUrl('admin/tv'), { headers: getApiHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setScreens(data.screens);
+
+        const screen = select ? data.screens.find((s: TvScreen) => s.key === select) : null;
+        if (screen) selectScreen(screen);
+      }
+    } catch (error) {
+      console.error('Error fetching TV screens:', error);
+    }
+  };
+
+  // Aggiorna lo schermo nella lista con lo stato restituito dal backend
+  const applyState = (state: TvState) => {
+    setScreens(prev => prev.map(screen => screen.key === state.key ? { ...screen, ...state } : screen));
+  };
+
+  const handleCreateScreen = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/tv/screens'), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ key: newScreenKey.trim(), name: newScreenName.trim() })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        toast.success(`Schermo "${data.screen.name}" registrato`);
+        setNewScreenKey('');
+        setNewScreenName('');
+        await fetchScreens(data.screen.key);
+      } else {
+        toast.error(data.error || 'Errore nella registrazione dello schermo');
+      }
+    } catch (error) {
+      console.error('Error creating TV screen:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleUpdateScreen = async (changes: { theme?: TvTheme; content?: TvContentFilter }) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/tv/screens/${selectedKey}`), {
+        method: 'PUT',
+        headers: getApiHeaders(),
+        body: JSON.stringify(changes)
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        applyState(data.screen);
+        setRotation(data.screen.rotation);
+        toast.success('Schermo aggiornato');
+      } else {
+        toast.error(data.error || 'Errore nell\'aggiornamento dello schermo');
+      }
+    } catch (error) {
+      console.error('Error updating TV screen:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleDeleteScreen = async () => {
+    if (!selected || !confirm(`Eliminare lo schermo "${selected.name}"? I TV collegati smetteranno di mostrare contenuti.`)) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`admin/tv/screens/${selectedKey}`), {
+        method: 'DELETE',
+        headers: getApiHeaders()
+      });
+
+      if (response.ok) {
+        toast.success('Schermo eliminato');
+        await fetchScreens(MAIN_TV_SCREEN);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Errore nell\'eliminazione dello schermo');
+      }
+    } catch (error) {
+      console.error('Error deleting TV screen:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleSetScene = async (scene: TvScene) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/tv/screens/${selectedKey}/scene`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ scene, announcement })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        applyState(data.state);
+        toast.success(`${data.state.name}: ${TV_SCENE_LABELS[scene]}`);
+      } else {
+        toast.error(data.error || 'Errore nel cambio scena');
+      }
+    } catch (error) {
+      console.error('Error setting TV scene:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleSaveRotation = async (active: boolean) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/tv/screens/${selectedKey}/rotation`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify({ rotation, active })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        applyState(data.state);
+        toast.success(active ? 'Rotazione avviata' : 'Rotazione salvata');
+      } else {
+        toast.error(data.error || 'Errore nel salvataggio della rotazione');
+      }
+    } catch (error) {
+      console.error('Error saving TV rotation:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(screenLink(selectedKey));
+      toast.success('Link copiato');
+    } catch {
+      toast.error('Impossibile copiare il link');
+    }
+  };
+
+  useEffect(() => {
+    fetchScreens(MAIN_TV_SCREEN);
+    const interval = setInterval(() => fetchScreens(), SCREENS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Tv className="w-5 h-5 text-purple-500" />
+          Schermi TV
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Ogni schermo ha il suo link, tema, contenuti e scena
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 px-4 sm:px-6">
+        {/* Schermi registrati */}
+        <div className="space-y-2">
+          {screens.map((screen) => (
+              <div
+                  key={screen.key}
+                  onClick={() => selectScreen(screen)}
+                  className={`flex items-center justify-between gap-3 p-3 border rounded-lg cursor-pointer hover:shadow-sm ${
+                    screen.key === selectedKey ? 'border-primary bg-primary/5' : ''
+                  }`}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm truncate">{screen.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    ?tv{screen.key === MAIN_TV_SCREEN ? '' : `=${screen.key}`} · {TV_THEMES[screen.theme]?.label} · {TV_CONTENT_FILTERS[screen.content]?.label}
+                  </div>
+                </div>
+                <Badge variant={screen.online > 0 ? 'default' : 'outline'} className={screen.online > 0 ? 'bg-green-600' : ''}>
+                  {screen.online > 0 ? `Online${screen.online > 1 ? ` (${screen.online})` : ''}` : 'Offline'}
+                </Badge>
+              </div>
+          ))}
+        </div>
+
+        {/* Nuovo schermo */}
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Nuovo schermo</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+                value={newScreenKey}
+                onChange={(e) => setNewScreenKey(e.target.value.toLowerCase())}
+                placeholder="Nel link, es. bar"
+                maxLength={20}
+                className="sm:w-40"
+            />
+            <Input
+                value={newScreenName}
+                onChange={(e) => setNewScreenName(e.target.value)}
+                placeholder="Nome, es. TV del bar"
+                maxLength={50}
+            />
+            <Button onClick={handleCreateScreen} disabled={!newScreenKey.trim() || !newScreenName.trim()}>
+              Registra
+            </Button>
+          </div>
+        </div>
+
+        {selected && (
+            <>
+              <Separator />
+
+              {/* Impostazioni dello schermo selezionato */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-sm font-semibold">{selected.name}</Label>
+                  <Badge variant={selected.rotationActive ? 'default' : 'secondary'}>
+                    {selected.rotationActive ? 'Rotazione attiva' : `Fissa: ${TV_SCENE_LABELS[selected.scene]}`}
+                  </Badge>
+                </div>
+                <div className="flex gap-2">
+                  <Input value={screenLink(selected.key)} readOnly className="text-xs font-mono" />
+                  <Button onClick={handleCopyLink} variant="outline" size="sm">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Sul TV apri prima il link con il token display: il token resta memorizzato nel browser
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="tvTheme" className="text-xs">Tema</Label>
+                    <select
+                        id="tvTheme"
+                        value={selected.theme}
+                        onChange={(e) => handleUpdateScreen({ theme: e.target.value as TvTheme })}
+                        className="w-full px-3 py-2 text-sm border rounded-md"
+                    >
+                      {(Object.keys(TV_THEMES) as TvTheme[]).map((theme) => (
+                          <option key={theme} value={theme}>{TV_THEMES[theme].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tvContent" className="text-xs">Contenuti</Label>
+                    <select
+                        id="tvContent"
+                        value={selected.content}
+                        onChange={(e) => handleUpdateScreen({ content: e.target.value as TvContentFilter })}
+                        className="w-full px-3 py-2 text-sm border rounded-md"
+                    >
+                      {(Object.keys(TV_CONTENT_FILTERS) as TvContentFilter[]).map((content) => (
+                          <option key={content} value={content}>{TV_CONTENT_FILTERS[content].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {selected.key !== MAIN_TV_SCREEN && (
+                    <Button onClick={handleDeleteScreen} variant="outline" size="sm" className="w-full text-destructive">
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Elimina schermo
+                    </Button>
+                )}
+              </div>
+
+              {/* Scena */}
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold">Scena</Label>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {allowedScenes.map((scene) => (
+                      <Button
+                          key={scene}
+                          onClick={() => handleSetScene(scene)}
+                          variant={!selected.rotationActive && selected.scene === scene ? 'default' : 'outline'}
+                          size="sm"
+                          className="min-h-[40px]"
+                      >
+                        {TV_SCENE_LABELS[scene]}
+                      </Button>
+                  ))}
+                </div>
+                {allowedScenes.includes('announcement') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="tvAnnouncement" className="text-sm">Testo dell'annuncio</Label>
+                      <Input
+                          id="tvAnnouncement"
+                          value={announcement}
+                          onChange={(e) => setAnnouncement(e.target.value)}
+                          placeholder="Es. Tra 10 minuti si apre il buffet!"
+                          maxLength={200}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Mostrato dalla scena Annuncio (senza testo il TV mostra l'ultimo broadcast)
+                      </p>
+                    </div>
+                )}
+              </div>
+
+              {/* Rotazione automatica */}
+              {allowedScenes.length > 1 && (
+                  <div className="space-y-3">
+                    <Label className="text-sm font-semibold">Rotazione automatica</Label>
+                    {rotation.map((step, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <select
+                              value={step.scene}
+                              onChange={(e) => setRotation(prev => prev.map((s, i) => i === index ? { ...s, scene: e.target.value as TvScene } : s))}
+                              className="flex-1 px-3 py-2 text-sm border rounded-md"
+                          >
+                            {allowedScenes.map((scene) => (
+                                <option key={scene} value={scene}>{TV_SCENE_LABELS[scene]}</option>
+                            ))}
+                          </select>
+                          <Input
+                              type="number"
+                              min={5}
+                              max={600}
+                              value={step.seconds}
+                              onChange={(e) => setRotation(prev => prev.map((s, i) => i === index ? { ...s, seconds: parseInt(e.target.value) || 0 } : s))}
+                              className="w-24 text-sm"
+                          />
+                          <span className="text-xs text-muted-foreground">sec</span>
+                          <Button
+                              onClick={() => setRotation(prev => prev.filter((_, i) => i !== index))}
+                              variant="ghost"
+                              size="sm"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                    ))}
+                    <Button
+                        onClick={() => setRotation(prev => [...prev, { scene: allowedScenes[0], seconds: 30 }])}
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        disabled={rotation.length >= 12}
+                    >
+                      Aggiungi scena
+                    </Button>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button onClick={() => handleSaveRotation(true)} disabled={rotation.length === 0} className="min-h-[40px]">
+                        <Play className="w-4 h-4 mr-2" />
+                        {selected.rotationActive ? 'Riavvia rotazione' : 'Avvia rotazione'}
+                      </Button>
+                      <Button
+                          onClick={() => selected.rotationActive ? handleSetScene(selected.scene) : handleSaveRotation(false)}
+                          disabled={rotation.length === 0}
+                          variant="outline"
+                          className="min-h-[40px]"
+                      >
+                        {selected.rotationActive ? (
+                            <>
+                              <Square className="w-4 h-4 mr-2" />
+                              Ferma rotazione
+                            </>
+                        ) : 'Salva senza avviare'}
+                      </Button>
+                    </div>
+                  </div>
+              )}
+            </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
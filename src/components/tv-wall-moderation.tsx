@@ -0,0 +1,154 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Check, X, Pin, PinOff, MonitorPlay, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildApiUrl, getApiHeaders } from '../utils/api-helper';
+import { TableBadgeIcons } from './table-badge-icons';
+import { useTableBadges } from '../utils/table-badges';
+import type { WallMessage } from './tv-scenes';
+
+// Le richieste arrivano di continuo durante la serata
+const WALL_REFRESH_MS = 10000;
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Bacheca del TV: richieste dei tavoli da approvare e messaggi in rotazione
+ * (uno può essere fissato in cima)
+ */
+export function TvWallModeration() {
+  const [pending, setPending] = useState<WallMessage[]>([]);
+  const [approved, setApproved] = useState<WallMessage[]>([]);
+  const tableBadges = useTableBadges();
+
+  const fetchWall = async () => {
+    try {
+      const response = await fetch(buildApiUrl('admin/wall'), { headers: getApiHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setPending(data.pending || []);
+        setApproved(data.approved || []);
+      }
+    } catch (error) {
+      console.error('Error fetching wall:', error);
+    }
+  };
+
+  const handleWallAction = async (messageId: string, action: 'approve' | 'reject' | 'pin', pinned?: boolean) => {
+    try {
+      const response = await fetch(buildApiUrl(`admin/wall/${encodeURIComponent(messageId)}/${action}`), {
+        method: 'POST',
+        headers: getApiHeaders(),
+        body: JSON.stringify(action === 'pin' ? { pinned } : {})
+      });
+
+      if (response.ok) {
+        toast.success(
+          action === 'approve' ? 'Messaggio sul maxischermo'
+            : action === 'reject' ? 'Messaggio tolto dalla bacheca'
+              : pinned ? 'Messaggio fissato' : 'Messaggio sbloccato'
+        );
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Errore nell\'aggiornamento della bacheca');
+      }
+      await fetchWall();
+    } catch (error) {
+      console.error('Error updating wall:', error);
+      toast.error('Errore di connessione');
+    }
+  };
+
+  useEffect(() => {
+    fetchWall();
+    const interval = setInterval(fetchWall, WALL_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const renderMessage = (message: WallMessage, actions: ReactNode) => (
+    <div key={message.id} className={`p-3 border rounded-lg ${message.pinned ? 'border-primary bg-primary/5' : ''}`}>
+      <div className="flex items-center justify-between gap-2 mb-1 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          Tavolo {message.fromTable}
+          <TableBadgeIcons badges={message.fromTable ? tableBadges[message.fromTable] : undefined} />
+          {message.senderName ? ` · ${message.senderName}` : ''} → Tavolo {message.toTable}
+        </span>
+        <span>{formatTime(message.timestamp)}</span>
+      </div>
+      <p className="text-sm mb-2 break-words whitespace-pre-wrap">{message.content}</p>
+      <div className="flex flex-wrap gap-2">{actions}</div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <MonitorPlay className="w-5 h-5 text-blue-500" />
+          Bacheca del TV
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Solo i messaggi che i tavoli chiedono di mostrare sul maxischermo, dopo la tua approvazione
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">In attesa ({pending.length})</h4>
+          <div className="max-h-80 overflow-y-auto">
+            <div className="space-y-2">
+              {pending.map((message) => renderMessage(message, (
+                <>
+                  <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleWallAction(message.id, 'approve')}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Mostra
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleWallAction(message.id, 'reject')}>
+                    <X className="w-4 h-4 mr-1" />
+                    Scarta
+                  </Button>
+                </>
+              )))}
+              {pending.length === 0 && (
+                <p className="text-center text-muted-foreground py-4 text-sm">Nessuna richiesta</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            Sul maxischermo
+            <Badge variant="secondary">{approved.length}</Badge>
+          </h4>
+          <div className="max-h-96 overflow-y-auto">
+            <div className="space-y-2">
+              {approved.map((message) => renderMessage(message, (
+                <>
+                  <Button size="sm" variant={message.pinned ? 'default' : 'outline'} onClick={() => handleWallAction(message.id, 'pin', !message.pinned)}>
+                    {message.pinned ? <PinOff className="w-4 h-4 mr-1" /> : <Pin className="w-4 h-4 mr-1" />}
+                    {message.pinned ? 'Sblocca' : 'Fissa in cima'}
+                  </Button>
+                  <Button size="sm" variant="outline" className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground" onClick={() => handleWallAction(message.id, 'reject')}>
+                    <X className="w-4 h-4 mr-1" />
+                    Togli
+                  </Button>
+                </>
+              )))}
+              {approved.length === 0 && (
+                <p className="text-center text-muted-foreground py-4 text-sm">La bacheca è vuota</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <Button onClick={fetchWall} variant="outline" className="w-full min-h-[44px]">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Aggiorna
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -32,6 +32,58 @@ export function getApiHeaders(): Record<string, string> {
   return headers;
 }
 
+/**
+ * Token display del TV (?key= nell'URL del TV, poi ricordato nel browser)
+ * È l'unico che può andare nell'URL dello stream dei TV
+ */
+export function getDisplayKey(): string | null {
+  const key = new URLSearchParams(window.location.search).get('key');
+  if (key) {
+    localStorage.setItem('tvDisplayToken', key);
+  }
+
+  return key || localStorage.getItem('tvDisplayToken');
+}
+
+/**
+ * Token del TV Display: token display oppure, se manca, il token della sessione
+ * admin/staff già aperta (solo negli header: senza token display il TV va a polling)
+ */
+export function getDisplayToken(): string | null {
+  return getDisplayKey() || localStorage.getItem('authToken');
+}
+
+/**
+ * Headers per le chiamate del TV Display
+ */
+export function getDisplayHeaders(): Record<string, string> {
+  const headers = { ...API_CONFIG.headers };
+
+  const token = getDisplayToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Testo di un errore API da mostrare all'utente
+ * Espulsione e silenziamento arrivano con l'orario di fine in ISO: lo si formatta qui, nel fuso del dispositivo
+ */
+export function apiErrorMessage(
+    data: { error?: string; code?: string; until?: string; mutedUntil?: string },
+    fallback: string
+): string {
+  if (!data.error) return fallback;
+
+  const until = data.code === 'BANNED' ? data.until : data.code === 'MUTED' ? data.mutedUntil : undefined;
+  if (!until) return data.error;
+
+  const time = new Date(until).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+  return `${data.error} fino alle ${time}`;
+}
+
 /**
  * Fetch con retry automatico in caso di errori di rete o server
  * @param url - URL da chiamare
@@ -0,0 +1,63 @@
+/**
+ * Partecipazioni alle sfide a giudizio dello staff o a votazione
+ *
+ * I tavoli iscrivono un messaggio alla sfida dal form di invio; lo staff sceglie il
+ * vincitore dall'AdminPanel, oppure i tavoli votano dalla bacheca (un voto per tavolo).
+ */
+
+import { buildApiUrl, getApiHeaders } from './api-helper';
+
+export type ChallengeJudging = 'staff' | 'vote';
+
+export interface ChallengeSubmission {
+  id: string;
+  content: string;
+  fromTable: string;
+  toTable: string;
+  publicSenderName: string | null;
+  isAnonymous: boolean;
+  timestamp: string;
+  votes: number;
+}
+
+export interface ChallengeSubmissions {
+  submissions: ChallengeSubmission[];
+  myVote: string | null; // Partecipazione votata dal tavolo (solo giocatori)
+}
+
+export async function fetchChallengeSubmissions(challengeId: string): Promise<ChallengeSubmissions | null> {
+  try {
+    const response = await fetch(buildApiUrl(`challenges/${challengeId}/submissions`), {
+      headers: getApiHeaders()
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return { submissions: data.submissions || [], myVote: data.myVote ?? null };
+    }
+  } catch (error) {
+    console.error('Error fetching challenge submissions:', error);
+  }
+  return null;
+}
+
+/**
+ * La sfida accetta ancora partecipazioni e voti (una sfida a giudizio scaduta
+ * resta attiva finché lo staff non sceglie il vincitore)
+ */
+export function isChallengeOpen(challenge: { active: boolean; endsAt: string }): boolean {
+  return challenge.active && new Date(challenge.endsAt).getTime() > Date.now();
+}
+
+/**
+ * Sfida a giudizio scaduta, in attesa del verdetto dello staff
+ * (segnalata dal server, ricavata anche dall'orologio per le sfide già caricate)
+ */
+export function isAwaitingJudgement(challenge: { active: boolean; endsAt: string; judging?: ChallengeJudging | null; awaitingJudgement?: boolean }): boolean {
+  return challenge.awaitingJudgement === true || (challenge.active && challenge.judging === 'staff' && !isChallengeOpen(challenge));
+}
+
+export const JUDGING_HINTS: Record<ChallengeJudging, string> = {
+  staff: 'Iscrivi un messaggio alla sfida: lo staff sceglierà il migliore',
+  vote: 'Iscrivi un messaggio alla sfida e vota il migliore degli altri tavoli'
+};
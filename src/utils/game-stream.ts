@@ -0,0 +1,128 @@
+/**
+ * Stream eventi in tempo reale (Server-Sent Events)
+ *
+ * Una sola connessione per tavolo: App apre lo stream con useGameStream e ogni
+ * evento ricevuto viene ridistribuito come CustomEvent su window, così anche gli
+ * altri componenti (es. MessageBoard) possono ascoltarlo con useStreamEvent.
+ * Il TV Display apre invece lo stream dei TV con useTvStream.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { buildApiUrl, getDisplayKey } from './api-helper';
+
+export type StreamEventType =
+    | 'message'
+    | 'message-moderated'
+    | 'message-hidden'
+    | 'reaction'
+    | 'reaction-emojis'
+    | 'game-status'
+    | 'countdown'
+    | 'challenge-start'
+    | 'challenge-end'
+    | 'challenge-extended'
+    | 'challenge-votes'
+    | 'table-users'
+    | 'badges'
+    | 'player-kicked'
+    | 'tv-scene'
+    | 'tv-wall'
+    | 'tv-celebration';
+
+const STREAM_EVENTS: StreamEventType[] = [
+  'message',
+  'message-moderated',
+  'message-hidden',
+  'reaction',
+  'reaction-emojis',
+  'game-status',
+  'countdown',
+  'challenge-start',
+  'challenge-end',
+  'challenge-extended',
+  'challenge-votes',
+  'table-users',
+  'badges',
+  'player-kicked',
+  'tv-scene',
+  'tv-wall',
+  'tv-celebration'
+];
+
+// Nome del CustomEvent su window per un tipo di evento dello stream
+const windowEventName = (type: StreamEventType | 'open') => `game-stream:${type}`;
+
+/**
+ * Apre lo stream SSE per un tavolo e restituisce se la connessione è attiva
+ * Quando lo stream cade, EventSource riprova da solo; nel frattempo i componenti
+ * tornano al polling in base al valore restituito.
+ */
+export function useGameStream(tableNumber: string | null): boolean {
+  return useEventStream(tableNumber ? `stream/${tableNumber}` : null, () => localStorage.getItem('authToken'));
+}
+
+/**
+ * Apre lo stream di uno schermo TV (token display): cambi scena ed eventi globali
+ * Con la sola sessione admin/staff non si apre (il JWT non va in query string): resta il polling
+ */
+export function useTvStream(screen: string): boolean {
+  return useEventStream(getDisplayKey() ? `tv/stream?screen=${encodeURIComponent(screen)}` : null, getDisplayKey);
+}
+
+function useEventStream(path: string | null, getToken: () => string | null): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!path || typeof EventSource === 'undefined') return;
+
+    // EventSource non supporta header custom: il token viaggia in query string
+    const token = getToken() || '';
+    const separator = path.includes('?') ? '&' : '?';
+    const source = new EventSource(buildApiUrl(`${path}${separator}token=${encodeURIComponent(token)}`));
+
+    source.onopen = () => {
+      setConnected(true);
+      // Notifica la (ri)connessione: i componenti ricaricano lo stato per coprire eventi persi
+      window.dispatchEvent(new CustomEvent(windowEventName('open')));
+    };
+
+    source.onerror = () => {
+      setConnected(false);
+    };
+
+    for (const type of STREAM_EVENTS) {
+      source.addEventListener(type, (event) => {
+        try {
+          const data = JSON.parse((event as MessageEvent).data);
+          window.dispatchEvent(new CustomEvent(windowEventName(type), { detail: data }));
+        } catch (error) {
+          console.error(`Error parsing stream event ${type}:`, error);
+        }
+      });
+    }
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [path]);
+
+  return connected;
+}
+
+/**
+ * Ascolta un evento dello stream (o la sua apertura con 'open')
+ * L'handler più recente viene sempre usato, senza dover ri-registrare il listener.
+ */
+export function useStreamEvent(type: StreamEventType | 'open', handler: (data: any) => void) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const listener = (event: Event) => handlerRef.current((event as CustomEvent).detail);
+    const name = windowEventName(type);
+
+    window.addEventListener(name, listener);
+    return () => window.removeEventListener(name, listener);
+  }, [type]);
+}
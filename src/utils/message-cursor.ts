@@ -0,0 +1,33 @@
+/**
+ * Sincronizzazione incrementale dei messaggi
+ *
+ * Gli ID dei messaggi sono ordinabili nel tempo: l'ID più recente già ricevuto fa da
+ * cursore (?since=) per scaricare solo i nuovi, il più vecchio (?before=) per caricare
+ * lo storico a scorrimento.
+ */
+
+/**
+ * Costruisce la query string di paginazione
+ */
+export function messagePageQuery(params: { since?: string | null; from?: string | null; before?: string | null; limit?: number }): string {
+  const query = new URLSearchParams();
+  if (params.since) query.set('since', params.since);
+  if (params.from) query.set('from', params.from);
+  if (params.before) query.set('before', params.before);
+  if (params.limit) query.set('limit', String(params.limit));
+
+  const value = query.toString();
+  return value ? `?${value}` : '';
+}
+
+/**
+ * Unisce due liste di messaggi senza duplicati (la versione nuova vince) ordinandole per ID
+ */
+export function mergeMessages<T extends { id: string }>(existing: T[], incoming: T[], order: 'asc' | 'desc' = 'asc'): T[] {
+  const byId = new Map<string, T>();
+  for (const message of existing) byId.set(message.id, message);
+  for (const message of incoming) byId.set(message.id, message);
+
+  const merged = Array.from(byId.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return order === 'asc' ? merged : merged.reverse();
+}
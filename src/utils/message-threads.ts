@@ -0,0 +1,36 @@
+/**
+ * Raggruppamento dei messaggi in conversazioni
+ *
+ * Una risposta porta con sé il threadId (ID del primo messaggio della conversazione):
+ * i messaggi con lo stesso thread vengono mostrati insieme, in ordine cronologico,
+ * e le conversazioni sono ordinate dalla più recente.
+ */
+
+interface ThreadableMessage {
+  id: string;
+  threadId?: string | null;
+}
+
+/**
+ * Raggruppa i messaggi per conversazione (gli ID sono ordinabili nel tempo)
+ */
+export function groupThreads<T extends ThreadableMessage>(messages: T[]): T[][] {
+  const threads = new Map<string, T[]>();
+
+  for (const message of messages) {
+    const key = message.threadId || message.id;
+    const thread = threads.get(key);
+    if (thread) {
+      thread.push(message);
+    } else {
+      threads.set(key, [message]);
+    }
+  }
+
+  const byId = (a: T, b: T) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  const lastId = (thread: T[]) => thread[thread.length - 1].id;
+
+  return Array.from(threads.values())
+    .map(thread => thread.sort(byId))
+    .sort((a, b) => (lastId(a) < lastId(b) ? 1 : lastId(a) > lastId(b) ? -1 : 0));
+}
@@ -0,0 +1,60 @@
+/**
+ * Badge vinti dai tavoli nelle sfide
+ *
+ * La mappa tavolo → badge viene scaricata all'avvio (e a ogni riconnessione dello
+ * stream) e sostituita per intero quando una sfida assegna nuovi badge.
+ */
+
+import { useEffect, useState } from 'react';
+import { buildApiUrl, getApiHeaders } from './api-helper';
+import { useStreamEvent } from './game-stream';
+
+export interface TableBadge {
+  challengeId: string;
+  challengeTitle: string;
+  name: string;
+  emoji: string;
+  awardedAt: string;
+}
+
+export type TableBadges = Record<string, TableBadge[]>;
+
+export async function fetchTableBadges(): Promise<TableBadges | null> {
+  try {
+    const response = await fetch(buildApiUrl('badges'), {
+      headers: getApiHeaders()
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.badges || {};
+    }
+  } catch (error) {
+    console.error('Error fetching badges:', error);
+  }
+  return null;
+}
+
+/**
+ * Badge di tutti i tavoli, aggiornati in tempo reale
+ */
+export function useTableBadges(): TableBadges {
+  const [badges, setBadges] = useState<TableBadges>({});
+
+  const refresh = async () => {
+    const latest = await fetchTableBadges();
+    if (latest) setBadges(latest);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useStreamEvent('open', refresh);
+
+  useStreamEvent('badges', (data: { badges: TableBadges }) => {
+    setBadges(data.badges || {});
+  });
+
+  return badges;
+}
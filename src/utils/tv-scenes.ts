@@ -0,0 +1,100 @@
+/**
+ * Schermi e scene del TV Display (stesse chiavi del backend)
+ *
+ * Con la rotazione attiva la scena corrente dipende solo dal tempo trascorso
+ * dall'avvio: ogni TV la calcola da sé e i TV dello stesso schermo restano allineati.
+ */
+
+export type TvScene = 'overview' | 'leaderboard' | 'wall' | 'challenge' | 'countdown' | 'announcement' | 'podium';
+
+export interface TvRotationStep {
+  scene: TvScene;
+  seconds: number;
+}
+
+export type TvTheme = 'default' | 'dark' | 'sunset';
+
+export type TvContentFilter = 'all' | 'broadcasts' | 'leaderboard';
+
+export interface TvState {
+  key: string;
+  name: string;
+  theme: TvTheme;
+  content: TvContentFilter;
+  scene: TvScene;
+  announcement: string | null;
+  rotation: TvRotationStep[];
+  rotationActive: boolean;
+  rotationStartedAt: string | null;
+  updatedBy?: string | null;
+}
+
+export const TV_SCENE_LABELS: Record<TvScene, string> = {
+  overview: 'Panoramica',
+  leaderboard: 'Classifica',
+  wall: 'Bacheca messaggi',
+  challenge: 'Sfida in primo piano',
+  countdown: 'Countdown',
+  announcement: 'Annuncio',
+  podium: 'Podio'
+};
+
+// Schermo del semplice ?tv
+export const MAIN_TV_SCREEN = 'main';
+
+export const TV_THEMES: Record<TvTheme, { label: string; background: string }> = {
+  default: { label: 'Festa', background: 'linear-gradient(135deg, #1e1b4b 0%, #312e81 50%, #1e40af 100%)' },
+  dark: { label: 'Scuro', background: 'linear-gradient(135deg, #030712 0%, #111827 100%)' },
+  sunset: { label: 'Tramonto', background: 'linear-gradient(135deg, #7c2d12 0%, #be185d 50%, #6d28d9 100%)' }
+};
+
+// Scene che ogni filtro contenuti consente
+export const TV_CONTENT_FILTERS: Record<TvContentFilter, { label: string; scenes: TvScene[] }> = {
+  all: { label: 'Tutto', scenes: Object.keys(TV_SCENE_LABELS) as TvScene[] },
+  broadcasts: { label: 'Solo broadcast', scenes: ['announcement'] },
+  leaderboard: { label: 'Solo classifica', scenes: ['leaderboard', 'podium'] }
+};
+
+/**
+ * Schermo da mostrare: ?tv=bar → "bar", il semplice ?tv → schermo principale
+ */
+export function getTvScreenKey(): string {
+  const screen = new URLSearchParams(window.location.search).get('tv');
+  return screen && screen.trim() ? screen.trim().toLowerCase() : MAIN_TV_SCREEN;
+}
+
+export const DEFAULT_TV_STATE: TvState = {
+  key: MAIN_TV_SCREEN,
+  name: 'Schermo principale',
+  theme: 'default',
+  content: 'all',
+  scene: 'overview',
+  announcement: null,
+  rotation: [],
+  rotationActive: false,
+  rotationStartedAt: null
+};
+
+/**
+ * Scena da mostrare adesso: quella fissa, oppure il passo della rotazione in corso
+ * (sempre tra quelle consentite dal filtro contenuti dello schermo)
+ */
+export function resolveTvScene(state: TvState, now: Date): TvScene {
+  const allowed = (TV_CONTENT_FILTERS[state.content] ?? TV_CONTENT_FILTERS.all).scenes;
+  const scene = rotationScene(state, now);
+  return allowed.includes(scene) ? scene : allowed[0];
+}
+
+function rotationScene(state: TvState, now: Date): TvScene {
+  const total = state.rotation.reduce((sum, step) => sum + step.seconds, 0);
+  if (!state.rotationActive || !state.rotationStartedAt || total === 0) return state.scene;
+
+  const elapsed = Math.max(0, Math.floor((now.getTime() - new Date(state.rotationStartedAt).getTime()) / 1000));
+  let position = elapsed % total;
+
+  for (const step of state.rotation) {
+    if (position < step.seconds) return step.scene;
+    position -= step.seconds;
+  }
+  return state.scene;
+}